@@ -1,16 +1,12 @@
-import { useState } from 'react'
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
-import './App.css'
-import MessageCard from './Jefferey'
-function App() {
-  const [count, setCount] = useState(0)
+import { RouterProvider } from 'react-router-dom'
+import { router } from './app/router'
+import { Toaster } from './components/ui/toaster'
 
+function App() {
   return (
     <>
-    
-        <MessageCard/>
-
+      <RouterProvider router={router} />
+      <Toaster />
     </>
   )
 }
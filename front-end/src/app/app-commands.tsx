@@ -0,0 +1,150 @@
+import * as React from "react"
+import {
+  Home,
+  Keyboard,
+  LayoutDashboard,
+  Monitor,
+  Moon,
+  Palette,
+  PanelLeft,
+  Settings,
+  Sun,
+  SunMoon,
+} from "lucide-react"
+import { useNavigate } from "react-router-dom"
+
+import {
+  useRegisterActions,
+  type CommandAction,
+} from "../components/command-palette"
+import { useShortcut } from "../components/shortcuts"
+import { useTheme } from "../lib/theme"
+import { href, paths, settingsSections, settingsSectionTitle } from "./paths"
+import { appShortcuts } from "./shortcuts"
+
+/**
+ * App-wide palette actions and their keyboard shortcuts: navigation, theme
+ * switching, the sidebar and the shortcut help dialog.
+ */
+export function useAppCommands({
+  showShortcuts,
+  toggleSidebar,
+}: {
+  showShortcuts: () => void
+  toggleSidebar: () => void
+}) {
+  const navigate = useNavigate()
+  const { resolvedTheme, setTheme } = useTheme()
+
+  const toggleTheme = React.useCallback(
+    () => setTheme(resolvedTheme === "dark" ? "light" : "dark"),
+    [resolvedTheme, setTheme]
+  )
+
+  useShortcut(appShortcuts.goHome, () => navigate(paths.home))
+  useShortcut(appShortcuts.goDashboard, () => navigate(paths.dashboard))
+  useShortcut(appShortcuts.goSettings, () => navigate(paths.settings))
+  useShortcut(appShortcuts.goGallery, () => navigate(paths.gallery))
+  useShortcut(appShortcuts.toggleSidebar, toggleSidebar)
+  useShortcut(appShortcuts.toggleTheme, toggleTheme)
+  useShortcut(appShortcuts.showShortcuts, showShortcuts)
+
+  const actions = React.useMemo(
+    (): CommandAction[] => [
+      {
+        id: "nav.home",
+        title: "Home",
+        group: "Navigation",
+        icon: <Home />,
+        shortcut: appShortcuts.goHome.keys,
+        perform: () => navigate(paths.home),
+      },
+      {
+        id: "nav.dashboard",
+        title: "Dashboard",
+        group: "Navigation",
+        keywords: ["overview", "kpi", "balance"],
+        icon: <LayoutDashboard />,
+        shortcut: appShortcuts.goDashboard.keys,
+        perform: () => navigate(paths.dashboard),
+      },
+      {
+        id: "nav.settings",
+        title: "Settings",
+        group: "Navigation",
+        keywords: ["preferences"],
+        icon: <Settings />,
+        children: settingsSections.map((section): CommandAction => ({
+          id: `nav.settings.${section}`,
+          title: settingsSectionTitle(section),
+          perform: () => navigate(href(paths.settingsSection, { section })),
+        })),
+      },
+      {
+        id: "nav.gallery",
+        title: "Component gallery",
+        group: "Navigation",
+        keywords: ["components", "storybook", "design", "variants"],
+        icon: <Palette />,
+        shortcut: appShortcuts.goGallery.keys,
+        perform: () => navigate(paths.gallery),
+      },
+      {
+        id: "sidebar.toggle",
+        title: "Toggle sidebar",
+        group: "Preferences",
+        keywords: ["navigation", "collapse", "menu"],
+        icon: <PanelLeft />,
+        shortcut: appShortcuts.toggleSidebar.keys,
+        perform: toggleSidebar,
+      },
+      {
+        id: "theme.toggle",
+        title: "Toggle dark mode",
+        group: "Preferences",
+        keywords: ["dark", "light", "appearance"],
+        icon: <SunMoon />,
+        shortcut: appShortcuts.toggleTheme.keys,
+        perform: toggleTheme,
+      },
+      {
+        id: "theme",
+        title: "Change theme",
+        group: "Preferences",
+        keywords: ["dark", "light", "appearance", "mode"],
+        icon: <Monitor />,
+        children: [
+          {
+            id: "theme.light",
+            title: "Light",
+            icon: <Sun />,
+            perform: () => setTheme("light"),
+          },
+          {
+            id: "theme.dark",
+            title: "Dark",
+            icon: <Moon />,
+            perform: () => setTheme("dark"),
+          },
+          {
+            id: "theme.system",
+            title: "System",
+            icon: <Monitor />,
+            perform: () => setTheme("system"),
+          },
+        ],
+      },
+      {
+        id: "help.shortcuts",
+        title: "Keyboard shortcuts",
+        group: "Help",
+        keywords: ["hotkeys", "keys"],
+        icon: <Keyboard />,
+        shortcut: appShortcuts.showShortcuts.keys,
+        perform: showShortcuts,
+      },
+    ],
+    [navigate, setTheme, toggleTheme, showShortcuts, toggleSidebar]
+  )
+  useRegisterActions(actions)
+}
@@ -0,0 +1,73 @@
+import { useNavigate } from "react-router-dom"
+
+import { useAppShell } from "../components/app-shell"
+import {
+  Menubar,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarShortcut,
+  MenubarTrigger,
+} from "../components/ui/menubar"
+import { useTheme } from "../lib/theme"
+import { paths } from "./paths"
+import { appShortcuts } from "./shortcuts"
+
+/** Top bar menus mirroring the app shortcuts, so they stay discoverable. */
+export function AppMenubar({ showShortcuts }: { showShortcuts: () => void }) {
+  const navigate = useNavigate()
+  const { toggleSidebar } = useAppShell()
+  const { resolvedTheme, setTheme } = useTheme()
+
+  return (
+    <Menubar className="hidden border-none sm:flex">
+      <MenubarMenu>
+        <MenubarTrigger>View</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={toggleSidebar}>
+            Toggle sidebar
+            <MenubarShortcut keys={appShortcuts.toggleSidebar.keys} />
+          </MenubarItem>
+          <MenubarItem
+            onSelect={() =>
+              setTheme(resolvedTheme === "dark" ? "light" : "dark")
+            }
+          >
+            Toggle dark mode
+            <MenubarShortcut keys={appShortcuts.toggleTheme.keys} />
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+      <MenubarMenu>
+        <MenubarTrigger>Go</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={() => navigate(paths.home)}>
+            Home
+            <MenubarShortcut keys={appShortcuts.goHome.keys} />
+          </MenubarItem>
+          <MenubarItem onSelect={() => navigate(paths.dashboard)}>
+            Dashboard
+            <MenubarShortcut keys={appShortcuts.goDashboard.keys} />
+          </MenubarItem>
+          <MenubarItem onSelect={() => navigate(paths.settings)}>
+            Settings
+            <MenubarShortcut keys={appShortcuts.goSettings.keys} />
+          </MenubarItem>
+          <MenubarItem onSelect={() => navigate(paths.gallery)}>
+            Gallery
+            <MenubarShortcut keys={appShortcuts.goGallery.keys} />
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+      <MenubarMenu>
+        <MenubarTrigger>Help</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={showShortcuts}>
+            Keyboard shortcuts
+            <MenubarShortcut keys={appShortcuts.showShortcuts.keys} />
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+    </Menubar>
+  )
+}
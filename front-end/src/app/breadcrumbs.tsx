@@ -0,0 +1,49 @@
+import * as React from "react"
+import { Link, useMatches, type Params } from "react-router-dom"
+
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "../components/ui/breadcrumb"
+
+/** Route `handle` shape read by `RouteBreadcrumbs`. */
+export interface RouteHandle {
+  crumb?: string | ((params: Params) => string)
+}
+
+/** One crumb per matched route that declares `handle.crumb`. */
+export function RouteBreadcrumbs() {
+  const crumbs = useMatches().flatMap((match) => {
+    const crumb = (match.handle as RouteHandle | undefined)?.crumb
+    if (!crumb) return []
+    const label = typeof crumb === "function" ? crumb(match.params) : crumb
+    return [{ id: match.id, label, to: match.pathname }]
+  })
+
+  if (crumbs.length < 2) return null
+
+  return (
+    <Breadcrumb className="mb-4">
+      <BreadcrumbList>
+        {crumbs.map((crumb, index) => (
+          <React.Fragment key={crumb.id}>
+            {index > 0 && <BreadcrumbSeparator />}
+            <BreadcrumbItem>
+              {index === crumbs.length - 1 ? (
+                <BreadcrumbPage>{crumb.label}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink asChild>
+                  <Link to={crumb.to}>{crumb.label}</Link>
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+          </React.Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
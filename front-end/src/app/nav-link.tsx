@@ -0,0 +1,51 @@
+import * as React from "react"
+import { Link, useMatch, useResolvedPath } from "react-router-dom"
+
+import { cn } from "../components/lib/utils"
+import {
+  NavigationMenuItem,
+  NavigationMenuLink,
+  navigationMenuTriggerStyle,
+} from "../components/ui/navigation-menu"
+
+export function useIsActive(to: string, end = false) {
+  const resolved = useResolvedPath(to)
+  return useMatch({ path: resolved.pathname, end }) !== null
+}
+
+interface NavMenuLinkProps
+  extends Omit<React.ComponentPropsWithoutRef<typeof Link>, "to"> {
+  to: string
+  /** Only active on an exact match; defaults to true for "/". */
+  end?: boolean
+}
+
+/**
+ * A router link rendered as a `NavigationMenuLink`, so the active route
+ * gets `data-active` and `aria-current="page"`.
+ */
+export const NavMenuLink = React.forwardRef<HTMLAnchorElement, NavMenuLinkProps>(
+  ({ to, end = to === "/", className, children, ...props }, ref) => {
+    const active = useIsActive(to, end)
+
+    return (
+      <NavigationMenuItem>
+        <NavigationMenuLink
+          asChild
+          active={active}
+          className={cn(navigationMenuTriggerStyle(), className)}
+        >
+          <Link
+            ref={ref}
+            to={to}
+            aria-current={active ? "page" : undefined}
+            {...props}
+          >
+            {children}
+          </Link>
+        </NavigationMenuLink>
+      </NavigationMenuItem>
+    )
+  }
+)
+NavMenuLink.displayName = "NavMenuLink"
@@ -0,0 +1,62 @@
+import { generatePath, useParams } from "react-router-dom"
+
+/**
+ * Every navigable path in the app. Route definitions, links and param
+ * reads all go through these so a renamed param is a type error.
+ */
+export const paths = {
+  home: "/",
+  dashboard: "/dashboard",
+  settings: "/settings",
+  settingsSection: "/settings/:section",
+  gallery: "/gallery",
+  galleryComponent: "/gallery/:component",
+} as const
+
+export type RoutePath = (typeof paths)[keyof typeof paths]
+
+/** Values of `:section` under `paths.settingsSection`. */
+export const settingsSections = ["profile", "notifications", "billing"] as const
+
+export type SettingsSection = (typeof settingsSections)[number]
+
+export function isSettingsSection(value: string): value is SettingsSection {
+  return (settingsSections as readonly string[]).includes(value)
+}
+
+/** `"notifications"` -> `"Notifications"` */
+export function settingsSectionTitle(section: string) {
+  return section.charAt(0).toUpperCase() + section.slice(1)
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+/** `"/a/:id/b/:tab?"` -> `{ id: string; tab?: string }` */
+export type PathParams<P extends string> = Simplify<
+  P extends `${infer Head}/${infer Tail}`
+    ? PathParams<Head> & PathParams<Tail>
+    : P extends `:${infer Param}?`
+      ? { [K in Param]?: string }
+      : P extends `:${infer Param}`
+        ? { [K in Param]: string }
+        : unknown
+>
+
+type ParamArgs<P extends string> = keyof PathParams<P> extends never
+  ? []
+  : [params: PathParams<P>]
+
+/** Builds a URL for a known path, requiring exactly its params. */
+export function href<P extends RoutePath>(path: P, ...args: ParamArgs<P>) {
+  const [params] = args as [Record<string, string>?]
+  return generatePath(path as string, params)
+}
+
+/**
+ * `useParams` narrowed to the params of `P`, e.g.
+ * `useRouteParams<typeof paths.settingsSection>()`. Only call it from inside
+ * the route that renders `P`.
+ */
+export function useRouteParams<P extends RoutePath>() {
+  return useParams() as PathParams<P>
+}
@@ -0,0 +1,125 @@
+import * as React from "react"
+import { Keyboard, Search, Settings, User } from "lucide-react"
+import { Link, Outlet, useNavigation } from "react-router-dom"
+
+import {
+  AppShell,
+  useAppShell,
+  UserMenu,
+  type AppShellUser,
+} from "../components/app-shell"
+import {
+  CommandPaletteProvider,
+  openCommandPaletteShortcut,
+  useCommandPalette,
+} from "../components/command-palette"
+import { formatCombo } from "../components/lib/keys"
+import { LocaleToggle } from "../components/locale-toggle"
+import { ModeToggle } from "../components/mode-toggle"
+import { Button } from "../components/ui/button"
+import { DropdownMenuItem } from "../components/ui/dropdown-menu"
+import { ShortcutHelpDialog } from "../components/shortcuts"
+import { Progress } from "../components/ui/progress"
+import { AppMenubar } from "./app-menubar"
+import { useAppCommands } from "./app-commands"
+import { RouteBreadcrumbs } from "./breadcrumbs"
+import { href, paths } from "./paths"
+import { SidebarNav } from "./sidebar-nav"
+
+// There's no sign-in yet, so every visitor shares this account.
+const currentUser: AppShellUser = { id: "local", name: "Local User" }
+
+function CommandPaletteButton() {
+  const { setOpen } = useCommandPalette()
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="gap-2 text-muted-foreground"
+      onClick={() => setOpen(true)}
+    >
+      <Search className="h-4 w-4" />
+      <span className="hidden sm:inline">Search…</span>
+      <kbd className="pointer-events-none hidden rounded border bg-muted px-1.5 font-mono text-[10px] sm:inline">
+        {formatCombo(openCommandPaletteShortcut.keys)}
+      </kbd>
+    </Button>
+  )
+}
+
+/** Binds the app commands; rendered inside the shell so it can reach it. */
+function AppCommands({ showShortcuts }: { showShortcuts: () => void }) {
+  const { toggleSidebar } = useAppShell()
+  useAppCommands({ showShortcuts, toggleSidebar })
+  return null
+}
+
+export function RootLayout() {
+  return (
+    <CommandPaletteProvider>
+      <Shell />
+    </CommandPaletteProvider>
+  )
+}
+
+function Shell() {
+  const navigation = useNavigation()
+  const [shortcutsOpen, setShortcutsOpen] = React.useState(false)
+  const showShortcuts = React.useCallback(() => setShortcutsOpen(true), [])
+
+  return (
+    <AppShell
+      user={currentUser}
+      brand={
+        <Link to={paths.home} className="truncate font-semibold">
+          Front End
+        </Link>
+      }
+      sidebar={<SidebarNav />}
+      topbar={<AppMenubar showShortcuts={showShortcuts} />}
+      actions={
+        <>
+          <CommandPaletteButton />
+          <LocaleToggle />
+          <ModeToggle />
+          <UserMenu user={currentUser}>
+            <DropdownMenuItem asChild>
+              <Link to={href(paths.settingsSection, { section: "profile" })}>
+                <User className="mr-2 h-4 w-4" />
+                Profile
+              </Link>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <Link to={paths.settings}>
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
+              </Link>
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={showShortcuts}>
+              <Keyboard className="mr-2 h-4 w-4" />
+              Keyboard shortcuts
+            </DropdownMenuItem>
+          </UserMenu>
+        </>
+      }
+      banner={
+        navigation.state === "loading" && (
+          <Progress
+            value={66}
+            aria-label="Loading page"
+            className="h-0.5 rounded-none"
+          />
+        )
+      }
+      breadcrumbs={<RouteBreadcrumbs />}
+    >
+      <AppCommands showShortcuts={showShortcuts} />
+      <Outlet />
+      <ShortcutHelpDialog
+        open={shortcutsOpen}
+        onOpenChange={setShortcutsOpen}
+      />
+    </AppShell>
+  )
+}
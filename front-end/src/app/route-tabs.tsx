@@ -0,0 +1,43 @@
+import * as React from "react"
+import { useNavigate, useParams } from "react-router-dom"
+
+import { Tabs } from "../components/ui/tabs"
+
+interface RouteTabsProps
+  extends Omit<
+    React.ComponentPropsWithoutRef<typeof Tabs>,
+    "value" | "defaultValue" | "onValueChange"
+  > {
+  /** Route param that holds the active tab, e.g. `"section"`. */
+  param: string
+  /** Tab shown when the param is missing or not one of `tabs`. */
+  fallback: string
+  tabs: readonly string[]
+  /** Builds the URL for a tab. */
+  to: (tab: string) => string
+}
+
+/**
+ * `Tabs` whose active value lives in the URL. Switching tabs navigates, and
+ * back/forward switch tabs.
+ */
+export function RouteTabs({
+  param,
+  fallback,
+  tabs,
+  to,
+  ...props
+}: RouteTabsProps) {
+  const params = useParams()
+  const navigate = useNavigate()
+  const current = params[param]
+  const value = current && tabs.includes(current) ? current : fallback
+
+  return (
+    <Tabs
+      value={value}
+      onValueChange={(tab) => navigate(to(tab))}
+      {...props}
+    />
+  )
+}
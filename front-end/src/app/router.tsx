@@ -0,0 +1,71 @@
+import { createBrowserRouter, type RouteObject } from "react-router-dom"
+
+// Only the name helper, so the stories stay in the gallery chunk.
+import { componentName } from "../features/gallery/names"
+import { NotFound } from "../routes/not-found"
+import { RouteError } from "../routes/route-error"
+import type { RouteHandle } from "./breadcrumbs"
+import { paths, settingsSectionTitle } from "./paths"
+import { RootLayout } from "./root-layout"
+
+// Route modules export `Component` and are split into their own chunks.
+export const routes: RouteObject[] = [
+  {
+    path: paths.home,
+    element: <RootLayout />,
+    errorElement: <RouteError />,
+    handle: { crumb: "Home" } satisfies RouteHandle,
+    children: [
+      {
+        errorElement: <RouteError />,
+        children: [
+          { index: true, lazy: () => import("../routes/home") },
+          {
+            path: paths.dashboard,
+            handle: { crumb: "Dashboard" } satisfies RouteHandle,
+            lazy: () => import("../routes/dashboard"),
+          },
+          {
+            path: paths.settings,
+            handle: { crumb: "Settings" } satisfies RouteHandle,
+            lazy: () => import("../routes/settings"),
+            children: [
+              {
+                index: true,
+                lazy: () => import("../routes/settings-section"),
+              },
+              {
+                path: paths.settingsSection,
+                handle: {
+                  crumb: (params) => settingsSectionTitle(params.section ?? ""),
+                } satisfies RouteHandle,
+                lazy: () => import("../routes/settings-section"),
+              },
+            ],
+          },
+          {
+            path: paths.gallery,
+            handle: { crumb: "Gallery" } satisfies RouteHandle,
+            lazy: () => import("../routes/gallery"),
+            children: [
+              {
+                index: true,
+                lazy: () => import("../routes/gallery-index"),
+              },
+              {
+                path: paths.galleryComponent,
+                handle: {
+                  crumb: (params) => componentName(params.component ?? ""),
+                } satisfies RouteHandle,
+                lazy: () => import("../routes/gallery-component"),
+              },
+            ],
+          },
+          { path: "*", element: <NotFound /> },
+        ],
+      },
+    ],
+  },
+]
+
+export const router = createBrowserRouter(routes)
@@ -0,0 +1,39 @@
+import { defineShortcuts } from "../components/shortcuts"
+
+/** App-wide shortcuts; bound in the layout and shown in menus and the palette. */
+export const appShortcuts = defineShortcuts({
+  showShortcuts: {
+    keys: "shift+?",
+    description: "Show keyboard shortcuts",
+  },
+  toggleSidebar: {
+    keys: "mod+b",
+    description: "Toggle sidebar",
+    group: "Preferences",
+  },
+  toggleTheme: {
+    keys: "mod+shift+l",
+    description: "Toggle dark mode",
+    group: "Preferences",
+  },
+  goHome: {
+    keys: "alt+1",
+    description: "Go to home",
+    group: "Navigation",
+  },
+  goDashboard: {
+    keys: "alt+2",
+    description: "Go to dashboard",
+    group: "Navigation",
+  },
+  goSettings: {
+    keys: "alt+3",
+    description: "Go to settings",
+    group: "Navigation",
+  },
+  goGallery: {
+    keys: "alt+4",
+    description: "Go to component gallery",
+    group: "Navigation",
+  },
+})
@@ -0,0 +1,49 @@
+import {
+  Home,
+  LayoutDashboard,
+  Palette,
+  Settings,
+  type LucideIcon,
+} from "lucide-react"
+
+import { useAppShell } from "../components/app-shell"
+import { cn } from "../components/lib/utils"
+import {
+  NavigationMenu,
+  NavigationMenuList,
+} from "../components/ui/navigation-menu"
+import { NavMenuLink } from "./nav-link"
+import { paths } from "./paths"
+
+const sidebarItems: { to: string; label: string; icon: LucideIcon }[] = [
+  { to: paths.home, label: "Home", icon: Home },
+  { to: paths.dashboard, label: "Dashboard", icon: LayoutDashboard },
+  { to: paths.settings, label: "Settings", icon: Settings },
+  { to: paths.gallery, label: "Gallery", icon: Palette },
+]
+
+/** Primary navigation; shows icons only while the sidebar is collapsed. */
+export function SidebarNav() {
+  const { collapsed } = useAppShell()
+
+  return (
+    <NavigationMenu
+      orientation="vertical"
+      className="max-w-none flex-col items-stretch [&>div]:w-full"
+    >
+      <NavigationMenuList className="flex-col items-stretch space-x-0 space-y-1">
+        {sidebarItems.map(({ to, label, icon: Icon }) => (
+          <NavMenuLink
+            key={to}
+            to={to}
+            title={collapsed ? label : undefined}
+            className="w-full justify-start gap-3 px-2.5"
+          >
+            <Icon className="h-4 w-4 shrink-0" aria-hidden />
+            <span className={cn(collapsed && "sr-only")}>{label}</span>
+          </NavMenuLink>
+        ))}
+      </NavigationMenuList>
+    </NavigationMenu>
+  )
+}
@@ -0,0 +1,202 @@
+import * as React from "react"
+import { Menu, PanelLeftClose, PanelLeftOpen } from "lucide-react"
+
+import { useMediaQuery } from "../lib/use-media-query"
+import { cn } from "../lib/utils"
+import { Button } from "../ui/button"
+import { ScrollArea } from "../ui/scroll-area"
+import { Sheet, SheetContent, SheetTitle } from "../ui/sheet"
+import {
+  loadCollapsed,
+  saveCollapsed,
+  SIDEBAR_STORAGE_KEY,
+  sidebarStorageKey,
+} from "./sidebar-state"
+
+/** Matches Tailwind's `md` breakpoint, where the sidebar docks. */
+const MOBILE_QUERY = "(max-width: 767px)"
+
+interface AppShellContextValue {
+  /** The docked sidebar is showing icons only. */
+  collapsed: boolean
+  setCollapsed: (collapsed: boolean) => void
+  /** Collapses the docked sidebar, or opens the drawer on small screens. */
+  toggleSidebar: () => void
+  isMobile: boolean
+  mobileOpen: boolean
+  setMobileOpen: (open: boolean) => void
+}
+
+const AppShellContext = React.createContext<AppShellContextValue | null>(null)
+
+export interface AppShellUser {
+  id: string
+  name: string
+  email?: string
+  avatarUrl?: string
+}
+
+interface AppShellProps {
+  children: React.ReactNode
+  /** Navigation, shown docked on wide screens and in a drawer on small ones. */
+  sidebar: React.ReactNode
+  /** Logo or product name at the top of the sidebar. */
+  brand?: React.ReactNode
+  /** Start of the top bar, e.g. a `Menubar`. */
+  topbar?: React.ReactNode
+  /** End of the top bar, e.g. search, theme toggle and the user menu. */
+  actions?: React.ReactNode
+  /** Rendered under the top bar, e.g. a route loading indicator. */
+  banner?: React.ReactNode
+  breadcrumbs?: React.ReactNode
+  /** Whose collapsed preference to load and save. */
+  user?: AppShellUser
+  storageKey?: string
+  className?: string
+}
+
+export function AppShell({
+  children,
+  sidebar,
+  brand,
+  topbar,
+  actions,
+  banner,
+  breadcrumbs,
+  user,
+  storageKey = SIDEBAR_STORAGE_KEY,
+  className,
+}: AppShellProps) {
+  const isMobile = useMediaQuery(MOBILE_QUERY)
+  const [mobileOpen, setMobileOpen] = React.useState(false)
+
+  // Keyed by storage key so switching users picks up their own preference.
+  const key = sidebarStorageKey(user?.id, storageKey)
+  const [collapsedByKey, setCollapsedByKey] = React.useState<
+    Record<string, boolean>
+  >({})
+  const collapsed = collapsedByKey[key] ?? loadCollapsed(key)
+
+  const setCollapsed = React.useCallback(
+    (next: boolean) => {
+      setCollapsedByKey((previous) => ({ ...previous, [key]: next }))
+      saveCollapsed(key, next)
+    },
+    [key]
+  )
+
+  const toggleSidebar = React.useCallback(() => {
+    if (isMobile) setMobileOpen((open) => !open)
+    else setCollapsed(!collapsed)
+  }, [isMobile, collapsed, setCollapsed])
+
+  React.useEffect(() => {
+    if (!isMobile) setMobileOpen(false)
+  }, [isMobile])
+
+  const value = React.useMemo(
+    () => ({
+      collapsed: collapsed && !isMobile,
+      setCollapsed,
+      toggleSidebar,
+      isMobile,
+      mobileOpen,
+      setMobileOpen,
+    }),
+    [collapsed, isMobile, mobileOpen, setCollapsed, toggleSidebar]
+  )
+
+  return (
+    <AppShellContext.Provider value={value}>
+      <div className={cn("flex h-screen overflow-hidden", className)}>
+        <aside
+          data-collapsed={value.collapsed}
+          className={cn(
+            "hidden shrink-0 flex-col border-r bg-background transition-[width] duration-200 md:flex",
+            value.collapsed ? "w-14" : "w-60"
+          )}
+        >
+          <div className="flex h-14 items-center overflow-hidden border-b px-3">
+            {brand}
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-2">{sidebar}</div>
+          </ScrollArea>
+          <div className="border-t p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start gap-2 px-2.5"
+              aria-expanded={!value.collapsed}
+              onClick={() => setCollapsed(!collapsed)}
+            >
+              {value.collapsed ? (
+                <PanelLeftOpen className="h-4 w-4 shrink-0" aria-hidden />
+              ) : (
+                <PanelLeftClose className="h-4 w-4 shrink-0" aria-hidden />
+              )}
+              <span className={cn(value.collapsed && "sr-only")}>
+                {value.collapsed ? "Expand sidebar" : "Collapse sidebar"}
+              </span>
+            </Button>
+          </div>
+        </aside>
+
+        <Sheet open={mobileOpen} onOpenChange={setMobileOpen}>
+          <SheetContent
+            position="left"
+            size="content"
+            className="flex w-72 flex-col p-0"
+            onClick={(event) => {
+              // Following a link should reveal the page behind the drawer.
+              if ((event.target as HTMLElement).closest("a[href]")) {
+                setMobileOpen(false)
+              }
+            }}
+          >
+            <SheetTitle className="flex h-14 items-center border-b px-3 text-base">
+              {brand ?? <span className="sr-only">Navigation</span>}
+            </SheetTitle>
+            <ScrollArea className="flex-1">
+              <div className="p-2">{sidebar}</div>
+            </ScrollArea>
+          </SheetContent>
+        </Sheet>
+
+        <div className="flex min-w-0 flex-1 flex-col">
+          <header className="border-b">
+            <div className="flex h-14 items-center gap-2 px-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-9 px-0 md:hidden"
+                aria-expanded={mobileOpen}
+                onClick={() => setMobileOpen(true)}
+              >
+                <Menu className="h-5 w-5" aria-hidden />
+                <span className="sr-only">Open navigation</span>
+              </Button>
+              {topbar}
+              <div className="ml-auto flex items-center gap-2">{actions}</div>
+            </div>
+            {banner}
+          </header>
+          <ScrollArea className="flex-1">
+            <main className="container py-6">
+              {breadcrumbs}
+              {children}
+            </main>
+          </ScrollArea>
+        </div>
+      </div>
+    </AppShellContext.Provider>
+  )
+}
+
+export function useAppShell() {
+  const context = React.useContext(AppShellContext)
+  if (!context) {
+    throw new Error("useAppShell must be used within an AppShell")
+  }
+  return context
+}
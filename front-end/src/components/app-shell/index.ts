@@ -0,0 +1,3 @@
+export { AppShell, useAppShell, type AppShellUser } from "./app-shell"
+export { SIDEBAR_STORAGE_KEY } from "./sidebar-state"
+export { UserMenu } from "./user-menu"
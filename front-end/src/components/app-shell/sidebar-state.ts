@@ -0,0 +1,22 @@
+export const SIDEBAR_STORAGE_KEY = "app-shell-sidebar-collapsed"
+
+/** One entry per user, so a shared browser keeps everyone's preference. */
+export function sidebarStorageKey(userId: string | undefined, prefix: string) {
+  return `${prefix}:${userId ?? "anonymous"}`
+}
+
+export function loadCollapsed(key: string) {
+  try {
+    return window.localStorage.getItem(key) === "true"
+  } catch {
+    return false
+  }
+}
+
+export function saveCollapsed(key: string, collapsed: boolean) {
+  try {
+    window.localStorage.setItem(key, String(collapsed))
+  } catch {
+    // Storage can be full or disabled; the sidebar just resets on reload.
+  }
+}
@@ -0,0 +1,58 @@
+import * as React from "react"
+
+import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar"
+import { Button } from "../ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu"
+import type { AppShellUser } from "./app-shell"
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("")
+}
+
+interface UserMenuProps {
+  user: AppShellUser
+  /** `DropdownMenuItem`s listed under the user's name. */
+  children: React.ReactNode
+}
+
+/** Avatar button in the top bar that opens the account menu. */
+export function UserMenu({ user, children }: UserMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-9 w-9 rounded-full p-0">
+          <Avatar className="h-8 w-8">
+            {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt="" />}
+            <AvatarFallback className="text-xs">
+              {initials(user.name)}
+            </AvatarFallback>
+          </Avatar>
+          <span className="sr-only">Account menu for {user.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium">{user.name}</p>
+          {user.email && (
+            <p className="truncate text-xs text-muted-foreground">
+              {user.email}
+            </p>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {children}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
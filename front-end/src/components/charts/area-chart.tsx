@@ -0,0 +1,116 @@
+import * as React from "react"
+import {
+  Area,
+  AreaChart as RechartsAreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+
+import {
+  ChartContainer,
+  ChartLegendContent,
+  ChartTooltipContent,
+  chartAxisProps,
+  chartGridProps,
+  resolveSeries,
+  useSeriesVisibility,
+  useValueFormatter,
+  type CartesianChartProps,
+} from "./chart-utils"
+
+export interface AreaChartProps<T> extends CartesianChartProps<T> {
+  curve?: "monotone" | "linear" | "step"
+  stacked?: boolean
+}
+
+export function AreaChart<T>({
+  data,
+  xKey,
+  series,
+  height,
+  valueFormatter: valueFormatterProp,
+  xFormatter,
+  showGrid = true,
+  showLegend = series.length > 1,
+  showYAxis = true,
+  curve = "monotone",
+  stacked = false,
+  className,
+}: AreaChartProps<T>) {
+  const { hidden, toggle } = useSeriesVisibility()
+  const valueFormatter = useValueFormatter(valueFormatterProp)
+  const gradientPrefix = React.useId().replace(/:/g, "")
+
+  const resolved = resolveSeries(series)
+
+  return (
+    <ChartContainer height={height} className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsAreaChart
+          data={data}
+          margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+        >
+          <defs>
+            {resolved.map((s) => (
+              <linearGradient
+                key={s.key}
+                id={`${gradientPrefix}-${s.key}`}
+                x1="0"
+                y1="0"
+                x2="0"
+                y2="1"
+              >
+                <stop offset="5%" stopColor={s.color} stopOpacity={0.4} />
+                <stop offset="95%" stopColor={s.color} stopOpacity={0.05} />
+              </linearGradient>
+            ))}
+          </defs>
+          {showGrid && <CartesianGrid {...chartGridProps} />}
+          <XAxis
+            dataKey={xKey}
+            tickFormatter={xFormatter}
+            {...chartAxisProps}
+          />
+          {showYAxis && (
+            <YAxis
+              tickFormatter={valueFormatter}
+              width={56}
+              {...chartAxisProps}
+            />
+          )}
+          <Tooltip
+            cursor={{ stroke: "hsl(var(--border))" }}
+            content={
+              <ChartTooltipContent
+                valueFormatter={valueFormatter}
+                labelFormatter={xFormatter}
+              />
+            }
+          />
+          {showLegend && (
+            <Legend
+              content={<ChartLegendContent hidden={hidden} onToggle={toggle} />}
+            />
+          )}
+          {resolved.map((s) => (
+            <Area
+              key={s.key}
+              dataKey={s.key}
+              name={s.label}
+              type={curve}
+              stroke={s.color}
+              strokeWidth={2}
+              fill={`url(#${gradientPrefix}-${s.key})`}
+              stackId={stacked ? "stack" : undefined}
+              hide={hidden.has(s.key)}
+            />
+          ))}
+        </RechartsAreaChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
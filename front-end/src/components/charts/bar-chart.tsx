@@ -0,0 +1,131 @@
+import {
+  Bar,
+  BarChart as RechartsBarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+
+import {
+  ChartContainer,
+  ChartLegendContent,
+  ChartTooltipContent,
+  chartAxisProps,
+  chartGridProps,
+  resolveSeries,
+  useSeriesVisibility,
+  useValueFormatter,
+  type CartesianChartProps,
+} from "./chart-utils"
+
+export interface BarChartProps<T> extends CartesianChartProps<T> {
+  stacked?: boolean
+  /** Horizontal bars with categories on the y axis. */
+  horizontal?: boolean
+}
+
+export function BarChart<T>({
+  data,
+  xKey,
+  series,
+  height,
+  valueFormatter: valueFormatterProp,
+  xFormatter,
+  showGrid = true,
+  showLegend = series.length > 1,
+  showYAxis = true,
+  stacked = false,
+  horizontal = false,
+  className,
+}: BarChartProps<T>) {
+  const { hidden, toggle } = useSeriesVisibility()
+  const valueFormatter = useValueFormatter(valueFormatterProp)
+  const resolved = resolveSeries(series)
+
+  return (
+    <ChartContainer height={height} className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsBarChart
+          data={data}
+          layout={horizontal ? "vertical" : "horizontal"}
+          margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+        >
+          {showGrid && (
+            <CartesianGrid
+              {...chartGridProps}
+              vertical={horizontal}
+              horizontal={!horizontal}
+            />
+          )}
+          {horizontal ? (
+            <>
+              <XAxis
+                type="number"
+                tickFormatter={valueFormatter}
+                {...chartAxisProps}
+              />
+              {showYAxis && (
+                <YAxis
+                  type="category"
+                  dataKey={xKey}
+                  tickFormatter={xFormatter}
+                  width={96}
+                  {...chartAxisProps}
+                />
+              )}
+            </>
+          ) : (
+            <>
+              <XAxis
+                dataKey={xKey}
+                tickFormatter={xFormatter}
+                {...chartAxisProps}
+              />
+              {showYAxis && (
+                <YAxis
+                  tickFormatter={valueFormatter}
+                  width={56}
+                  {...chartAxisProps}
+                />
+              )}
+            </>
+          )}
+          <Tooltip
+            cursor={{ fill: "hsl(var(--muted))" }}
+            content={
+              <ChartTooltipContent
+                valueFormatter={valueFormatter}
+                labelFormatter={xFormatter}
+              />
+            }
+          />
+          {showLegend && (
+            <Legend
+              content={<ChartLegendContent hidden={hidden} onToggle={toggle} />}
+            />
+          )}
+          {resolved.map((s, index) => (
+            <Bar
+              key={s.key}
+              dataKey={s.key}
+              name={s.label}
+              fill={s.color}
+              stackId={stacked ? "stack" : undefined}
+              radius={
+                stacked && index < resolved.length - 1
+                  ? 0
+                  : horizontal
+                    ? [0, 4, 4, 0]
+                    : [4, 4, 0, 0]
+              }
+              hide={hidden.has(s.key)}
+            />
+          ))}
+        </RechartsBarChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,43 @@
+import * as React from "react"
+
+import { cn } from "../lib/utils"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card"
+
+interface ChartCardProps extends Omit<
+  React.HTMLAttributes<HTMLDivElement>,
+  "title"
+> {
+  title: React.ReactNode
+  description?: React.ReactNode
+  /** Rendered on the right of the header, e.g. a range picker. */
+  action?: React.ReactNode
+}
+
+/** A dashboard tile: `Card` with a header and a chart in `CardContent`. */
+export function ChartCard({
+  title,
+  description,
+  action,
+  className,
+  children,
+  ...props
+}: ChartCardProps) {
+  return (
+    <Card className={cn("flex flex-col", className)} {...props}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">{title}</CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        {action}
+      </CardHeader>
+      <CardContent className="flex-1">{children}</CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,192 @@
+import * as React from "react"
+import type { LegendProps, TooltipProps } from "recharts"
+
+import { useI18n } from "../../lib/i18n"
+import { cn } from "../lib/utils"
+
+export const CHART_COLOR_COUNT = 5
+
+/**
+ * Theme color for the series at `index`. The value references the CSS
+ * variable, so charts follow light/dark switches without re-rendering.
+ */
+export function chartColor(index: number) {
+  return `hsl(var(--chart-${(index % CHART_COLOR_COUNT) + 1}))`
+}
+
+export const chartAxisProps = {
+  stroke: "hsl(var(--muted-foreground))",
+  fontSize: 12,
+  tickLine: false,
+  axisLine: false,
+} as const
+
+export const chartGridProps = {
+  stroke: "hsl(var(--border))",
+  strokeDasharray: "3 3",
+  vertical: false,
+} as const
+
+export interface ChartSeries<T> {
+  key: Extract<keyof T, string>
+  label?: string
+  /** Any CSS color; defaults to the theme's chart palette. */
+  color?: string
+}
+
+export type ValueFormatter = (value: number) => string
+
+/** `formatter`, or the active locale's number format when it's omitted. */
+export function useValueFormatter(formatter?: ValueFormatter): ValueFormatter {
+  const { formatNumber } = useI18n()
+  return (
+    formatter ?? ((value) => formatNumber(value, { maximumFractionDigits: 2 }))
+  )
+}
+
+export function resolveSeries<T>(series: ChartSeries<T>[]) {
+  return series.map((s, index) => ({
+    ...s,
+    label: s.label ?? s.key,
+    color: s.color ?? chartColor(index),
+  }))
+}
+
+/** Tracks which series the legend has hidden. */
+export function useSeriesVisibility() {
+  const [hidden, setHidden] = React.useState<ReadonlySet<string>>(new Set())
+
+  const toggle = React.useCallback((key: string) => {
+    setHidden((previous) => {
+      const next = new Set(previous)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }, [])
+
+  return { hidden, toggle, isHidden: (key: string) => hidden.has(key) }
+}
+
+type ChartTooltipContentProps = TooltipProps<number, string> & {
+  valueFormatter?: ValueFormatter
+  labelFormatter?: (label: unknown) => React.ReactNode
+}
+
+/** Tooltip body styled like `PopoverContent` / `HoverCardContent`. */
+export function ChartTooltipContent({
+  active,
+  payload,
+  label,
+  valueFormatter: valueFormatterProp,
+  labelFormatter,
+}: ChartTooltipContentProps) {
+  const valueFormatter = useValueFormatter(valueFormatterProp)
+  if (!active || !payload?.length) return null
+
+  return (
+    <div className="min-w-[8rem] rounded-md border bg-popover p-3 text-sm text-popover-foreground shadow-md">
+      {label !== undefined && label !== "" && (
+        <div className="mb-2 font-medium">
+          {labelFormatter ? labelFormatter(label) : String(label)}
+        </div>
+      )}
+      <div className="grid gap-1.5">
+        {payload.map((item) => (
+          <div
+            key={String(item.dataKey ?? item.name)}
+            className="flex items-center gap-2"
+          >
+            <span
+              className="h-2.5 w-2.5 shrink-0 rounded-sm"
+              style={{
+                background:
+                  item.color ??
+                  (item.payload as { fill?: string } | undefined)?.fill,
+              }}
+            />
+            <span className="text-muted-foreground">{item.name}</span>
+            <span className="ml-auto font-mono font-medium tabular-nums">
+              {typeof item.value === "number"
+                ? valueFormatter(item.value)
+                : item.value}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+type ChartLegendContentProps = Pick<LegendProps, "payload"> & {
+  hidden: ReadonlySet<string>
+  onToggle: (key: string) => void
+}
+
+/** Legend whose items toggle their series on and off. */
+export function ChartLegendContent({
+  payload,
+  hidden,
+  onToggle,
+}: ChartLegendContentProps) {
+  if (!payload?.length) return null
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 pt-3">
+      {payload.map((item) => {
+        const key = String(item.dataKey ?? item.value)
+        const isHidden = hidden.has(key)
+        return (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={!isHidden}
+            onClick={() => onToggle(key)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-sm text-sm text-muted-foreground transition-opacity focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              isHidden && "opacity-50 line-through"
+            )}
+          >
+            <span
+              className="h-2.5 w-2.5 rounded-sm"
+              style={{ background: item.color }}
+            />
+            {item.value}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export interface ChartContainerProps extends React.HTMLAttributes<HTMLDivElement> {
+  height?: number
+}
+
+/** Sizes the chart; recharts' `ResponsiveContainer` fills it. */
+export const ChartContainer = React.forwardRef<
+  HTMLDivElement,
+  ChartContainerProps
+>(({ height = 300, className, style, ...props }, ref) => (
+  <div
+    ref={ref}
+    className={cn("w-full text-xs", className)}
+    style={{ height, ...style }}
+    {...props}
+  />
+))
+ChartContainer.displayName = "ChartContainer"
+
+export interface CartesianChartProps<T> {
+  data: T[]
+  /** Field used for the x axis. */
+  xKey: Extract<keyof T, string>
+  series: ChartSeries<T>[]
+  height?: number
+  valueFormatter?: ValueFormatter
+  xFormatter?: (value: unknown) => string
+  showGrid?: boolean
+  showLegend?: boolean
+  showYAxis?: boolean
+  className?: string
+}
@@ -0,0 +1,17 @@
+export { AreaChart, type AreaChartProps } from "./area-chart"
+export { BarChart, type BarChartProps } from "./bar-chart"
+export { ChartCard } from "./chart-card"
+export {
+  ChartContainer,
+  ChartLegendContent,
+  ChartTooltipContent,
+  chartColor,
+  useSeriesVisibility,
+  useValueFormatter,
+  type CartesianChartProps,
+  type ChartSeries,
+  type ValueFormatter,
+} from "./chart-utils"
+export { LineChart, type LineChartProps } from "./line-chart"
+export { PieChart, type PieChartProps } from "./pie-chart"
+export { Sparkline, type SparklineProps } from "./sparkline"
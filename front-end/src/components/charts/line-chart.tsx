@@ -0,0 +1,96 @@
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart as RechartsLineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+
+import {
+  ChartContainer,
+  ChartLegendContent,
+  ChartTooltipContent,
+  chartAxisProps,
+  chartGridProps,
+  resolveSeries,
+  useSeriesVisibility,
+  useValueFormatter,
+  type CartesianChartProps,
+} from "./chart-utils"
+
+export interface LineChartProps<T> extends CartesianChartProps<T> {
+  curve?: "monotone" | "linear" | "step"
+  showDots?: boolean
+}
+
+export function LineChart<T>({
+  data,
+  xKey,
+  series,
+  height,
+  valueFormatter: valueFormatterProp,
+  xFormatter,
+  showGrid = true,
+  showLegend = series.length > 1,
+  showYAxis = true,
+  curve = "monotone",
+  showDots = false,
+  className,
+}: LineChartProps<T>) {
+  const { hidden, toggle } = useSeriesVisibility()
+  const valueFormatter = useValueFormatter(valueFormatterProp)
+
+  return (
+    <ChartContainer height={height} className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsLineChart
+          data={data}
+          margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+        >
+          {showGrid && <CartesianGrid {...chartGridProps} />}
+          <XAxis
+            dataKey={xKey}
+            tickFormatter={xFormatter}
+            {...chartAxisProps}
+          />
+          {showYAxis && (
+            <YAxis
+              tickFormatter={valueFormatter}
+              width={56}
+              {...chartAxisProps}
+            />
+          )}
+          <Tooltip
+            cursor={{ stroke: "hsl(var(--border))" }}
+            content={
+              <ChartTooltipContent
+                valueFormatter={valueFormatter}
+                labelFormatter={xFormatter}
+              />
+            }
+          />
+          {showLegend && (
+            <Legend
+              content={<ChartLegendContent hidden={hidden} onToggle={toggle} />}
+            />
+          )}
+          {resolveSeries(series).map((s) => (
+            <Line
+              key={s.key}
+              dataKey={s.key}
+              name={s.label}
+              type={curve}
+              stroke={s.color}
+              strokeWidth={2}
+              dot={showDots}
+              hide={hidden.has(s.key)}
+            />
+          ))}
+        </RechartsLineChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
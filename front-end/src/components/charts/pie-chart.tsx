@@ -0,0 +1,92 @@
+import {
+  Cell,
+  Legend,
+  Pie,
+  PieChart as RechartsPieChart,
+  ResponsiveContainer,
+  Tooltip,
+} from "recharts"
+
+import {
+  ChartContainer,
+  ChartLegendContent,
+  ChartTooltipContent,
+  chartColor,
+  useSeriesVisibility,
+  useValueFormatter,
+  type ValueFormatter,
+} from "./chart-utils"
+
+export interface PieChartProps<T> {
+  data: T[]
+  /** Field holding the slice label. */
+  nameKey: Extract<keyof T, string>
+  /** Field holding the slice value. */
+  valueKey: Extract<keyof T, string>
+  /** Per-slice colors; defaults to the theme's chart palette. */
+  colors?: string[]
+  /** Render as a donut. */
+  donut?: boolean
+  height?: number
+  valueFormatter?: ValueFormatter
+  showLegend?: boolean
+  className?: string
+}
+
+export function PieChart<T>({
+  data,
+  nameKey,
+  valueKey,
+  colors,
+  donut = false,
+  height,
+  valueFormatter: valueFormatterProp,
+  showLegend = true,
+  className,
+}: PieChartProps<T>) {
+  const { hidden, toggle } = useSeriesVisibility()
+  const valueFormatter = useValueFormatter(valueFormatterProp)
+
+  const slices = data.map((row, index) => ({
+    name: String(row[nameKey]),
+    value: Number(row[valueKey]),
+    color: colors?.[index] ?? chartColor(index),
+  }))
+  const visible = slices.filter((slice) => !hidden.has(slice.name))
+
+  return (
+    <ChartContainer height={height} className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsPieChart>
+          <Tooltip
+            content={<ChartTooltipContent valueFormatter={valueFormatter} />}
+          />
+          {showLegend && (
+            <Legend
+              payload={slices.map((slice) => ({
+                value: slice.name,
+                dataKey: slice.name,
+                color: slice.color,
+                type: "square",
+              }))}
+              content={<ChartLegendContent hidden={hidden} onToggle={toggle} />}
+            />
+          )}
+          <Pie
+            data={visible}
+            dataKey="value"
+            nameKey="name"
+            innerRadius={donut ? "60%" : 0}
+            outerRadius="80%"
+            paddingAngle={donut ? 2 : 0}
+            stroke="hsl(var(--background))"
+          >
+            {visible.map((slice) => (
+              <Cell key={slice.name} fill={slice.color} />
+            ))}
+          </Pie>
+        </RechartsPieChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,53 @@
+import { Area, AreaChart, ResponsiveContainer, YAxis } from "recharts"
+
+import { ChartContainer, chartColor } from "./chart-utils"
+
+export interface SparklineProps {
+  data: number[]
+  color?: string
+  height?: number
+  /** Fill the area under the line. */
+  filled?: boolean
+  className?: string
+  "aria-label"?: string
+}
+
+/** A compact trend line with no axes, for KPI tiles and table cells. */
+export function Sparkline({
+  data,
+  color = chartColor(0),
+  height = 40,
+  filled = true,
+  className,
+  "aria-label": ariaLabel = "Trend",
+}: SparklineProps) {
+  const points = data.map((value, index) => ({ index, value }))
+
+  return (
+    <ChartContainer
+      height={height}
+      className={className}
+      role="img"
+      aria-label={ariaLabel}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart
+          data={points}
+          margin={{ top: 2, right: 0, left: 0, bottom: 2 }}
+        >
+          <YAxis hide domain={["dataMin", "dataMax"]} />
+          <Area
+            dataKey="value"
+            type="monotone"
+            stroke={color}
+            strokeWidth={1.5}
+            fill={color}
+            fillOpacity={filled ? 0.15 : 0}
+            isAnimationActive={false}
+            dot={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
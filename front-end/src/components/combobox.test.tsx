@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup, waitFor } from "../test/render"
+import { Combobox } from "./combobox"
+
+const fruits = ["Apple", "Banana", "Cherry"]
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+describe("Combobox", () => {
+  it("waits for typing to pause before loading options", async () => {
+    const loadOptions = vi.fn(async (query: string) =>
+      fruits.filter((fruit) => fruit.toLowerCase().includes(query))
+    )
+    const { user } = setup(
+      <Combobox loadOptions={loadOptions} debounce={200} />
+    )
+
+    await user.click(screen.getByRole("combobox"))
+    await waitFor(() => expect(loadOptions).toHaveBeenCalledTimes(1))
+
+    await user.type(screen.getByPlaceholderText("Search…"), "an")
+    expect(loadOptions).toHaveBeenCalledTimes(1)
+    expect(screen.getByRole("status")).toHaveTextContent("Loading…")
+
+    await waitFor(() => expect(loadOptions).toHaveBeenCalledTimes(2))
+    expect(loadOptions.mock.calls.map(([query]) => query)).toEqual(["", "an"])
+    await waitFor(() =>
+      expect(screen.queryByRole("option", { name: "Apple" })).toBeNull()
+    )
+    expect(screen.getByRole("option", { name: "Banana" })).toBeVisible()
+  })
+
+  it("aborts a stale request and ignores its result", async () => {
+    const requests = new Map<
+      string,
+      { signal: AbortSignal } & ReturnType<typeof deferred<string[]>>
+    >()
+    const loadOptions = (query: string, signal: AbortSignal) => {
+      const request = { signal, ...deferred<string[]>() }
+      requests.set(query, request)
+      return request.promise
+    }
+    const { user } = setup(<Combobox loadOptions={loadOptions} debounce={0} />)
+
+    await user.click(screen.getByRole("combobox"))
+    const input = screen.getByPlaceholderText("Search…")
+    await user.type(input, "a")
+    await waitFor(() => expect(requests.has("a")).toBe(true))
+    await user.type(input, "p")
+    await waitFor(() => expect(requests.has("ap")).toBe(true))
+
+    expect(requests.get("a")!.signal.aborted).toBe(true)
+    requests.get("a")!.resolve(["Banana"])
+    requests.get("ap")!.resolve(["Apple"])
+
+    expect(await screen.findByRole("option", { name: "Apple" })).toBeVisible()
+    expect(screen.queryByRole("option", { name: "Banana" })).toBeNull()
+  })
+
+  it("shows why creating an option failed and clears it on the next edit", async () => {
+    const onChange = vi.fn()
+    const onCreate = vi
+      .fn<(query: string) => Promise<string>>()
+      .mockRejectedValueOnce(new Error("Durian is out of season."))
+      .mockRejectedValueOnce("nope")
+    const { user } = setup(
+      <Combobox options={fruits} onCreate={onCreate} onChange={onChange} />
+    )
+
+    await user.click(screen.getByRole("combobox"))
+    const input = screen.getByPlaceholderText("Search…")
+    await user.type(input, "Durian")
+    await user.click(screen.getByRole("option", { name: 'Create "Durian"' }))
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Durian is out of season."
+    )
+    expect(onChange).not.toHaveBeenCalled()
+
+    await user.type(input, "s")
+    expect(screen.queryByRole("alert")).toBeNull()
+
+    await user.click(screen.getByRole("option", { name: 'Create "Durians"' }))
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      'Couldn\'t create "Durians".'
+    )
+  })
+
+  it("removes the last chip with Backspace on a multi-select trigger", async () => {
+    const onChange = vi.fn()
+    const { user } = setup(
+      <Combobox
+        multiple
+        options={fruits}
+        defaultValue={["Apple", "Banana"]}
+        onChange={onChange}
+      />
+    )
+
+    await user.tab()
+    expect(screen.getByRole("combobox")).toHaveFocus()
+    await user.keyboard("{Backspace}")
+
+    expect(onChange).toHaveBeenLastCalledWith(["Apple"])
+    expect(screen.queryByRole("button", { name: "Remove Banana" })).toBeNull()
+
+    await user.keyboard("{Backspace}")
+    expect(onChange).toHaveBeenLastCalledWith([])
+    expect(screen.getByText("Select…")).toBeInTheDocument()
+    expect(screen.getByRole("combobox")).toHaveAttribute(
+      "aria-expanded",
+      "false"
+    )
+  })
+})
@@ -0,0 +1,572 @@
+import * as React from "react"
+import { Check, ChevronsUpDown, Loader2, Plus, X } from "lucide-react"
+
+import { useVirtualizer } from "./lib/use-virtualizer"
+import { cn } from "./lib/utils"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover"
+
+type ComboboxRow<T> =
+  | { type: "heading"; key: string; label: string }
+  | { type: "option"; key: string; option: T }
+
+type ComboboxValueProps<T> =
+  | {
+      multiple?: false
+      value?: T | null
+      defaultValue?: T | null
+      onChange?: (value: T | null) => void
+    }
+  | {
+      multiple: true
+      value?: T[]
+      defaultValue?: T[]
+      onChange?: (value: T[]) => void
+    }
+
+export type ComboboxProps<T> = ComboboxValueProps<T> & {
+  /** Static options, filtered by label as the user types. */
+  options?: T[]
+  /**
+   * Fetches options for a query instead of `options`. Calls are debounced
+   * and the previous request's `signal` is aborted when the query changes.
+   */
+  loadOptions?: (query: string, signal: AbortSignal) => Promise<T[]>
+  /** Milliseconds to wait after the last keystroke before `loadOptions`. */
+  debounce?: number
+  /** A unique key per option; defaults to `String(option)`. */
+  getOptionValue?: (option: T) => string
+  getOptionLabel?: (option: T) => string
+  /** Options sharing a group are listed under that heading. */
+  getOptionGroup?: (option: T) => string | undefined
+  isOptionDisabled?: (option: T) => boolean
+  filterOption?: (option: T, query: string) => boolean
+  renderOption?: (option: T, state: { selected: boolean }) => React.ReactNode
+  /** Offers the typed text as a new option when nothing matches it exactly. */
+  onCreate?: (query: string) => T | Promise<T>
+  formatCreateLabel?: (query: string) => string
+  /** Lists longer than this are windowed. */
+  virtualizeThreshold?: number
+  /** Row height in pixels, used when the list is windowed. */
+  itemHeight?: number
+  placeholder?: string
+  searchPlaceholder?: string
+  emptyMessage?: string
+  disabled?: boolean
+  align?: "start" | "center" | "end"
+  className?: string
+  id?: string
+  "aria-invalid"?: boolean
+}
+
+const defaultFilter = (label: string, query: string) =>
+  label.toLowerCase().includes(query.trim().toLowerCase())
+
+/**
+ * Searchable select built from a `Popover` and a `Command` list. Handles
+ * static or async options, single or multiple selection, creating options
+ * from the typed text, and windowing for very long lists.
+ */
+export function Combobox<T>(props: ComboboxProps<T>) {
+  const {
+    options = [],
+    loadOptions,
+    debounce = 250,
+    getOptionValue = String,
+    getOptionLabel = getOptionValue,
+    getOptionGroup,
+    isOptionDisabled,
+    filterOption,
+    renderOption,
+    onCreate,
+    formatCreateLabel = (query) => `Create "${query}"`,
+    virtualizeThreshold = 200,
+    itemHeight = 32,
+    placeholder = "Select…",
+    searchPlaceholder = "Search…",
+    emptyMessage = "No results found.",
+    disabled,
+    align = "start",
+    className,
+    id,
+    "aria-invalid": ariaInvalid,
+  } = props
+
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState("")
+  const [creating, setCreating] = React.useState(false)
+  const [createError, setCreateError] = React.useState<string | null>(null)
+
+  const [internal, setInternal] = React.useState<T[]>(() =>
+    props.multiple
+      ? (props.defaultValue ?? [])
+      : props.defaultValue != null
+        ? [props.defaultValue]
+        : []
+  )
+  const selected: T[] =
+    props.value === undefined
+      ? internal
+      : props.multiple
+        ? props.value
+        : props.value === null
+          ? []
+          : [props.value]
+  const selectedKeys = new Set(selected.map(getOptionValue))
+
+  const setSelected = (next: T[]) => {
+    setInternal(next)
+    if (props.multiple) props.onChange?.(next)
+    else props.onChange?.(next[0] ?? null)
+  }
+
+  const { loaded, loading, loadError } = useAsyncOptions(
+    loadOptions,
+    query,
+    open,
+    debounce
+  )
+
+  const visible = React.useMemo(() => {
+    if (loadOptions) return loaded
+    if (!query.trim()) return options
+    return options.filter((option) =>
+      filterOption
+        ? filterOption(option, query)
+        : defaultFilter(getOptionLabel(option), query)
+    )
+  }, [loadOptions, loaded, options, query, filterOption, getOptionLabel])
+
+  const rows = React.useMemo(
+    () => toRows(visible, getOptionValue, getOptionGroup),
+    [visible, getOptionValue, getOptionGroup]
+  )
+
+  const trimmed = query.trim()
+  const canCreate =
+    Boolean(onCreate) &&
+    trimmed !== "" &&
+    !loading &&
+    ![...visible, ...selected].some(
+      (option) => getOptionLabel(option).toLowerCase() === trimmed.toLowerCase()
+    )
+
+  const toggle = (option: T) => {
+    const key = getOptionValue(option)
+    if (!props.multiple) {
+      setSelected(selectedKeys.has(key) ? [] : [option])
+      setOpen(false)
+      return
+    }
+    setSelected(
+      selectedKeys.has(key)
+        ? selected.filter((item) => getOptionValue(item) !== key)
+        : [...selected, option]
+    )
+  }
+
+  const create = async () => {
+    if (!onCreate || creating) return
+    setCreating(true)
+    setCreateError(null)
+    try {
+      const option = await onCreate(trimmed)
+      setQuery("")
+      toggle(option)
+    } catch (error) {
+      setCreateError(
+        error instanceof Error && error.message
+          ? error.message
+          : `Couldn't create "${trimmed}".`
+      )
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const remove = (option: T) => {
+    const key = getOptionValue(option)
+    setSelected(selected.filter((item) => getOptionValue(item) !== key))
+  }
+
+  const renderItem = (option: T, style?: React.CSSProperties) => {
+    const key = getOptionValue(option)
+    const isSelected = selectedKeys.has(key)
+    return (
+      <CommandItem
+        key={key}
+        value={key}
+        disabled={isOptionDisabled?.(option)}
+        onSelect={() => toggle(option)}
+        style={style}
+        data-checked={isSelected || undefined}
+      >
+        <Check
+          className={cn(
+            "mr-2 h-4 w-4 shrink-0",
+            isSelected ? "opacity-100" : "opacity-0"
+          )}
+          aria-hidden
+        />
+        {renderOption ? (
+          renderOption(option, { selected: isSelected })
+        ) : (
+          <span className="truncate">{getOptionLabel(option)}</span>
+        )}
+      </CommandItem>
+    )
+  }
+
+  const createItem = canCreate && (
+    <CommandItem
+      value={`__create__:${trimmed}`}
+      onSelect={() => void create()}
+      disabled={creating}
+    >
+      {creating ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden />
+      ) : (
+        <Plus className="mr-2 h-4 w-4" aria-hidden />
+      )}
+      {formatCreateLabel(trimmed)}
+    </CommandItem>
+  )
+
+  const status = (
+    <ComboboxStatus
+      loading={loading}
+      error={createError ?? loadError}
+      empty={rows.length === 0 && !createItem}
+      emptyMessage={emptyMessage}
+    />
+  )
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (!next) {
+          setQuery("")
+          setCreateError(null)
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        {props.multiple ? (
+          <div
+            id={id}
+            role="combobox"
+            tabIndex={disabled ? -1 : 0}
+            aria-expanded={open}
+            aria-haspopup="listbox"
+            aria-disabled={disabled || undefined}
+            aria-invalid={ariaInvalid}
+            onKeyDown={(event) => {
+              if (disabled || event.target !== event.currentTarget) return
+              if (["Enter", " ", "ArrowDown"].includes(event.key)) {
+                event.preventDefault()
+                setOpen(true)
+              }
+              if (event.key === "Backspace" && selected.length > 0) {
+                remove(selected[selected.length - 1])
+              }
+            }}
+            onClick={(event) => {
+              if (disabled) event.preventDefault()
+            }}
+            className={cn(
+              "flex min-h-10 w-[300px] cursor-pointer flex-wrap items-center gap-1 rounded-md border border-input bg-background px-3 py-1.5 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 aria-disabled:cursor-not-allowed aria-disabled:opacity-50 aria-[invalid=true]:border-destructive",
+              className
+            )}
+          >
+            {selected.length === 0 && (
+              <span className="text-muted-foreground">{placeholder}</span>
+            )}
+            {selected.map((option) => (
+              <Badge
+                key={getOptionValue(option)}
+                variant="secondary"
+                className="gap-1 pr-1 font-normal"
+              >
+                {getOptionLabel(option)}
+                <button
+                  type="button"
+                  disabled={disabled}
+                  aria-label={`Remove ${getOptionLabel(option)}`}
+                  className="rounded-full outline-none hover:bg-muted-foreground/20 focus-visible:ring-2 focus-visible:ring-ring"
+                  onClick={(event) => {
+                    // Don't let the click reach the trigger and open the list.
+                    event.stopPropagation()
+                    remove(option)
+                  }}
+                  onKeyDown={(event) => event.stopPropagation()}
+                >
+                  <X className="h-3 w-3" aria-hidden />
+                </button>
+              </Badge>
+            ))}
+            <ChevronsUpDown
+              className="ml-auto h-4 w-4 shrink-0 opacity-50"
+              aria-hidden
+            />
+          </div>
+        ) : (
+          <Button
+            id={id}
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            aria-haspopup="listbox"
+            aria-invalid={ariaInvalid}
+            disabled={disabled}
+            className={cn(
+              "w-[300px] justify-between font-normal",
+              selected.length === 0 && "text-muted-foreground",
+              className
+            )}
+          >
+            <span className="truncate">
+              {selected.length > 0 ? getOptionLabel(selected[0]) : placeholder}
+            </span>
+            <ChevronsUpDown
+              className="ml-2 h-4 w-4 shrink-0 opacity-50"
+              aria-hidden
+            />
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-[--radix-popover-trigger-width] min-w-[200px] p-0"
+        align={align}
+      >
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={(next) => {
+              setQuery(next)
+              setCreateError(null)
+            }}
+            placeholder={searchPlaceholder}
+          />
+          {rows.length > virtualizeThreshold ? (
+            <VirtualOptionList
+              rows={rows}
+              itemHeight={itemHeight}
+              leading={createItem}
+              trailing={status}
+              renderItem={renderItem}
+            />
+          ) : (
+            <CommandList>
+              {createItem && <CommandGroup>{createItem}</CommandGroup>}
+              {groupRows(rows).map((group) => (
+                <CommandGroup key={group.key} heading={group.label}>
+                  {group.options.map((option) => renderItem(option))}
+                </CommandGroup>
+              ))}
+              {status}
+            </CommandList>
+          )}
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function ComboboxStatus({
+  loading,
+  error,
+  empty,
+  emptyMessage,
+}: {
+  loading: boolean
+  error: string | null
+  empty: boolean
+  emptyMessage: string
+}) {
+  if (loading) {
+    return (
+      <div
+        className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground"
+        role="status"
+      >
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
+        Loading…
+      </div>
+    )
+  }
+  if (error) {
+    return (
+      <p className="py-6 text-center text-sm text-destructive" role="alert">
+        {error}
+      </p>
+    )
+  }
+  return empty ? <CommandEmpty>{emptyMessage}</CommandEmpty> : null
+}
+
+/**
+ * Renders only the rows in view. cmdk moves the active item through the
+ * mounted ones and scrolls it into view, and the overscan keeps the next
+ * row mounted, so arrow keys still walk the whole list.
+ */
+function VirtualOptionList<T>({
+  rows,
+  itemHeight,
+  leading,
+  trailing,
+  renderItem,
+}: {
+  rows: ComboboxRow<T>[]
+  itemHeight: number
+  leading: React.ReactNode
+  /** Loading and error status, shown after the rows. */
+  trailing: React.ReactNode
+  renderItem: (option: T, style?: React.CSSProperties) => React.ReactNode
+}) {
+  const listRef = React.useRef<HTMLDivElement>(null)
+  const { virtualItems, totalSize } = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => listRef.current,
+    estimateSize: itemHeight,
+    overscan: 8,
+    paddingStart: leading ? itemHeight : 0,
+  })
+
+  return (
+    <CommandList ref={listRef} className="p-1">
+      {leading}
+      <div className="relative" style={{ height: totalSize }}>
+        {virtualItems.map((item) => {
+          const row = rows[item.index]
+          const style: React.CSSProperties = {
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            height: item.size,
+            transform: `translateY(${item.start}px)`,
+          }
+          return row.type === "heading" ? (
+            <div
+              key={row.key}
+              role="presentation"
+              style={style}
+              className="flex items-end px-2 pb-1.5 text-xs font-medium text-muted-foreground"
+            >
+              {row.label}
+            </div>
+          ) : (
+            renderItem(row.option, style)
+          )
+        })}
+      </div>
+      {trailing}
+    </CommandList>
+  )
+}
+
+/** Flattens options into heading and option rows, grouped in first-seen order. */
+function toRows<T>(
+  options: T[],
+  getOptionValue: (option: T) => string,
+  getOptionGroup?: (option: T) => string | undefined
+): ComboboxRow<T>[] {
+  const groups = new Map<string, T[]>()
+  for (const option of options) {
+    const group = getOptionGroup?.(option) ?? ""
+    const list = groups.get(group)
+    if (list) list.push(option)
+    else groups.set(group, [option])
+  }
+
+  const rows: ComboboxRow<T>[] = []
+  groups.forEach((list, group) => {
+    if (group)
+      rows.push({ type: "heading", key: `group:${group}`, label: group })
+    for (const option of list) {
+      rows.push({ type: "option", key: getOptionValue(option), option })
+    }
+  })
+  return rows
+}
+
+function groupRows<T>(rows: ComboboxRow<T>[]) {
+  const groups: { key: string; label?: string; options: T[] }[] = []
+  for (const row of rows) {
+    if (row.type === "heading") {
+      groups.push({ key: row.key, label: row.label, options: [] })
+    } else {
+      if (groups.length === 0) groups.push({ key: "ungrouped", options: [] })
+      groups[groups.length - 1].options.push(row.option)
+    }
+  }
+  return groups
+}
+
+/**
+ * Runs `loadOptions` for the current query while the list is open, waiting
+ * `debounce` ms after the last change and aborting superseded requests.
+ */
+function useAsyncOptions<T>(
+  loadOptions:
+    ((query: string, signal: AbortSignal) => Promise<T[]>) | undefined,
+  query: string,
+  open: boolean,
+  debounce: number
+) {
+  const [loaded, setLoaded] = React.useState<T[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [loadError, setLoadError] = React.useState<string | null>(null)
+
+  const loadRef = React.useRef(loadOptions)
+  loadRef.current = loadOptions
+  const enabled = open && Boolean(loadOptions)
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setLoading(false)
+      return
+    }
+    const controller = new AbortController()
+    setLoading(true)
+    setLoadError(null)
+
+    const timer = window.setTimeout(() => {
+      loadRef.current!(query, controller.signal).then(
+        (result) => {
+          if (controller.signal.aborted) return
+          setLoaded(result)
+          setLoading(false)
+        },
+        (error: unknown) => {
+          if (controller.signal.aborted) return
+          setLoaded([])
+          setLoadError(
+            error instanceof Error && error.message
+              ? error.message
+              : "Couldn't load options."
+          )
+          setLoading(false)
+        }
+      )
+    }, debounce)
+
+    return () => {
+      window.clearTimeout(timer)
+      controller.abort()
+    }
+  }, [enabled, query, debounce])
+
+  return { loaded, loading, loadError }
+}
@@ -0,0 +1,115 @@
+import * as React from "react"
+
+import { useShortcut, type ShortcutDefinition } from "../shortcuts"
+import { CommandPalette } from "./command-palette"
+import { loadRecent, pushRecent, RECENT_STORAGE_KEY } from "./recent"
+import type { CommandAction } from "./types"
+
+export const openCommandPaletteShortcut: ShortcutDefinition = {
+  id: "command-palette.open",
+  keys: "mod+k",
+  description: "Open command palette",
+}
+
+interface CommandPaletteContextValue {
+  open: boolean
+  setOpen: (open: boolean) => void
+  toggle: () => void
+  /** Adds actions to the palette; call the returned function to remove them. */
+  register: (actions: CommandAction[]) => () => void
+}
+
+const CommandPaletteContext =
+  React.createContext<CommandPaletteContextValue | null>(null)
+
+interface CommandPaletteProviderProps {
+  children: React.ReactNode
+  shortcut?: ShortcutDefinition
+  storageKey?: string
+  placeholder?: string
+}
+
+export function CommandPaletteProvider({
+  children,
+  shortcut = openCommandPaletteShortcut,
+  storageKey = RECENT_STORAGE_KEY,
+  placeholder,
+}: CommandPaletteProviderProps) {
+  const [open, setOpen] = React.useState(false)
+  const [registrations, setRegistrations] = React.useState<
+    ReadonlyMap<number, CommandAction[]>
+  >(new Map())
+  const [recent, setRecent] = React.useState(() => loadRecent(storageKey))
+  const nextToken = React.useRef(0)
+
+  const register = React.useCallback((actions: CommandAction[]) => {
+    const token = nextToken.current++
+    setRegistrations((previous) => new Map(previous).set(token, actions))
+    return () =>
+      setRegistrations((previous) => {
+        const next = new Map(previous)
+        next.delete(token)
+        return next
+      })
+  }, [])
+
+  const toggle = React.useCallback(() => setOpen((value) => !value), [])
+
+  // Also closes the palette, so it has to fire inside the open dialog.
+  useShortcut(shortcut, toggle, { allowInDialogs: true })
+
+  const actions = React.useMemo(() => {
+    // Later registrations win when two modules use the same id.
+    const byId = new Map<string, CommandAction>()
+    registrations.forEach((list) =>
+      list.forEach((action) => byId.set(action.id, action))
+    )
+    return [...byId.values()]
+  }, [registrations])
+
+  const onRun = React.useCallback(
+    (action: CommandAction) =>
+      setRecent((previous) => pushRecent(previous, action.id, storageKey)),
+    [storageKey]
+  )
+
+  const value = React.useMemo(
+    () => ({ open, setOpen, toggle, register }),
+    [open, toggle, register]
+  )
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+      <CommandPalette
+        open={open}
+        onOpenChange={setOpen}
+        actions={actions}
+        recent={recent}
+        onRun={onRun}
+        placeholder={placeholder}
+      />
+    </CommandPaletteContext.Provider>
+  )
+}
+
+export function useCommandPalette() {
+  const context = React.useContext(CommandPaletteContext)
+  if (!context) {
+    throw new Error(
+      "useCommandPalette must be used within a CommandPaletteProvider"
+    )
+  }
+  return context
+}
+
+/**
+ * Registers `actions` for as long as the calling component is mounted.
+ * Every new array re-registers, so build it with `useMemo` (or outside the
+ * component).
+ */
+export function useRegisterActions(actions: CommandAction[]) {
+  const { register } = useCommandPalette()
+
+  React.useEffect(() => register(actions), [register, actions])
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Toaster } from "../ui/toaster"
+import { createToastStore, ToastStoreProvider } from "../ui/use-toast"
+import { CommandPalette } from "./command-palette"
+import type { CommandAction } from "./types"
+
+function renderPalette(actions: CommandAction[]) {
+  const onOpenChange = vi.fn()
+  const onRun = vi.fn()
+  const result = setup(
+    <ToastStoreProvider store={createToastStore()}>
+      <CommandPalette
+        open
+        onOpenChange={onOpenChange}
+        actions={actions}
+        recent={[]}
+        onRun={onRun}
+      />
+      <Toaster />
+    </ToastStoreProvider>
+  )
+  return { onOpenChange, onRun, ...result }
+}
+
+describe("CommandPalette", () => {
+  it("lists the best matches first while searching", async () => {
+    const { user } = renderPalette([
+      { id: "export", title: "Export CSV", perform() {} },
+      { id: "theme", title: "Toggle theme", perform() {} },
+      { id: "settings", title: "Theme settings", perform() {} },
+    ])
+
+    await user.type(screen.getByRole("combobox"), "theme")
+
+    expect(
+      screen.getAllByRole("option").map((option) => option.textContent)
+    ).toEqual(["Theme settings", "Toggle theme"])
+  })
+
+  it("reports an action that throws synchronously and stays open", async () => {
+    const { user, onOpenChange, onRun } = renderPalette([
+      {
+        id: "delete",
+        title: "Delete project",
+        perform() {
+          throw new Error("You don't have permission.")
+        },
+      },
+    ])
+
+    await user.click(screen.getByRole("option", { name: "Delete project" }))
+
+    expect(onRun).toHaveBeenCalledTimes(1)
+    expect(await screen.findByText("“Delete project” failed")).toBeVisible()
+    expect(screen.getByText("You don't have permission.")).toBeVisible()
+    expect(onOpenChange).not.toHaveBeenCalled()
+    expect(screen.getByRole("option", { name: "Delete project" })).toBeEnabled()
+  })
+})
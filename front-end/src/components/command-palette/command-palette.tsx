@@ -0,0 +1,211 @@
+import * as React from "react"
+import { ChevronRight, Loader2 } from "lucide-react"
+
+import { cn } from "../lib/utils"
+import { Badge } from "../ui/badge"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "../ui/command"
+import { useToast } from "../ui/use-toast"
+import { rankActions } from "./fuzzy"
+import type { CommandAction } from "./types"
+
+const DEFAULT_GROUP = "Actions"
+const RECENT_LIMIT = 5
+
+function childrenOf(action: CommandAction) {
+  return typeof action.children === "function"
+    ? action.children()
+    : action.children
+}
+
+function groupBy(actions: CommandAction[]) {
+  const groups = new Map<string, CommandAction[]>()
+  for (const action of actions) {
+    const group = action.group ?? DEFAULT_GROUP
+    groups.set(group, [...(groups.get(group) ?? []), action])
+  }
+  return groups
+}
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  actions: CommandAction[]
+  /** Action ids, most recent first. */
+  recent: readonly string[]
+  onRun: (action: CommandAction) => void
+  placeholder?: string
+}
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  actions,
+  recent,
+  onRun,
+  placeholder = "Type a command or search…",
+}: CommandPaletteProps) {
+  const { toast } = useToast()
+  const [search, setSearch] = React.useState("")
+  const [pages, setPages] = React.useState<CommandAction[]>([])
+  const [running, setRunning] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!open) {
+      setSearch("")
+      setPages([])
+    }
+  }, [open])
+
+  const page = pages[pages.length - 1]
+  const pageActions = React.useMemo(
+    () => (page ? (childrenOf(page) ?? []) : actions),
+    [page, actions]
+  )
+  const ranked = React.useMemo(
+    () => (search ? rankActions(pageActions, search, recent) : []),
+    [pageActions, search, recent]
+  )
+
+  const recentActions = React.useMemo(() => {
+    if (page || search) return []
+    const byId = new Map(pageActions.map((a) => [a.id, a]))
+    return recent
+      .map((id) => byId.get(id))
+      .filter((a): a is CommandAction => Boolean(a))
+      .slice(0, RECENT_LIMIT)
+  }, [page, search, pageActions, recent])
+
+  const select = async (action: CommandAction) => {
+    if (running) return
+
+    if (action.children) {
+      setPages((previous) => [...previous, action])
+      setSearch("")
+      return
+    }
+    if (!action.perform) return
+
+    onRun(action)
+    try {
+      const result = action.perform()
+      if (result instanceof Promise) {
+        setRunning(action.id)
+        await result
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: `“${action.title}” failed`,
+        description: error instanceof Error ? error.message : undefined,
+      })
+      return
+    } finally {
+      setRunning(null)
+    }
+    if (!action.keepOpen) onOpenChange(false)
+  }
+
+  const popPage = () => setPages((previous) => previous.slice(0, -1))
+
+  // Backspace on an empty query steps out of a nested page, like Escape.
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if (pages.length > 0 && event.key === "Backspace" && !search) {
+      event.preventDefault()
+      popPage()
+    }
+  }
+
+  const renderItem = (action: CommandAction, keyPrefix = "") => (
+    <CommandItem
+      key={keyPrefix + action.id}
+      value={keyPrefix + action.id}
+      disabled={action.disabled || (running !== null && running !== action.id)}
+      onSelect={() => void select(action)}
+      aria-busy={running === action.id || undefined}
+      className="gap-2"
+    >
+      {running === action.id ? (
+        <Loader2 className="h-4 w-4 shrink-0 animate-spin" aria-hidden />
+      ) : (
+        action.icon
+      )}
+      <span className="truncate">{action.title}</span>
+      {action.subtitle && (
+        <span className="truncate text-xs text-muted-foreground">
+          {action.subtitle}
+        </span>
+      )}
+      {action.shortcut && <CommandShortcut keys={action.shortcut} />}
+      {action.children && (
+        <ChevronRight
+          className={cn(
+            "h-4 w-4 shrink-0 text-muted-foreground",
+            !action.shortcut && "ml-auto"
+          )}
+          aria-hidden
+        />
+      )}
+    </CommandItem>
+  )
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!running) onOpenChange(next)
+      }}
+      title="Command palette"
+      commandProps={{ shouldFilter: false, loop: true, onKeyDown }}
+      contentProps={{
+        onEscapeKeyDown: (event) => {
+          if (pages.length > 0) {
+            event.preventDefault()
+            popPage()
+          }
+        },
+      }}
+    >
+      {pages.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-3 pt-3">
+          {pages.map((p) => (
+            <Badge key={p.id} variant="secondary">
+              {p.title}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder={page ? `Search ${page.title.toLowerCase()}…` : placeholder}
+      />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+        {recentActions.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recentActions.map((action) => renderItem(action, "recent:"))}
+          </CommandGroup>
+        )}
+        {search ? (
+          <CommandGroup heading="Results">
+            {ranked.map(({ action }) => renderItem(action))}
+          </CommandGroup>
+        ) : (
+          [...groupBy(pageActions)].map(([group, list]) => (
+            <CommandGroup key={group} heading={group}>
+              {list.map((action) => renderItem(action))}
+            </CommandGroup>
+          ))
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+
+import { fuzzyScore, rankActions } from "./fuzzy"
+import type { CommandAction } from "./types"
+
+const action = (id: string, extra: Partial<CommandAction> = {}) => ({
+  id,
+  title: id,
+  ...extra,
+})
+
+const titles = (actions: CommandAction[], query: string, recent?: string[]) =>
+  rankActions(actions, query, recent).map(({ action }) => action.title)
+
+describe("fuzzyScore", () => {
+  it("matches characters in order only", () => {
+    expect(fuzzyScore("gst", "Go to settings")).not.toBeNull()
+    expect(fuzzyScore("sgo", "Go to settings")).toBeNull()
+    expect(fuzzyScore("", "anything")).toBe(0)
+  })
+
+  it("scores exact, prefix, word-start and scattered matches in that order", () => {
+    const exact = fuzzyScore("theme", "Theme")!
+    const prefix = fuzzyScore("theme", "Theme settings")!
+    const wordStart = fuzzyScore("theme", "Toggle theme")!
+    const scattered = fuzzyScore("theme", "The home menu")!
+
+    expect(exact).toBeGreaterThan(prefix)
+    expect(prefix).toBeGreaterThan(wordStart)
+    expect(wordStart).toBeGreaterThan(scattered)
+  })
+})
+
+describe("rankActions", () => {
+  it("drops actions that don't match and sorts the rest by score", () => {
+    const actions = [
+      action("Sign out"),
+      action("Open settings"),
+      action("Settings"),
+      action("Export CSV"),
+    ]
+
+    expect(titles(actions, "set")).toEqual(["Settings", "Open settings"])
+  })
+
+  it("weighs titles over keywords over subtitles", () => {
+    const actions = [
+      action("Subtitle", { subtitle: "invoice" }),
+      action("Keyword", { keywords: ["invoice"] }),
+      action("Invoice"),
+    ]
+
+    expect(titles(actions, "invoice")).toEqual([
+      "Invoice",
+      "Keyword",
+      "Subtitle",
+    ])
+  })
+
+  it("boosts recent actions, most recent first", () => {
+    const actions = [action("Copy link"), action("Copy url"), action("Copy id")]
+
+    expect(titles(actions, "copy")).toEqual([
+      "Copy id",
+      "Copy url",
+      "Copy link",
+    ])
+    expect(titles(actions, "copy", ["Copy link", "Copy url"])).toEqual([
+      "Copy link",
+      "Copy url",
+      "Copy id",
+    ])
+  })
+
+  it("keeps registration order for an empty query without recents", () => {
+    const actions = [action("B"), action("A"), action("C")]
+
+    expect(titles(actions, "  ")).toEqual(["B", "A", "C"])
+    expect(titles(actions, "", ["C"])).toEqual(["C", "B", "A"])
+  })
+})
@@ -0,0 +1,85 @@
+import type { CommandAction, RankedAction } from "./types"
+
+const SEPARATORS = /[\s\-_/.:]/
+
+/**
+ * Scores how well `query` matches `text` as an in-order subsequence, or
+ * returns `null` when it doesn't. Consecutive runs, word starts and an early
+ * first hit all score higher; gaps between matched characters cost a little.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase()
+  const t = text.toLowerCase()
+  if (!q) return 0
+
+  let score = 0
+  let run = 0
+  let previous = -1
+
+  for (let i = 0; i < q.length; i++) {
+    const index = t.indexOf(q[i], previous + 1)
+    if (index === -1) return null
+
+    let points = 1
+    if (index === previous + 1) {
+      run++
+      points += run * 2
+    } else {
+      run = 0
+      points -= Math.min(index - previous - 1, 5) * 0.2
+    }
+    if (index === 0 || SEPARATORS.test(t[index - 1])) points += 3
+    if (i === 0) points -= Math.min(index, 10) * 0.1
+
+    score += points
+    previous = index
+  }
+
+  // Prefer shorter texts when the match is otherwise equal.
+  return score / Math.sqrt(Math.max(t.length, q.length)) + (t === q ? 5 : 0)
+}
+
+/** Best score across the title, subtitle and keywords. */
+export function scoreAction(query: string, action: CommandAction) {
+  const candidates: [string, number][] = [
+    [action.title, 1],
+    ...(action.keywords ?? []).map((k): [string, number] => [k, 0.8]),
+  ]
+  if (action.subtitle) candidates.push([action.subtitle, 0.5])
+
+  let best: number | null = null
+  for (const [text, weight] of candidates) {
+    const score = fuzzyScore(query, text)
+    if (score !== null && (best === null || score * weight > best)) {
+      best = score * weight
+    }
+  }
+  return best
+}
+
+/**
+ * Filters and sorts `actions` for `query`. `recent` is most-recent-first;
+ * recently used actions get a boost that fades with their position.
+ */
+export function rankActions(
+  actions: CommandAction[],
+  query: string,
+  recent: readonly string[] = []
+): RankedAction[] {
+  const trimmed = query.trim()
+  const ranked: RankedAction[] = []
+
+  for (const action of actions) {
+    const score = trimmed ? scoreAction(trimmed, action) : 0
+    if (score === null) continue
+
+    const recency = recent.indexOf(action.id)
+    const boost = recency === -1 ? 0 : 1 - recency / recent.length
+    ranked.push({ action, score: score * (1 + boost * 0.5) + boost })
+  }
+
+  // `sort` is stable, so ties keep registration order.
+  return trimmed || recent.length
+    ? ranked.sort((a, b) => b.score - a.score)
+    : ranked
+}
@@ -0,0 +1,9 @@
+export { CommandPalette } from "./command-palette"
+export {
+  CommandPaletteProvider,
+  openCommandPaletteShortcut,
+  useCommandPalette,
+  useRegisterActions,
+} from "./command-palette-provider"
+export { fuzzyScore, rankActions, scoreAction } from "./fuzzy"
+export type { CommandAction, RankedAction } from "./types"
@@ -0,0 +1,30 @@
+export const RECENT_STORAGE_KEY = "command-palette-recent"
+const MAX_RECENT = 10
+
+export function loadRecent(storageKey = RECENT_STORAGE_KEY): string[] {
+  try {
+    const parsed: unknown = JSON.parse(
+      window.localStorage.getItem(storageKey) ?? "[]"
+    )
+    return Array.isArray(parsed)
+      ? parsed.filter((id): id is string => typeof id === "string")
+      : []
+  } catch {
+    return []
+  }
+}
+
+/** Moves `id` to the front, trims the list and persists it. */
+export function pushRecent(
+  recent: readonly string[],
+  id: string,
+  storageKey = RECENT_STORAGE_KEY
+) {
+  const next = [id, ...recent.filter((r) => r !== id)].slice(0, MAX_RECENT)
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(next))
+  } catch {
+    // Storage can be full or disabled; recency just won't survive a reload.
+  }
+  return next
+}
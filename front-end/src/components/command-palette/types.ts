@@ -0,0 +1,33 @@
+import type * as React from "react"
+
+export interface CommandAction {
+  /** Stable and unique across the app; used for recency tracking. */
+  id: string
+  title: string
+  subtitle?: string
+  /** Heading the action is listed under. Defaults to "Actions". */
+  group?: string
+  /** Extra search terms, e.g. synonyms the title doesn't contain. */
+  keywords?: string[]
+  /**
+   * Combo shown next to the title, e.g. "mod+d". Display only; bind it with
+   * `useShortcut` from the same definition.
+   */
+  shortcut?: string
+  icon?: React.ReactNode
+  disabled?: boolean
+  /**
+   * Runs when the action is chosen. A returned promise keeps the palette open
+   * with a spinner on the item until it settles.
+   */
+  perform?: () => void | Promise<void>
+  /** Opens a nested page listing these actions instead of running. */
+  children?: CommandAction[] | (() => CommandAction[])
+  /** Keep the palette open after `perform`. */
+  keepOpen?: boolean
+}
+
+export interface RankedAction {
+  action: CommandAction
+  score: number
+}
@@ -0,0 +1,348 @@
+import * as React from "react"
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronsUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Settings2,
+} from "lucide-react"
+
+import { cn } from "../lib/utils"
+import { Button } from "../ui/button"
+import { Checkbox } from "../ui/checkbox"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu"
+import { Input } from "../ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table"
+import { VirtualTable } from "../ui/virtual-table"
+import type { ColumnDef } from "./types"
+import {
+  useDataTable,
+  type DataTableInstance,
+  type DataTableRow,
+  type UseDataTableOptions,
+} from "./use-data-table"
+
+function renderCell<T>(column: ColumnDef<T>, row: T): React.ReactNode {
+  if (column.cell) return column.cell(row)
+  const value = column.accessor?.(row)
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toLocaleDateString()
+  return String(value)
+}
+
+function SortableHeader<T>({
+  table,
+  column,
+}: {
+  table: DataTableInstance<T>
+  column: ColumnDef<T>
+}) {
+  if (!table.canSort(column.id)) return <>{column.header}</>
+
+  const direction = table.getSortDirection(column.id)
+  const Icon =
+    direction === "asc"
+      ? ArrowUp
+      : direction === "desc"
+        ? ArrowDown
+        : ChevronsUpDown
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="-ml-3 h-8"
+      onClick={(event) => table.toggleSorting(column.id, event.shiftKey)}
+    >
+      {column.header}
+      <Icon className="ml-2 h-4 w-4" />
+    </Button>
+  )
+}
+
+export function DataTableToolbar<T>({
+  table,
+  filterColumns,
+}: {
+  table: DataTableInstance<T>
+  filterColumns?: string[]
+}) {
+  const filterable = table.columns.filter((column) =>
+    filterColumns
+      ? filterColumns.includes(column.id)
+      : table.canFilter(column.id)
+  )
+  const hideable = table.columns.filter(
+    (column) => column.enableHiding !== false
+  )
+  const hasFilters = Object.values(table.state.columnFilters).some(
+    (value) => value.trim() !== ""
+  )
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {filterable.map((column) => (
+        <Input
+          key={column.id}
+          placeholder={`Filter ${
+            typeof column.header === "string" ? column.header : column.id
+          }...`}
+          aria-label={`Filter by ${column.id}`}
+          value={table.state.columnFilters[column.id] ?? ""}
+          onChange={(event) =>
+            table.setColumnFilter(column.id, event.target.value)
+          }
+          className="h-8 w-40"
+        />
+      ))}
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8"
+          onClick={table.resetColumnFilters}
+        >
+          Reset
+        </Button>
+      )}
+      {hideable.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="ml-auto h-8">
+              <Settings2 className="mr-2 h-4 w-4" />
+              View
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-40">
+            <DropdownMenuLabel>Toggle columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {hideable.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                className="capitalize"
+                checked={table.state.columnVisibility[column.id] !== false}
+                onCheckedChange={(value) =>
+                  table.toggleColumnVisibility(column.id, Boolean(value))
+                }
+                onSelect={(event) => event.preventDefault()}
+              >
+                {typeof column.header === "string" ? column.header : column.id}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  )
+}
+
+export function DataTablePagination<T>({
+  table,
+  enableRowSelection,
+}: {
+  table: DataTableInstance<T>
+  enableRowSelection?: boolean
+}) {
+  const { pageIndex } = table.state.pagination
+
+  return (
+    <div className="flex items-center justify-between px-2">
+      <div className="flex-1 text-sm text-muted-foreground">
+        {enableRowSelection
+          ? `${table.selectedRows.length} of ${table.filteredRowCount} row(s) selected.`
+          : `${table.filteredRowCount} row(s)`}
+      </div>
+      <div className="flex items-center space-x-2">
+        <span className="text-sm font-medium">
+          Page {pageIndex + 1} of {table.pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={table.previousPage}
+          disabled={!table.canPreviousPage}
+        >
+          <span className="sr-only">Go to previous page</span>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={table.nextPage}
+          disabled={!table.canNextPage}
+        >
+          <span className="sr-only">Go to next page</span>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export interface DataTableProps<T> extends UseDataTableOptions<T> {
+  enableRowSelection?: boolean
+  /** Column ids that get a filter input; defaults to every filterable column. */
+  filterColumns?: string[]
+  emptyMessage?: React.ReactNode
+  /**
+   * Render every filtered row in a windowed `VirtualTable` instead of
+   * paginating. Use for tables with thousands of rows.
+   */
+  virtualized?: {
+    height: number | string
+    rowHeight?: number
+    estimateRowHeight?: number
+  }
+  className?: string
+}
+
+export function DataTable<T>({
+  enableRowSelection = false,
+  filterColumns,
+  emptyMessage = "No results.",
+  virtualized,
+  className,
+  ...options
+}: DataTableProps<T>) {
+  const table = useDataTable({ ...options, paginate: !virtualized })
+  const { rows } = table
+  const getRowKey = React.useCallback((index: number) => rows[index].id, [rows])
+  const columnCount = table.visibleColumns.length + (enableRowSelection ? 1 : 0)
+
+  const headerRow = (
+    <TableRow>
+      {enableRowSelection && (
+        <TableHead className="w-10">
+          <Checkbox
+            checked={
+              table.isAllPageRowsSelected ||
+              (table.isSomePageRowsSelected && "indeterminate")
+            }
+            onCheckedChange={(value) =>
+              table.toggleAllPageRowsSelected(Boolean(value))
+            }
+            aria-label="Select all"
+          />
+        </TableHead>
+      )}
+      {table.visibleColumns.map((column) => (
+        <TableHead
+          key={column.id}
+          className={column.headerClassName}
+          aria-sort={
+            table.getSortDirection(column.id) === "asc"
+              ? "ascending"
+              : table.getSortDirection(column.id) === "desc"
+                ? "descending"
+                : undefined
+          }
+        >
+          <SortableHeader table={table} column={column} />
+        </TableHead>
+      ))}
+    </TableRow>
+  )
+
+  const renderCells = (row: DataTableRow<T>) => (
+    <>
+      {enableRowSelection && (
+        <TableCell>
+          <Checkbox
+            checked={row.selected}
+            onCheckedChange={(value) =>
+              table.toggleRowSelected(row.id, Boolean(value))
+            }
+            aria-label="Select row"
+          />
+        </TableCell>
+      )}
+      {table.visibleColumns.map((column) => (
+        <TableCell key={column.id} className={column.cellClassName}>
+          {renderCell(column, row.original)}
+        </TableCell>
+      ))}
+    </>
+  )
+
+  if (virtualized && table.rows.length > 0) {
+    return (
+      <div className={cn("space-y-4", className)}>
+        <DataTableToolbar table={table} filterColumns={filterColumns} />
+        <VirtualTable
+          rowCount={table.rows.length}
+          height={virtualized.height}
+          rowHeight={virtualized.rowHeight}
+          estimateRowHeight={virtualized.estimateRowHeight}
+          header={headerRow}
+          renderRow={(index) => renderCells(table.rows[index])}
+          getRowKey={getRowKey}
+          getRowProps={(index) => ({
+            "data-state": table.rows[index].selected ? "selected" : undefined,
+          })}
+          onRowActivate={
+            enableRowSelection
+              ? (index) => table.toggleRowSelected(table.rows[index].id)
+              : undefined
+          }
+        />
+        <div className="px-2 text-sm text-muted-foreground">
+          {enableRowSelection
+            ? `${table.selectedRows.length} of ${table.filteredRowCount} row(s) selected.`
+            : `${table.filteredRowCount} row(s)`}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <DataTableToolbar table={table} filterColumns={filterColumns} />
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>{headerRow}</TableHeader>
+          <TableBody>
+            {table.rows.length ? (
+              table.rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  data-state={row.selected ? "selected" : undefined}
+                >
+                  {renderCells(row)}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="h-24 text-center">
+                  {emptyMessage}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {!virtualized && (
+        <DataTablePagination
+          table={table}
+          enableRowSelection={enableRowSelection}
+        />
+      )}
+    </div>
+  )
+}
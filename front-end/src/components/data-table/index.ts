@@ -0,0 +1,14 @@
+export {
+  DataTable,
+  DataTablePagination,
+  DataTableToolbar,
+  type DataTableProps,
+} from "./data-table"
+export {
+  compareValues,
+  useDataTable,
+  type DataTableInstance,
+  type DataTableRow,
+  type UseDataTableOptions,
+} from "./use-data-table"
+export type * from "./types"
@@ -0,0 +1,49 @@
+import type * as React from "react"
+
+export interface ColumnDef<T> {
+  id: string
+  header: React.ReactNode
+  /** Raw value used for sorting and filtering. */
+  accessor?: (row: T) => unknown
+  /** Rendered cell; falls back to `String(accessor(row))`. */
+  cell?: (row: T) => React.ReactNode
+  /** Defaults to true when the column has an accessor. */
+  enableSorting?: boolean
+  /** Defaults to true when the column has an accessor. */
+  enableFiltering?: boolean
+  /** Defaults to true. */
+  enableHiding?: boolean
+  sortFn?: (a: T, b: T) => number
+  filterFn?: (row: T, filter: string) => boolean
+  headerClassName?: string
+  cellClassName?: string
+}
+
+export interface SortingRule {
+  id: string
+  desc: boolean
+}
+
+export type SortingState = SortingRule[]
+
+/** Column id -> filter text. Empty strings are ignored. */
+export type ColumnFiltersState = Record<string, string>
+
+/** Column id -> visible. Missing ids are visible. */
+export type VisibilityState = Record<string, boolean>
+
+/** Row id -> selected. */
+export type RowSelectionState = Record<string, boolean>
+
+export interface PaginationState {
+  pageIndex: number
+  pageSize: number
+}
+
+export interface DataTableState {
+  sorting: SortingState
+  columnFilters: ColumnFiltersState
+  columnVisibility: VisibilityState
+  rowSelection: RowSelectionState
+  pagination: PaginationState
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { act, renderHook } from "../../test/render"
+import type { ColumnDef } from "./types"
+import { useDataTable } from "./use-data-table"
+
+interface Person {
+  id: string
+  name: string
+}
+
+const data: Person[] = [
+  { id: "ada", name: "Ada" },
+  { id: "grace", name: "Grace" },
+  { id: "linus", name: "Linus" },
+]
+
+const columns: ColumnDef<Person>[] = [
+  { id: "name", header: "Name", accessor: (row) => row.name },
+]
+
+describe("useDataTable", () => {
+  it("keeps every selection change made in one batch", () => {
+    const onRowSelectionChange = vi.fn()
+    const { result } = renderHook(() =>
+      useDataTable({
+        data,
+        columns,
+        getRowId: (row) => row.id,
+        onRowSelectionChange,
+      })
+    )
+
+    act(() => {
+      result.current.toggleRowSelected("ada")
+      result.current.toggleRowSelected("linus")
+    })
+
+    expect(result.current.state.rowSelection).toEqual({
+      ada: true,
+      linus: true,
+    })
+    expect(onRowSelectionChange).toHaveBeenCalledTimes(1)
+    expect(onRowSelectionChange).toHaveBeenCalledWith({
+      ada: true,
+      linus: true,
+    })
+  })
+
+  it("combines a page toggle with a row toggle", () => {
+    const { result } = renderHook(() =>
+      useDataTable({ data, columns, getRowId: (row) => row.id })
+    )
+
+    act(() => {
+      result.current.toggleAllPageRowsSelected(true)
+      result.current.toggleRowSelected("grace", false)
+    })
+
+    expect(result.current.selectedRows.map((row) => row.id)).toEqual([
+      "ada",
+      "linus",
+    ])
+  })
+})
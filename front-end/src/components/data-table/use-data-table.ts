@@ -0,0 +1,327 @@
+import * as React from "react"
+
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  DataTableState,
+  PaginationState,
+  RowSelectionState,
+  SortingState,
+  VisibilityState,
+} from "./types"
+
+export interface DataTableRow<T> {
+  id: string
+  index: number
+  original: T
+  selected: boolean
+}
+
+export interface UseDataTableOptions<T> {
+  data: T[]
+  columns: ColumnDef<T>[]
+  /** Stable id per row; defaults to the row's index in `data`. */
+  getRowId?: (row: T, index: number) => string
+  initialState?: Partial<DataTableState>
+  /** Set to false to return every filtered row on a single page. */
+  paginate?: boolean
+  onRowSelectionChange?: (selection: RowSelectionState) => void
+}
+
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime()
+  if (typeof a === "number" && typeof b === "number") return a - b
+  if (typeof a === "boolean" && typeof b === "boolean") return a ? 1 : -1
+  return String(a).localeCompare(String(b), undefined, { numeric: true })
+}
+
+function defaultFilter(value: unknown, filter: string) {
+  if (value === null || value === undefined) return false
+  return String(value).toLowerCase().includes(filter.trim().toLowerCase())
+}
+
+function canSort<T>(column: ColumnDef<T>) {
+  return column.enableSorting ?? Boolean(column.accessor || column.sortFn)
+}
+
+function canFilter<T>(column: ColumnDef<T>) {
+  return column.enableFiltering ?? Boolean(column.accessor || column.filterFn)
+}
+
+export function useDataTable<T>({
+  data,
+  columns,
+  getRowId = (_row, index) => String(index),
+  initialState,
+  paginate = true,
+  onRowSelectionChange,
+}: UseDataTableOptions<T>) {
+  const [sorting, setSorting] = React.useState<SortingState>(
+    initialState?.sorting ?? []
+  )
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    initialState?.columnFilters ?? {}
+  )
+  const [columnVisibility, setColumnVisibility] =
+    React.useState<VisibilityState>(initialState?.columnVisibility ?? {})
+  const [rowSelection, setRowSelectionState] =
+    React.useState<RowSelectionState>(initialState?.rowSelection ?? {})
+  const [pagination, setPagination] = React.useState<PaginationState>(
+    initialState?.pagination ?? { pageIndex: 0, pageSize: 10 }
+  )
+
+  const columnsById = React.useMemo(
+    () => new Map(columns.map((column) => [column.id, column])),
+    [columns]
+  )
+
+  const visibleColumns = React.useMemo(
+    () => columns.filter((column) => columnVisibility[column.id] !== false),
+    [columns, columnVisibility]
+  )
+
+  // getRowId is usually an inline arrow; rows only depend on the data.
+  const getRowIdRef = React.useRef(getRowId)
+  getRowIdRef.current = getRowId
+
+  const allRows = React.useMemo(
+    () =>
+      data.map((original, index) => ({
+        id: getRowIdRef.current(original, index),
+        index,
+        original,
+      })),
+    [data]
+  )
+
+  const filteredRows = React.useMemo(() => {
+    const active = Object.entries(columnFilters).filter(
+      ([id, value]) => value.trim() !== "" && columnsById.has(id)
+    )
+    if (active.length === 0) return allRows
+
+    return allRows.filter(({ original }) =>
+      active.every(([id, filter]) => {
+        const column = columnsById.get(id)!
+        if (!canFilter(column)) return true
+        if (column.filterFn) return column.filterFn(original, filter)
+        return defaultFilter(column.accessor?.(original), filter)
+      })
+    )
+  }, [allRows, columnFilters, columnsById])
+
+  const sortedRows = React.useMemo(() => {
+    const rules = sorting.filter(({ id }) => {
+      const column = columnsById.get(id)
+      return column && canSort(column)
+    })
+    if (rules.length === 0) return filteredRows
+
+    return [...filteredRows].sort((a, b) => {
+      for (const { id, desc } of rules) {
+        const column = columnsById.get(id)!
+        const result = column.sortFn
+          ? column.sortFn(a.original, b.original)
+          : compareValues(
+              column.accessor?.(a.original),
+              column.accessor?.(b.original)
+            )
+        if (result !== 0) return desc ? -result : result
+      }
+      return a.index - b.index
+    })
+  }, [filteredRows, sorting, columnsById])
+
+  const pageSize = paginate ? pagination.pageSize : sortedRows.length || 1
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / pageSize))
+  const pageIndex = paginate ? Math.min(pagination.pageIndex, pageCount - 1) : 0
+
+  const rows: DataTableRow<T>[] = React.useMemo(() => {
+    const start = pageIndex * pageSize
+    return sortedRows.slice(start, start + pageSize).map((row) => ({
+      ...row,
+      selected: Boolean(rowSelection[row.id]),
+    }))
+  }, [sortedRows, pageIndex, pageSize, rowSelection])
+
+  const onRowSelectionChangeRef = React.useRef(onRowSelectionChange)
+  onRowSelectionChangeRef.current = onRowSelectionChange
+  const selectionChanged = React.useRef(false)
+
+  // Updates queue against the latest state, so several toggles in one event
+  // (a shift-range plus a row) all land; listeners hear the settled result.
+  const setRowSelection = React.useCallback(
+    (updater: (previous: RowSelectionState) => RowSelectionState) => {
+      selectionChanged.current = true
+      setRowSelectionState((previous) => updater(previous))
+    },
+    []
+  )
+
+  React.useEffect(() => {
+    if (!selectionChanged.current) return
+    selectionChanged.current = false
+    onRowSelectionChangeRef.current?.(rowSelection)
+  }, [rowSelection])
+
+  const toggleSorting = React.useCallback(
+    (id: string, multi = false) => {
+      const column = columnsById.get(id)
+      if (!column || !canSort(column)) return
+
+      setSorting((previous) => {
+        const existing = previous.find((rule) => rule.id === id)
+        // asc -> desc -> unsorted
+        const nextRule = !existing
+          ? { id, desc: false }
+          : existing.desc
+            ? null
+            : { id, desc: true }
+
+        if (!multi) return nextRule ? [nextRule] : []
+
+        const others = previous.filter((rule) => rule.id !== id)
+        return nextRule
+          ? existing
+            ? previous.map((rule) => (rule.id === id ? nextRule : rule))
+            : [...others, nextRule]
+          : others
+      })
+    },
+    [columnsById]
+  )
+
+  const getSortDirection = React.useCallback(
+    (id: string): "asc" | "desc" | false => {
+      const rule = sorting.find((r) => r.id === id)
+      if (!rule) return false
+      return rule.desc ? "desc" : "asc"
+    },
+    [sorting]
+  )
+
+  const setColumnFilter = React.useCallback((id: string, value: string) => {
+    setColumnFilters((previous) => ({ ...previous, [id]: value }))
+    setPagination((previous) => ({ ...previous, pageIndex: 0 }))
+  }, [])
+
+  const resetColumnFilters = React.useCallback(() => {
+    setColumnFilters({})
+    setPagination((previous) => ({ ...previous, pageIndex: 0 }))
+  }, [])
+
+  const toggleColumnVisibility = React.useCallback(
+    (id: string, visible?: boolean) => {
+      const column = columnsById.get(id)
+      if (!column || column.enableHiding === false) return
+      setColumnVisibility((previous) => ({
+        ...previous,
+        [id]: visible ?? previous[id] === false,
+      }))
+    },
+    [columnsById]
+  )
+
+  const toggleRowSelected = React.useCallback(
+    (id: string, selected?: boolean) => {
+      setRowSelection((previous) => {
+        const next = { ...previous }
+        if (selected ?? !previous[id]) next[id] = true
+        else delete next[id]
+        return next
+      })
+    },
+    [setRowSelection]
+  )
+
+  const isAllPageRowsSelected =
+    rows.length > 0 && rows.every((row) => row.selected)
+  const isSomePageRowsSelected =
+    !isAllPageRowsSelected && rows.some((row) => row.selected)
+
+  const toggleAllPageRowsSelected = React.useCallback(
+    (selected?: boolean) => {
+      const value = selected ?? !isAllPageRowsSelected
+      setRowSelection((previous) => {
+        const next = { ...previous }
+        for (const row of rows) {
+          if (value) next[row.id] = true
+          else delete next[row.id]
+        }
+        return next
+      })
+    },
+    [rows, isAllPageRowsSelected, setRowSelection]
+  )
+
+  const resetRowSelection = React.useCallback(
+    () => setRowSelection(() => ({})),
+    [setRowSelection]
+  )
+
+  const selectedRows = React.useMemo(
+    () =>
+      allRows.filter((row) => rowSelection[row.id]).map((row) => row.original),
+    [allRows, rowSelection]
+  )
+
+  const setPageIndex = React.useCallback(
+    (index: number) =>
+      setPagination((previous) => ({
+        ...previous,
+        pageIndex: Math.max(0, Math.min(index, pageCount - 1)),
+      })),
+    [pageCount]
+  )
+
+  const setPageSize = React.useCallback(
+    (size: number) => setPagination({ pageIndex: 0, pageSize: size }),
+    []
+  )
+
+  return {
+    state: {
+      sorting,
+      columnFilters,
+      columnVisibility,
+      rowSelection,
+      pagination: { pageIndex, pageSize: pagination.pageSize },
+    } satisfies DataTableState,
+    columns,
+    visibleColumns,
+    rows,
+    totalRowCount: data.length,
+    filteredRowCount: sortedRows.length,
+    selectedRows,
+    pageCount,
+    canPreviousPage: pageIndex > 0,
+    canNextPage: pageIndex < pageCount - 1,
+    previousPage: () => setPageIndex(pageIndex - 1),
+    nextPage: () => setPageIndex(pageIndex + 1),
+    setPageIndex,
+    setPageSize,
+    canSort: (id: string) => {
+      const column = columnsById.get(id)
+      return Boolean(column && canSort(column))
+    },
+    canFilter: (id: string) => {
+      const column = columnsById.get(id)
+      return Boolean(column && canFilter(column))
+    },
+    toggleSorting,
+    getSortDirection,
+    setColumnFilter,
+    resetColumnFilters,
+    toggleColumnVisibility,
+    toggleRowSelected,
+    toggleAllPageRowsSelected,
+    isAllPageRowsSelected,
+    isSomePageRowsSelected,
+    resetRowSelection,
+  }
+}
+
+export type DataTableInstance<T> = ReturnType<typeof useDataTable<T>>
@@ -0,0 +1,216 @@
+import * as React from "react"
+import {
+  endOfQuarter,
+  format,
+  isAfter,
+  isBefore,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  type Locale,
+} from "date-fns"
+import { CalendarIcon } from "lucide-react"
+import type { DateRange, Matcher } from "react-day-picker"
+
+import { useI18n, type Translate } from "../lib/i18n"
+import { cn } from "./lib/utils"
+import { Button } from "./ui/button"
+import { Calendar } from "./ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover"
+
+export interface DateRangePreset {
+  label: string
+  range: (today: Date) => { from: Date; to: Date }
+}
+
+/** The presets shown when `presets` is omitted, labelled through `t`. */
+export const defaultDateRangePresets = (t: Translate): DateRangePreset[] => [
+  {
+    label: t("ui.dateRangePicker.last7Days"),
+    range: (today) => ({ from: subDays(today, 6), to: today }),
+  },
+  {
+    label: t("ui.dateRangePicker.last30Days"),
+    range: (today) => ({ from: subDays(today, 29), to: today }),
+  },
+  {
+    label: t("ui.dateRangePicker.monthToDate"),
+    range: (today) => ({ from: startOfMonth(today), to: today }),
+  },
+  {
+    label: t("ui.dateRangePicker.yearToDate"),
+    range: (today) => ({ from: startOfYear(today), to: today }),
+  },
+  {
+    label: t("ui.dateRangePicker.lastQuarter"),
+    range: (today) => {
+      const previous = subQuarters(today, 1)
+      return {
+        from: startOfQuarter(previous),
+        to: startOfDay(endOfQuarter(previous)),
+      }
+    },
+  },
+]
+
+/** Clamps `range` into [min, max], or returns null if nothing is left. */
+function clampRange(range: { from: Date; to: Date }, min?: Date, max?: Date) {
+  const from = min && isBefore(range.from, min) ? min : range.from
+  const to = max && isAfter(range.to, max) ? max : range.to
+  return isAfter(from, to) ? null : { from, to }
+}
+
+function sameRange(a: DateRange | undefined, b: DateRange | null) {
+  return Boolean(
+    a?.from &&
+    a.to &&
+    b?.from &&
+    b.to &&
+    isSameDay(a.from, b.from) &&
+    isSameDay(a.to, b.to)
+  )
+}
+
+export interface DateRangePickerProps {
+  /** Controls the picker; `null` is an empty range, `undefined` uncontrolled. */
+  value?: DateRange | null
+  defaultValue?: DateRange | null
+  onChange?: (range: DateRange | undefined) => void
+  /**
+   * Shortcuts listed beside the calendar; pass `[]` to hide them. Defaults
+   * to `defaultDateRangePresets` in the app locale.
+   */
+  presets?: DateRangePreset[]
+  min?: Date
+  max?: Date
+  /** Days that can't be picked; a range can't span them either. */
+  disabledDates?: Matcher | Matcher[]
+  numberOfMonths?: number
+  /** `date-fns` format for the trigger label. */
+  dateFormat?: string
+  /** Defaults to the app locale. */
+  locale?: Locale
+  /** Defaults to the app locale's "Pick a date range". */
+  placeholder?: string
+  disabled?: boolean
+  align?: "start" | "center" | "end"
+  className?: string
+  id?: string
+}
+
+export function DateRangePicker({
+  value: valueProp,
+  defaultValue,
+  onChange,
+  presets: presetsProp,
+  min,
+  max,
+  disabledDates,
+  numberOfMonths = 2,
+  dateFormat = "LLL d, y",
+  locale: localeProp,
+  placeholder,
+  disabled,
+  align = "start",
+  className,
+  id,
+}: DateRangePickerProps) {
+  const { dateLocale, t } = useI18n()
+  const locale = localeProp ?? dateLocale
+  const presets = presetsProp ?? defaultDateRangePresets(t)
+  const [open, setOpen] = React.useState(false)
+  const [internal, setInternal] = React.useState(defaultValue ?? undefined)
+  const value = valueProp === undefined ? internal : (valueProp ?? undefined)
+  const [month, setMonth] = React.useState<Date | undefined>(value?.from ?? max)
+
+  const setValue = (range: DateRange | undefined) => {
+    setInternal(range)
+    onChange?.(range)
+  }
+
+  const today = startOfDay(new Date())
+  const resolvedPresets = presets.map((preset) => ({
+    label: preset.label,
+    range: clampRange(preset.range(today), min, max),
+  }))
+
+  const disabledMatchers: Matcher[] = [
+    ...(min ? [{ before: min }] : []),
+    ...(max ? [{ after: max }] : []),
+    ...(disabledDates === undefined
+      ? []
+      : Array.isArray(disabledDates)
+        ? disabledDates
+        : [disabledDates]),
+  ]
+
+  const label = value?.from
+    ? value.to
+      ? `${format(value.from, dateFormat, { locale })} – ${format(value.to, dateFormat, { locale })}`
+      : format(value.from, dateFormat, { locale })
+    : (placeholder ?? t("ui.dateRangePicker.placeholder"))
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          disabled={disabled}
+          className={cn(
+            "w-[300px] justify-start text-left font-normal",
+            !value?.from && "text-muted-foreground",
+            className
+          )}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" aria-hidden />
+          <span className="truncate">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="flex w-auto flex-col p-0 sm:flex-row"
+        align={align}
+      >
+        {resolvedPresets.length > 0 && (
+          <div className="flex flex-row gap-1 overflow-x-auto border-b p-3 sm:flex-col sm:border-b-0 sm:border-r">
+            {resolvedPresets.map((preset) => (
+              <Button
+                key={preset.label}
+                variant={sameRange(value, preset.range) ? "secondary" : "ghost"}
+                size="sm"
+                className="justify-start"
+                disabled={!preset.range}
+                onClick={() => {
+                  if (!preset.range) return
+                  setValue(preset.range)
+                  // Show the range's end in the last visible month.
+                  setMonth(subMonths(preset.range.to, numberOfMonths - 1))
+                }}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        )}
+        <Calendar
+          mode="range"
+          selected={value}
+          onSelect={setValue}
+          month={month}
+          onMonthChange={setMonth}
+          numberOfMonths={numberOfMonths}
+          startMonth={min}
+          endMonth={max}
+          disabled={disabledMatchers}
+          excludeDisabled={disabledDates !== undefined}
+          locale={locale}
+        />
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,297 @@
+import * as React from "react"
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addYears,
+  format,
+  isAfter,
+  isBefore,
+  type Locale,
+} from "date-fns"
+
+import { useI18n } from "../lib/i18n"
+import {
+  editPattern,
+  fromWallTime,
+  listTimeZones,
+  localTimeZone,
+  parseDateTime,
+  segmentRanges,
+  toDate,
+  toWallTime,
+  type DateTimeGranularity,
+  type DateTimeSegment,
+} from "./lib/date-time"
+import { Input, type InputProps } from "./ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select"
+
+const step: Record<DateTimeSegment, (date: Date, amount: number) => Date> = {
+  year: addYears,
+  month: addMonths,
+  day: addDays,
+  hour: addHours,
+  minute: addMinutes,
+  period: (date, amount) => addHours(date, amount * 12),
+}
+
+export interface DateTimeInputProps extends Omit<
+  InputProps,
+  "value" | "defaultValue" | "onChange" | "min" | "max" | "type"
+> {
+  /** An ISO 8601 string, or null when empty. */
+  value?: string | null
+  defaultValue?: string | null
+  onChange?: (value: string | null) => void
+  min?: string | Date
+  max?: string | Date
+  /** Display and primary parsing locale; defaults to the app locale. */
+  locale?: Locale
+  /** More locales whose formats are accepted when typing. */
+  parseLocales?: Locale[]
+  /** IANA zone the wall time is shown in; the browser's zone when omitted. */
+  timeZone?: string
+  /** Initial zone when `timeZone` isn't controlled. */
+  defaultTimeZone?: string
+  onTimeZoneChange?: (timeZone: string) => void
+  /** Shows a time zone picker next to the input. */
+  showTimeZone?: boolean
+  granularity?: DateTimeGranularity
+}
+
+/**
+ * Text input for a date and time. Accepts typed dates in any of the given
+ * locales' formats; ArrowUp/ArrowDown step whichever segment holds the
+ * caret. Emits ISO strings: `yyyy-MM-dd` for `granularity="day"`, otherwise
+ * a UTC timestamp.
+ */
+export const DateTimeInput = React.forwardRef<
+  HTMLInputElement,
+  DateTimeInputProps
+>(
+  (
+    {
+      value: valueProp,
+      defaultValue = null,
+      onChange,
+      min,
+      max,
+      locale: localeProp,
+      parseLocales = [],
+      timeZone: timeZoneProp,
+      defaultTimeZone,
+      onTimeZoneChange,
+      showTimeZone = false,
+      granularity = "minute",
+      className,
+      onBlur,
+      onKeyDown,
+      "aria-invalid": ariaInvalid,
+      "aria-describedby": ariaDescribedBy,
+      ...props
+    },
+    ref
+  ) => {
+    const { dateLocale, t } = useI18n()
+    const locale = localeProp ?? dateLocale
+    const inputRef = React.useRef<HTMLInputElement>(null)
+    React.useImperativeHandle(ref, () => inputRef.current!)
+
+    const [internal, setInternal] = React.useState(defaultValue)
+    const value = valueProp === undefined ? internal : valueProp
+    const [internalZone, setInternalZone] = React.useState(defaultTimeZone)
+    const timeZone = timeZoneProp === undefined ? internalZone : timeZoneProp
+    // Day values are calendar dates, so they never shift with a time zone.
+    const zone = granularity === "day" ? undefined : timeZone
+
+    const pattern = editPattern(locale, granularity)
+    const wall = React.useMemo(() => {
+      const instant = toDate(value)
+      return instant ? toWallTime(instant, zone) : null
+    }, [value, zone])
+    const formatted = wall ? format(wall, pattern, { locale }) : ""
+
+    const [draft, setDraft] = React.useState<string | null>(null)
+    const [error, setError] = React.useState<string | null>(null)
+    const text = draft ?? formatted
+
+    const minDate = toDate(min)
+    const maxDate = toDate(max)
+    const errorId = React.useId()
+
+    const serialize = (next: Date) =>
+      granularity === "day"
+        ? format(next, "yyyy-MM-dd")
+        : fromWallTime(next, zone).toISOString()
+
+    const rangeError = (nextWall: Date) => {
+      const instant = fromWallTime(nextWall, zone)
+      const display = (date: Date) =>
+        format(toWallTime(date, zone), pattern, { locale })
+      if (minDate && isBefore(instant, minDate)) {
+        return t("ui.dateTimeInput.min", { date: display(minDate) })
+      }
+      if (maxDate && isAfter(instant, maxDate)) {
+        return t("ui.dateTimeInput.max", { date: display(maxDate) })
+      }
+      return null
+    }
+
+    const commit = (next: Date | null) => {
+      const serialized = next ? serialize(next) : null
+      if (serialized !== value) {
+        setInternal(serialized)
+        onChange?.(serialized)
+      }
+    }
+
+    const commitText = () => {
+      if (draft === null) return
+      if (!draft.trim()) {
+        setDraft(null)
+        setError(null)
+        commit(null)
+        return
+      }
+
+      const parsed = parseDateTime(draft, {
+        locales: [locale, ...parseLocales],
+        granularity,
+        timeZone: zone,
+      })
+      if (!parsed) {
+        setError(
+          t("ui.dateTimeInput.invalid", {
+            example: format(new Date(), pattern, { locale }),
+          })
+        )
+        return
+      }
+      const outOfRange = rangeError(parsed)
+      setError(outOfRange)
+      if (outOfRange) return
+
+      setDraft(null)
+      commit(parsed)
+    }
+
+    const stepSegment = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      const base =
+        (draft !== null &&
+          parseDateTime(draft, {
+            locales: [locale, ...parseLocales],
+            granularity,
+            timeZone: zone,
+          })) ||
+        wall ||
+        toWallTime(new Date(), zone)
+
+      const caret = event.currentTarget.selectionStart ?? 0
+      const ranges = segmentRanges(pattern, base, locale)
+      const current =
+        ranges.find((r) => caret >= r.start && caret <= r.end) ?? ranges[0]
+      if (!current) return
+
+      event.preventDefault()
+      let next = step[current.segment](base, event.key === "ArrowUp" ? 1 : -1)
+      if (minDate && isBefore(fromWallTime(next, zone), minDate)) {
+        next = toWallTime(minDate, zone)
+      }
+      if (maxDate && isAfter(fromWallTime(next, zone), maxDate)) {
+        next = toWallTime(maxDate, zone)
+      }
+
+      setDraft(null)
+      setError(null)
+      commit(next)
+
+      // Keep the stepped segment selected once the new text renders.
+      const range = segmentRanges(pattern, next, locale).find(
+        (r) => r.segment === current.segment
+      )
+      const input = event.currentTarget
+      requestAnimationFrame(() => {
+        if (range) input.setSelectionRange(range.start, range.end)
+      })
+    }
+
+    const timeZones = React.useMemo(
+      () => (showTimeZone ? listTimeZones() : []),
+      [showTimeZone]
+    )
+
+    return (
+      <div className="space-y-1">
+        <div className="flex gap-2">
+          <Input
+            ref={inputRef}
+            autoComplete="off"
+            spellCheck={false}
+            placeholder={pattern}
+            className={className}
+            value={text}
+            aria-invalid={ariaInvalid ?? (error ? true : undefined)}
+            aria-describedby={
+              [ariaDescribedBy, error && errorId].filter(Boolean).join(" ") ||
+              undefined
+            }
+            onChange={(event) => {
+              setDraft(event.target.value)
+              setError(null)
+            }}
+            onBlur={(event) => {
+              commitText()
+              onBlur?.(event)
+            }}
+            onKeyDown={(event) => {
+              onKeyDown?.(event)
+              if (event.defaultPrevented) return
+              if (event.key === "Enter") commitText()
+              if (event.key === "ArrowUp" || event.key === "ArrowDown") {
+                stepSegment(event)
+              }
+            }}
+            {...props}
+          />
+          {showTimeZone && granularity !== "day" && (
+            <Select
+              value={timeZone ?? localTimeZone()}
+              onValueChange={(next) => {
+                setInternalZone(next)
+                onTimeZoneChange?.(next)
+              }}
+              disabled={props.disabled}
+            >
+              <SelectTrigger
+                className="w-[200px] shrink-0"
+                aria-label={t("ui.dateTimeInput.timeZone")}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map((tz) => (
+                  <SelectItem key={tz} value={tz}>
+                    {tz.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {error && (
+          <p id={errorId} role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    )
+  }
+)
+DateTimeInput.displayName = "DateTimeInput"
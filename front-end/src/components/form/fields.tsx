@@ -0,0 +1,425 @@
+import * as React from "react"
+import {
+  useFormState,
+  type ControllerProps,
+  type FieldPath,
+  type FieldValues,
+} from "react-hook-form"
+import { Loader2 } from "lucide-react"
+
+import { cn } from "../lib/utils"
+import { Button, type ButtonProps } from "../ui/button"
+import { Checkbox } from "../ui/checkbox"
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form"
+import { Input, type InputProps } from "../ui/input"
+import { RadioGroup, RadioGroupItem } from "../ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select"
+import { Slider, type SliderProps } from "../ui/slider"
+import { Switch } from "../ui/switch"
+import { Textarea, type TextareaProps } from "../ui/textarea"
+
+export interface FieldOption {
+  value: string
+  label: React.ReactNode
+  disabled?: boolean
+}
+
+interface BaseFieldProps<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+> {
+  name: TName
+  /** Falls back to the surrounding `<Form>` when omitted. */
+  control?: ControllerProps<TFieldValues, TName>["control"]
+  /** Extra, field-level rules; `validate` may be async. */
+  rules?: ControllerProps<TFieldValues, TName>["rules"]
+  label?: React.ReactNode
+  description?: React.ReactNode
+  disabled?: boolean
+  className?: string
+}
+
+export function InputField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+  ...inputProps
+}: BaseFieldProps<TFieldValues, TName> &
+  Omit<InputProps, "name" | "value" | "defaultValue" | "onChange">) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => (
+        <FormItem className={className}>
+          {label && <FormLabel>{label}</FormLabel>}
+          <FormControl>
+            <Input
+              {...inputProps}
+              {...field}
+              value={field.value ?? ""}
+              onChange={(event) =>
+                field.onChange(
+                  inputProps.type === "number"
+                    ? event.target.value === ""
+                      ? undefined
+                      : event.target.valueAsNumber
+                    : event.target.value
+                )
+              }
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function TextareaField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+  ...textareaProps
+}: BaseFieldProps<TFieldValues, TName> &
+  Omit<TextareaProps, "name" | "value" | "defaultValue" | "onChange">) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => (
+        <FormItem className={className}>
+          {label && <FormLabel>{label}</FormLabel>}
+          <FormControl>
+            <Textarea {...textareaProps} {...field} value={field.value ?? ""} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function SelectField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+  options,
+  placeholder,
+}: BaseFieldProps<TFieldValues, TName> & {
+  options: FieldOption[]
+  placeholder?: string
+}) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => (
+        <FormItem className={className}>
+          {label && <FormLabel>{label}</FormLabel>}
+          <Select
+            value={field.value ?? ""}
+            onValueChange={field.onChange}
+            disabled={field.disabled}
+            name={field.name}
+          >
+            <FormControl>
+              <SelectTrigger ref={field.ref} onBlur={field.onBlur}>
+                <SelectValue placeholder={placeholder} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  disabled={option.disabled}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function CheckboxField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+}: BaseFieldProps<TFieldValues, TName>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => (
+        <FormItem
+          className={cn(
+            "flex flex-row items-start space-x-3 space-y-0",
+            className
+          )}
+        >
+          <FormControl>
+            <Checkbox
+              ref={field.ref}
+              name={field.name}
+              checked={Boolean(field.value)}
+              onCheckedChange={(checked) => field.onChange(checked === true)}
+              onBlur={field.onBlur}
+              disabled={field.disabled}
+            />
+          </FormControl>
+          <div className="space-y-1 leading-none">
+            {label && <FormLabel>{label}</FormLabel>}
+            {description && <FormDescription>{description}</FormDescription>}
+            <FormMessage />
+          </div>
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function RadioGroupField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+  options,
+}: BaseFieldProps<TFieldValues, TName> & { options: FieldOption[] }) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => (
+        <FormItem className={cn("space-y-3", className)}>
+          {label && <FormLabel>{label}</FormLabel>}
+          <FormControl>
+            <RadioGroup
+              ref={field.ref}
+              name={field.name}
+              value={field.value ?? ""}
+              onValueChange={field.onChange}
+              onBlur={field.onBlur}
+              disabled={field.disabled}
+              className="flex flex-col space-y-1"
+            >
+              {options.map((option) => {
+                const id = `${field.name}-${option.value}`
+                return (
+                  <div
+                    key={option.value}
+                    className="flex items-center space-x-3"
+                  >
+                    <RadioGroupItem
+                      id={id}
+                      value={option.value}
+                      disabled={option.disabled}
+                    />
+                    <label htmlFor={id} className="text-sm font-normal">
+                      {option.label}
+                    </label>
+                  </div>
+                )
+              })}
+            </RadioGroup>
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function SwitchField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+}: BaseFieldProps<TFieldValues, TName>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => (
+        <FormItem
+          className={cn(
+            "flex flex-row items-center justify-between rounded-lg border p-4",
+            className
+          )}
+        >
+          <div className="space-y-0.5">
+            {label && <FormLabel className="text-base">{label}</FormLabel>}
+            {description && <FormDescription>{description}</FormDescription>}
+            <FormMessage />
+          </div>
+          <FormControl>
+            <Switch
+              ref={field.ref}
+              name={field.name}
+              checked={Boolean(field.value)}
+              onCheckedChange={field.onChange}
+              onBlur={field.onBlur}
+              disabled={field.disabled}
+            />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function SliderField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  name,
+  control,
+  rules,
+  label,
+  description,
+  disabled,
+  className,
+  min = 0,
+  max = 100,
+  step = 1,
+  formatValue,
+  ticks,
+}: BaseFieldProps<TFieldValues, TName> & {
+  min?: number
+  max?: number
+  step?: number
+} & Pick<SliderProps, "formatValue" | "ticks">) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      rules={rules}
+      disabled={disabled}
+      render={({ field }) => {
+        // Single numbers round-trip as numbers, ranges as arrays.
+        const isRange = Array.isArray(field.value)
+        const value: number[] = isRange
+          ? field.value
+          : [typeof field.value === "number" ? field.value : min]
+
+        return (
+          <FormItem className={className}>
+            {label && <FormLabel>{label}</FormLabel>}
+            <FormControl>
+              <Slider
+                ref={field.ref}
+                name={field.name}
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                formatValue={formatValue}
+                ticks={ticks}
+                valueLabel={formatValue ? "auto" : "never"}
+                onValueChange={(next) =>
+                  field.onChange(isRange ? next : next[0])
+                }
+                onBlur={field.onBlur}
+                disabled={field.disabled}
+              />
+            </FormControl>
+            {description && <FormDescription>{description}</FormDescription>}
+            <FormMessage />
+          </FormItem>
+        )
+      }}
+    />
+  )
+}
+
+/** Submit button that disables itself and shows a spinner while submitting. */
+export function SubmitButton({
+  children = "Submit",
+  disabled,
+  ...props
+}: ButtonProps) {
+  const { isSubmitting, isValidating } = useFormState()
+
+  return (
+    <Button type="submit" disabled={disabled || isSubmitting} {...props}>
+      {(isSubmitting || isValidating) && (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden />
+      )}
+      {children}
+    </Button>
+  )
+}
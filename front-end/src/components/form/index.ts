@@ -0,0 +1,12 @@
+export {
+  CheckboxField,
+  InputField,
+  RadioGroupField,
+  SelectField,
+  SliderField,
+  SubmitButton,
+  SwitchField,
+  TextareaField,
+  type FieldOption,
+} from "./fields"
+export { useZodForm } from "./use-zod-form"
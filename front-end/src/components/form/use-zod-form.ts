@@ -0,0 +1,18 @@
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm, type UseFormProps } from "react-hook-form"
+import type { z } from "zod"
+
+/**
+ * `useForm` typed from a zod schema. Async refinements in the schema run on
+ * validation, so server-side checks (e.g. "email taken") fit here too.
+ */
+export function useZodForm<TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  options: Omit<UseFormProps<z.input<TSchema>>, "resolver"> = {}
+) {
+  return useForm<z.input<TSchema>, unknown, z.output<TSchema>>({
+    mode: "onTouched",
+    ...options,
+    resolver: zodResolver(schema),
+  })
+}
@@ -0,0 +1,183 @@
+import { format } from "date-fns"
+import { de, enGB, enUS } from "date-fns/locale"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  editPattern,
+  fromWallTime,
+  parseDateTime,
+  segmentRanges,
+  toWallTime,
+} from "./date-time"
+
+const show = (wall: Date) => format(wall, "yyyy-MM-dd HH:mm")
+
+// New York springs forward at 02:00 on 2024-03-10 and falls back at 02:00 on
+// 2024-11-03; London at 01:00 UTC on 2024-03-31 and 2024-10-27.
+beforeEach(() => {
+  vi.stubEnv("TZ", "America/New_York")
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("toWallTime", () => {
+  it("reads the clock in another zone even inside the browser's DST gap", () => {
+    const instant = new Date("2024-03-10T02:30:00Z")
+    const wall = toWallTime(instant, "Europe/London")
+
+    expect(show(wall)).toBe("2024-03-10 02:30")
+    expect(fromWallTime(wall, "Europe/London")).toEqual(instant)
+  })
+
+  it("reads local time when no zone is given", () => {
+    expect(show(toWallTime(new Date("2024-03-10T07:30:00Z")))).toBe(
+      "2024-03-10 03:30"
+    )
+    expect(show(toWallTime(new Date("2024-11-03T05:30:00Z")))).toBe(
+      "2024-11-03 01:30"
+    )
+    expect(show(toWallTime(new Date("2024-11-03T06:30:00Z")))).toBe(
+      "2024-11-03 01:30"
+    )
+  })
+})
+
+describe("fromWallTime", () => {
+  it.each([
+    ["spring forward", "Europe/London", "2024-03-31T00:00:00Z"],
+    ["fall back", "Europe/London", "2024-10-27T00:00:00Z"],
+    ["spring forward", "America/New_York", "2024-03-10T05:00:00Z"],
+    ["fall back", "America/New_York", "2024-11-03T04:00:00Z"],
+  ])("round-trips every instant across %s in %s", (_, zone, start) => {
+    for (let i = 0; i < 12; i++) {
+      const instant = new Date(Date.parse(start) + i * 15 * 60_000)
+      const wall = toWallTime(instant, zone)
+      // The repeated hour reads the same twice; it must map back to a
+      // matching reading, not necessarily the same instant.
+      expect(toWallTime(fromWallTime(wall, zone), zone)).toEqual(wall)
+    }
+  })
+
+  it("maps the repeated hour back to one of its instants", () => {
+    const wall = toWallTime(new Date("2024-11-03T05:30:00Z"))
+    expect(["2024-11-03T05:30:00.000Z", "2024-11-03T06:30:00.000Z"]).toContain(
+      fromWallTime(wall).toISOString()
+    )
+  })
+
+  it("moves a reading in the zone's own gap past the transition", () => {
+    const wall = toWallTime(new Date("2024-03-31T01:30:00Z"), "UTC")
+    const instant = fromWallTime(wall, "Europe/London")
+
+    expect(show(wall)).toBe("2024-03-31 01:30")
+    expect(show(toWallTime(instant, "Europe/London"))).toBe("2024-03-31 02:30")
+  })
+})
+
+describe("parseDateTime", () => {
+  const reference = new Date("2024-06-15T12:00:00Z")
+
+  it("tries each locale's short format in order", () => {
+    const options = {
+      locales: [enUS, enGB, de],
+      granularity: "minute" as const,
+      referenceDate: reference,
+    }
+
+    expect(show(parseDateTime("03/04/2024 2:30 PM", options)!)).toBe(
+      "2024-03-04 14:30"
+    )
+    expect(show(parseDateTime("31/12/2024 14:30", options)!)).toBe(
+      "2024-12-31 14:30"
+    )
+    expect(show(parseDateTime("31.12.2024 14:30", options)!)).toBe(
+      "2024-12-31 14:30"
+    )
+    expect(parseDateTime("not a date", options)).toBeNull()
+  })
+
+  it("accepts common long formats and ISO dates", () => {
+    const options = { locales: [enUS], granularity: "day" as const }
+
+    expect(show(parseDateTime("March 4, 2024", options)!)).toBe(
+      "2024-03-04 00:00"
+    )
+    expect(show(parseDateTime("2024-03-04", options)!)).toBe("2024-03-04 00:00")
+    expect(parseDateTime("03/04/24", options)).not.toBeNull()
+    expect(parseDateTime("  ", options)).toBeNull()
+  })
+
+  it("keeps an ISO reading without an offset, even in the browser's gap", () => {
+    const wall = parseDateTime("2024-03-10T02:30", {
+      locales: [enUS],
+      granularity: "minute",
+      timeZone: "Europe/London",
+    })!
+
+    expect(show(wall)).toBe("2024-03-10 02:30")
+    expect(fromWallTime(wall, "Europe/London").toISOString()).toBe(
+      "2024-03-10T02:30:00.000Z"
+    )
+  })
+
+  it("reads an ISO instant in the target zone", () => {
+    const wall = parseDateTime("2024-07-01T12:00:00Z", {
+      locales: [enUS],
+      granularity: "minute",
+      timeZone: "Asia/Tokyo",
+    })!
+
+    expect(show(wall)).toBe("2024-07-01 21:00")
+  })
+
+  it("parses typed text inside the browser's gap without shifting it", () => {
+    const wall = parseDateTime("03/10/2024 2:30 AM", {
+      locales: [enUS],
+      granularity: "minute",
+      timeZone: "Europe/London",
+    })!
+
+    expect(show(wall)).toBe("2024-03-10 02:30")
+  })
+})
+
+describe("editPattern", () => {
+  it("pads every field of the locale's short pattern", () => {
+    expect(editPattern(enUS, "day")).toBe("MM/dd/yyyy")
+    expect(editPattern(enUS, "minute")).toBe("MM/dd/yyyy hh:mm a")
+    expect(editPattern(enGB, "minute")).toBe("dd/MM/yyyy HH:mm")
+    expect(editPattern(de, "minute")).toBe("dd.MM.yyyy HH:mm")
+  })
+})
+
+describe("segmentRanges", () => {
+  it("locates each field in the formatted text", () => {
+    const wall = toWallTime(new Date("2024-03-04T14:05:00Z"), "UTC")
+    const pattern = editPattern(enUS, "minute")
+
+    expect(format(wall, pattern, { locale: enUS })).toBe("03/04/2024 02:05 PM")
+    expect(segmentRanges(pattern, wall, enUS)).toEqual([
+      { segment: "month", start: 0, end: 2 },
+      { segment: "day", start: 3, end: 5 },
+      { segment: "year", start: 6, end: 10 },
+      { segment: "hour", start: 11, end: 13 },
+      { segment: "minute", start: 14, end: 16 },
+      { segment: "period", start: 17, end: 19 },
+    ])
+  })
+
+  it("follows the locale's field order", () => {
+    const wall = toWallTime(new Date("2024-03-04T14:05:00Z"), "UTC")
+    const ranges = segmentRanges(editPattern(de, "minute"), wall, de)
+
+    expect(ranges.map((r) => r.segment)).toEqual([
+      "day",
+      "month",
+      "year",
+      "hour",
+      "minute",
+    ])
+  })
+})
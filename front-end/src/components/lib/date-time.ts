@@ -0,0 +1,294 @@
+import {
+  format,
+  isValid,
+  parse,
+  parseISO,
+  startOfMinute,
+  type Locale,
+} from "date-fns"
+
+/**
+ * Date-time helpers for inputs. A "wall time" is a `WallDate` whose fields
+ * (year, month, …, minute) spell out the clock reading in some time zone,
+ * which lets `date-fns` format, parse and step it without a tz library.
+ */
+
+export type DateTimeGranularity = "day" | "minute"
+
+export type DateTimeSegment =
+  "year" | "month" | "day" | "hour" | "minute" | "period"
+
+/**
+ * A `Date` whose local getters and setters use its UTC fields. Wall times
+ * live there so a reading that falls in the browser's own DST gap isn't
+ * shifted by an hour. `date-fns` keeps the class through `constructDateFrom`.
+ */
+export class WallDate extends Date {
+  [Symbol.for("constructDateFrom")](value: Date | number | string) {
+    return new WallDate(+new Date(value))
+  }
+
+  override getTimezoneOffset() {
+    return 0
+  }
+  override getFullYear() {
+    return this.getUTCFullYear()
+  }
+  override getMonth() {
+    return this.getUTCMonth()
+  }
+  override getDate() {
+    return this.getUTCDate()
+  }
+  override getDay() {
+    return this.getUTCDay()
+  }
+  override getHours() {
+    return this.getUTCHours()
+  }
+  override getMinutes() {
+    return this.getUTCMinutes()
+  }
+  override getSeconds() {
+    return this.getUTCSeconds()
+  }
+  override getMilliseconds() {
+    return this.getUTCMilliseconds()
+  }
+  override setFullYear(...args: Parameters<Date["setUTCFullYear"]>) {
+    return this.setUTCFullYear(...args)
+  }
+  override setMonth(...args: Parameters<Date["setUTCMonth"]>) {
+    return this.setUTCMonth(...args)
+  }
+  override setDate(...args: Parameters<Date["setUTCDate"]>) {
+    return this.setUTCDate(...args)
+  }
+  override setHours(...args: Parameters<Date["setUTCHours"]>) {
+    return this.setUTCHours(...args)
+  }
+  override setMinutes(...args: Parameters<Date["setUTCMinutes"]>) {
+    return this.setUTCMinutes(...args)
+  }
+  override setSeconds(...args: Parameters<Date["setUTCSeconds"]>) {
+    return this.setUTCSeconds(...args)
+  }
+  override setMilliseconds(...args: Parameters<Date["setUTCMilliseconds"]>) {
+    return this.setUTCMilliseconds(...args)
+  }
+}
+
+const wallContext = (value: Date | number | string) =>
+  new WallDate(+new Date(value))
+
+export function toDate(value: string | Date | null | undefined) {
+  if (value == null || value === "") return null
+  const date = typeof value === "string" ? parseISO(value) : value
+  return isValid(date) ? date : null
+}
+
+function zonedFormatter(timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  })
+}
+
+/** The clock reading in `timeZone` at `instant`; local time when omitted. */
+export function toWallTime(instant: Date, timeZone?: string) {
+  if (!timeZone) {
+    return new WallDate(
+      Date.UTC(
+        instant.getFullYear(),
+        instant.getMonth(),
+        instant.getDate(),
+        instant.getHours(),
+        instant.getMinutes(),
+        instant.getSeconds(),
+        instant.getMilliseconds()
+      )
+    )
+  }
+  const parts = Object.fromEntries(
+    zonedFormatter(timeZone)
+      .formatToParts(instant)
+      .map((p) => [p.type, Number(p.value)])
+  )
+  return new WallDate(
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      instant.getUTCMilliseconds()
+    )
+  )
+}
+
+/** Inverse of `toWallTime`: the instant at which `timeZone` reads `wall`. */
+export function fromWallTime(wall: Date, timeZone?: string) {
+  if (!timeZone) {
+    return new Date(
+      wall.getUTCFullYear(),
+      wall.getUTCMonth(),
+      wall.getUTCDate(),
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds(),
+      wall.getUTCMilliseconds()
+    )
+  }
+  // Two passes settle the offset, including across DST transitions.
+  const target = wall.getTime()
+  let guess = target
+  for (let i = 0; i < 2; i++) {
+    guess += target - toWallTime(new Date(guess), timeZone).getTime()
+  }
+  return new Date(guess)
+}
+
+/**
+ * The locale's short date (and time) pattern with every field padded to a
+ * fixed width, so each segment keeps its position while editing.
+ */
+export function editPattern(locale: Locale, granularity: DateTimeGranularity) {
+  const date = locale
+    .formatLong!.date({ width: "short" })
+    .replace(/d+/g, "dd")
+    .replace(/M+/g, "MM")
+    .replace(/y+/g, "yyyy")
+  if (granularity === "day") return date
+
+  const time = locale
+    .formatLong!.time({ width: "short" })
+    .replace(/h+/g, "hh")
+    .replace(/H+/g, "HH")
+    .replace(/m+/g, "mm")
+    .replace(/:ss|s+/g, "")
+  return `${date} ${time}`
+}
+
+const segmentForToken: Record<string, DateTimeSegment> = {
+  y: "year",
+  M: "month",
+  d: "day",
+  h: "hour",
+  H: "hour",
+  m: "minute",
+  a: "period",
+}
+
+export interface SegmentRange {
+  segment: DateTimeSegment
+  start: number
+  end: number
+}
+
+/** Where each field of `pattern` lands in `format(wall, pattern)`. */
+export function segmentRanges(
+  pattern: string,
+  wall: Date,
+  locale: Locale
+): SegmentRange[] {
+  const ranges: SegmentRange[] = []
+  const tokens = pattern.match(/'[^']*'|([a-zA-Z])\1*|[^a-zA-Z']+/g) ?? []
+  let offset = 0
+
+  for (const token of tokens) {
+    const text = format(wall, token, { locale })
+    const segment = segmentForToken[token[0]]
+    if (segment) {
+      ranges.push({ segment, start: offset, end: offset + text.length })
+    }
+    offset += text.length
+  }
+  return ranges
+}
+
+/** Patterns worth trying for typed input, most specific first. */
+function candidatePatterns(locale: Locale, granularity: DateTimeGranularity) {
+  const date = locale.formatLong!.date({ width: "short" })
+  const dates = [
+    date,
+    date.replace(/yyyy|y+/g, "yy"),
+    "yyyy-MM-dd",
+    "d MMM yyyy",
+    "d MMMM yyyy",
+    "MMM d, yyyy",
+    "MMMM d, yyyy",
+  ]
+  if (granularity === "day") return dates
+
+  const time = locale.formatLong!.time({ width: "short" })
+  const times = [time, "HH:mm", "h:mm a", "h a"]
+  return [
+    ...dates.flatMap((d) =>
+      times.flatMap((t) => [`${d} ${t}`, `${d}, ${t}`, `${d}'T'${t}`])
+    ),
+    ...dates,
+  ]
+}
+
+/**
+ * Parses typed text as a wall time in `timeZone`, trying ISO first, then each
+ * locale's short formats and a few common long ones. Returns null when
+ * nothing matches.
+ */
+export function parseDateTime(
+  text: string,
+  {
+    locales,
+    granularity,
+    timeZone,
+    referenceDate = new Date(),
+  }: {
+    locales: Locale[]
+    granularity: DateTimeGranularity
+    timeZone?: string
+    referenceDate?: Date
+  }
+) {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    // With an offset it names an instant; without one, a wall time.
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+      const date = toDate(trimmed)
+      return date && toWallTime(date, timeZone)
+    }
+    const wall = parseISO(trimmed, { in: wallContext })
+    return isValid(wall) ? wall : null
+  }
+
+  const reference = toWallTime(referenceDate, timeZone)
+  for (const locale of locales) {
+    for (const pattern of candidatePatterns(locale, granularity)) {
+      const parsed = parse(trimmed, pattern, reference, { locale })
+      if (isValid(parsed) && parsed.getFullYear() > 999) {
+        return startOfMinute(parsed)
+      }
+    }
+  }
+  return null
+}
+
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: "timeZone") => string[]
+  }
+  const zones = intl.supportedValuesOf?.("timeZone") ?? []
+  return zones.includes("UTC") ? zones : ["UTC", ...zones]
+}
+
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
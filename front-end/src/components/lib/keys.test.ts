@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { comboId, formatCombo, matchesCombo, parseCombo } from "./keys"
+
+function keydown(key: string, init: KeyboardEventInit = {}) {
+  return new KeyboardEvent("keydown", { key, ...init })
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("parseCombo", () => {
+  it("maps mod to ⌘ on Apple platforms and Ctrl elsewhere", () => {
+    expect(parseCombo("mod+k", true)).toMatchObject({ meta: true, ctrl: false })
+    expect(parseCombo("mod+k", false)).toMatchObject({
+      meta: false,
+      ctrl: true,
+    })
+  })
+
+  it("reads the platform from the browser by default", () => {
+    const platform = vi.spyOn(navigator, "platform", "get")
+
+    platform.mockReturnValue("MacIntel")
+    expect(comboId(parseCombo("mod+k"))).toBe("meta+k")
+    expect(formatCombo("mod+k")).toBe("⌘K")
+
+    platform.mockReturnValue("Win32")
+    expect(comboId(parseCombo("mod+k"))).toBe("ctrl+k")
+    expect(formatCombo("mod+k")).toBe("Ctrl+K")
+  })
+
+  it("normalizes case, modifier spellings and key aliases", () => {
+    expect(comboId(parseCombo("Control+Option+Shift+Esc", false))).toBe(
+      "ctrl+alt+shift+escape"
+    )
+    expect(comboId(parseCombo("cmd+up", false))).toBe("meta+arrowup")
+    expect(comboId(parseCombo("space", false))).toBe(" ")
+  })
+
+  it("reads a trailing + as the plus key", () => {
+    expect(parseCombo("mod++", false)).toMatchObject({ key: "+", ctrl: true })
+    expect(parseCombo("mod+plus", false).key).toBe("+")
+  })
+
+  it("gives equivalent spellings the same id", () => {
+    expect(comboId(parseCombo("shift+ctrl+K", false))).toBe(
+      comboId(parseCombo("ctrl+shift+k", false))
+    )
+    expect(comboId(parseCombo("mod+k", true))).toBe(
+      comboId(parseCombo("meta+k", true))
+    )
+  })
+})
+
+describe("matchesCombo", () => {
+  it("requires exactly the combo's modifiers", () => {
+    const combo = parseCombo("ctrl+k", false)
+
+    expect(matchesCombo(combo, keydown("k", { ctrlKey: true }))).toBe(true)
+    expect(matchesCombo(combo, keydown("K", { ctrlKey: true }))).toBe(true)
+    expect(matchesCombo(combo, keydown("k"))).toBe(false)
+    expect(
+      matchesCombo(combo, keydown("k", { ctrlKey: true, shiftKey: true }))
+    ).toBe(false)
+  })
+
+  it("ignores shift for symbols that need it to be typed", () => {
+    const combo = parseCombo("?", false)
+
+    expect(matchesCombo(combo, keydown("?", { shiftKey: true }))).toBe(true)
+    expect(matchesCombo(combo, keydown("?"))).toBe(true)
+  })
+
+  it("falls back to the physical key when Option changes the character", () => {
+    const combo = parseCombo("alt+k", true)
+
+    expect(
+      matchesCombo(combo, keydown("˚", { altKey: true, code: "KeyK" }))
+    ).toBe(true)
+    expect(
+      matchesCombo(combo, keydown("˚", { altKey: true, code: "KeyJ" }))
+    ).toBe(false)
+  })
+})
+
+describe("formatCombo", () => {
+  it("writes combos the way each platform does", () => {
+    expect(formatCombo("mod+shift+k", true)).toBe("⇧⌘K")
+    expect(formatCombo("mod+shift+k", false)).toBe("Ctrl+Shift+K")
+    expect(formatCombo("shift+?", false)).toBe("?")
+    expect(formatCombo("esc", false)).toBe("Esc")
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Keyboard combo helpers. Combos are written like `"mod+shift+k"` where `mod`
+ * means ⌘ on Apple platforms and Ctrl everywhere else.
+ */
+
+export interface KeyCombo {
+  key: string
+  ctrl: boolean
+  meta: boolean
+  alt: boolean
+  shift: boolean
+}
+
+export function isApplePlatform() {
+  if (typeof navigator === "undefined") return false
+  const platform =
+    (navigator as Navigator & { userAgentData?: { platform?: string } })
+      .userAgentData?.platform ?? navigator.platform
+  return /mac|iphone|ipad|ipod/i.test(platform)
+}
+
+const keyAliases: Record<string, string> = {
+  esc: "escape",
+  return: "enter",
+  space: " ",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  del: "delete",
+  plus: "+",
+}
+
+export function parseCombo(combo: string, apple = isApplePlatform()): KeyCombo {
+  const parts = combo.toLowerCase().split("+")
+  // "mod++" splits into ["mod", "", ""]; the trailing empties mean "+".
+  const key = parts.pop() || "+"
+  const result: KeyCombo = {
+    key: keyAliases[key] ?? key,
+    ctrl: false,
+    meta: false,
+    alt: false,
+    shift: false,
+  }
+
+  for (const modifier of parts) {
+    switch (modifier) {
+      case "mod":
+        if (apple) result.meta = true
+        else result.ctrl = true
+        break
+      case "ctrl":
+      case "control":
+        result.ctrl = true
+        break
+      case "cmd":
+      case "meta":
+        result.meta = true
+        break
+      case "alt":
+      case "option":
+        result.alt = true
+        break
+      case "shift":
+        result.shift = true
+        break
+    }
+  }
+
+  return result
+}
+
+/** A canonical string for a combo, so equivalent spellings compare equal. */
+export function comboId(combo: KeyCombo) {
+  return [
+    combo.ctrl && "ctrl",
+    combo.meta && "meta",
+    combo.alt && "alt",
+    combo.shift && "shift",
+    combo.key,
+  ]
+    .filter(Boolean)
+    .join("+")
+}
+
+/** Punctuation like "?" already implies whichever modifier types it. */
+function isSymbol(key: string) {
+  return key.length === 1 && !/[a-z0-9]/.test(key)
+}
+
+function codeFor(key: string) {
+  if (/^[a-z]$/.test(key)) return `Key${key.toUpperCase()}`
+  if (/^[0-9]$/.test(key)) return `Digit${key}`
+  return null
+}
+
+export function matchesCombo(combo: KeyCombo, event: KeyboardEvent) {
+  if (
+    event.ctrlKey !== combo.ctrl ||
+    event.metaKey !== combo.meta ||
+    event.altKey !== combo.alt ||
+    (!isSymbol(combo.key) && event.shiftKey !== combo.shift)
+  ) {
+    return false
+  }
+
+  const key = event.key.toLowerCase()
+  if (key === combo.key) return true
+  // Option on macOS turns letters into symbols ("alt+k" types "˚"), so fall
+  // back to the physical key for letters and digits.
+  return codeFor(combo.key) === event.code
+}
+
+const appleSymbols = {
+  ctrl: "⌃",
+  alt: "⌥",
+  shift: "⇧",
+  meta: "⌘",
+}
+
+const keyLabels: Record<string, string> = {
+  " ": "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  enter: "↵",
+  escape: "Esc",
+  backspace: "⌫",
+  delete: "Del",
+  tab: "Tab",
+}
+
+function keyLabel(key: string) {
+  return keyLabels[key] ?? (key.length === 1 ? key.toUpperCase() : key)
+}
+
+/** Renders a combo the way the current platform writes it: "⌘⇧K" or "Ctrl+Shift+K". */
+export function formatCombo(combo: string, apple = isApplePlatform()) {
+  const parsed = parseCombo(combo, apple)
+  const key = keyLabel(parsed.key)
+
+  if (apple) {
+    return (
+      (parsed.ctrl ? appleSymbols.ctrl : "") +
+      (parsed.alt ? appleSymbols.alt : "") +
+      (parsed.shift && !isSymbol(parsed.key) ? appleSymbols.shift : "") +
+      (parsed.meta ? appleSymbols.meta : "") +
+      key
+    )
+  }
+
+  return [
+    parsed.ctrl && "Ctrl",
+    parsed.meta && "Win",
+    parsed.alt && "Alt",
+    parsed.shift && !isSymbol(parsed.key) && "Shift",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+")
+}
+
+export function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  )
+}
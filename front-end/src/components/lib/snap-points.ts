@@ -0,0 +1,48 @@
+/**
+ * Where a dragged bottom sheet settles. Heights are in pixels of sheet
+ * showing above the bottom edge; a result of null means "dismiss".
+ */
+
+/** How far ahead (in ms) a release velocity projects the sheet. */
+const PROJECTION_MS = 150
+
+export interface SnapRelease {
+  /** Visible heights the sheet may rest at, any order. */
+  snapHeights: number[]
+  /** Visible height when the pointer was released. */
+  height: number
+  /** Release velocity in px/ms; positive means moving down. */
+  velocity: number
+  /** Whether settling below the lowest snap closes the sheet. */
+  dismissible: boolean
+}
+
+/** Index into `snapHeights` to settle at, or null to dismiss. */
+export function resolveSnap({
+  snapHeights,
+  height,
+  velocity,
+  dismissible,
+}: SnapRelease): number | null {
+  const projected = height - velocity * PROJECTION_MS
+  let best: number | null = null
+  let bestDistance = dismissible ? Math.abs(projected) : Infinity
+
+  snapHeights.forEach((snap, index) => {
+    const distance = Math.abs(projected - snap)
+    if (distance < bestDistance) {
+      best = index
+      bestDistance = distance
+    }
+  })
+  return best
+}
+
+/**
+ * Damps movement past `limit` so over-dragging feels elastic instead of
+ * stopping dead.
+ */
+export function rubberBand(value: number, limit: number) {
+  if (value <= limit) return value
+  return limit + (value - limit) / 3
+}
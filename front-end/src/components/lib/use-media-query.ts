@@ -0,0 +1,15 @@
+import * as React from "react"
+
+/** Whether `query` currently matches; false where `matchMedia` is missing. */
+export function useMediaQuery(query: string) {
+  return React.useSyncExternalStore(
+    (onChange) => {
+      if (!window.matchMedia) return () => {}
+      const list = window.matchMedia(query)
+      list.addEventListener("change", onChange)
+      return () => list.removeEventListener("change", onChange)
+    },
+    () => Boolean(window.matchMedia?.(query).matches),
+    () => false
+  )
+}
@@ -0,0 +1,115 @@
+import * as React from "react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { render, screen } from "../../test/render"
+import { useVirtualizer } from "./use-virtualizer"
+
+interface Row {
+  id: string
+  height: number
+}
+
+function List({ rows, keyed = true }: { rows: Row[]; keyed?: boolean }) {
+  const scrollRef = React.useRef<HTMLDivElement>(null)
+  const getItemKey = React.useCallback(
+    (index: number) => rows[index].id,
+    [rows]
+  )
+  const { virtualItems, measureElement } = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: 30,
+    measure: true,
+    getItemKey: keyed ? getItemKey : undefined,
+  })
+
+  return (
+    <div ref={scrollRef}>
+      {virtualItems.map((item) => (
+        <div
+          key={rows[item.index].id}
+          ref={measureElement}
+          data-index={item.index}
+          data-height={rows[item.index].height}
+        >
+          {rows[item.index].id}: {item.size}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const observer = {
+  observe: vi.fn(),
+  unobserve: vi.fn(),
+  disconnect: vi.fn(),
+}
+
+beforeEach(() => {
+  vi.stubGlobal(
+    "ResizeObserver",
+    vi.fn(() => observer)
+  )
+  vi.spyOn(Element.prototype, "getBoundingClientRect").mockImplementation(
+    function (this: Element) {
+      const height = Number((this as HTMLElement).dataset.height ?? 0)
+      return { height } as DOMRect
+    }
+  )
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+  Object.values(observer).forEach((fn) => fn.mockReset())
+})
+
+describe("useVirtualizer", () => {
+  it("unobserves rows that unmount and disconnects on unmount", () => {
+    const rows = [
+      { id: "a", height: 40 },
+      { id: "b", height: 40 },
+      { id: "c", height: 40 },
+    ]
+    const { rerender, unmount } = render(<List rows={rows} />)
+    const [, b, c] = screen.getAllByText(/: 40$/)
+    expect(observer.observe).toHaveBeenCalledWith(b)
+
+    rerender(<List rows={rows.slice(0, 1)} />)
+    expect(observer.unobserve.mock.calls).toEqual([[b], [c]])
+
+    unmount()
+    expect(observer.disconnect).toHaveBeenCalled()
+  })
+
+  it("keeps measured sizes with their rows when the order changes", () => {
+    const a = { id: "a", height: 50 }
+    const b = { id: "b", height: 10 }
+    const { rerender } = render(<List rows={[a, b]} />)
+    expect(screen.getByText("a: 50")).toBeInTheDocument()
+
+    rerender(<List rows={[b, a]} />)
+
+    expect(screen.getByText("b: 10")).toBeInTheDocument()
+    expect(screen.getByText("a: 50")).toBeInTheDocument()
+  })
+
+  it("drops index-keyed sizes when the count changes", () => {
+    const { rerender } = render(
+      <List keyed={false} rows={[{ id: "a", height: 50 }]} />
+    )
+    expect(screen.getByText("a: 50")).toBeInTheDocument()
+
+    rerender(
+      <List
+        keyed={false}
+        rows={[
+          { id: "b", height: 0 },
+          { id: "c", height: 0 },
+        ]}
+      />
+    )
+
+    expect(screen.getByText("b: 30")).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,248 @@
+import * as React from "react"
+
+export interface VirtualItem {
+  index: number
+  start: number
+  size: number
+  end: number
+}
+
+export type ScrollAlign = "auto" | "start" | "center" | "end"
+
+export interface UseVirtualizerOptions {
+  count: number
+  getScrollElement: () => HTMLElement | null
+  /** Fixed row size, or an estimate per index when `measure` is on. */
+  estimateSize: number | ((index: number) => number)
+  /** Observe rendered items and use their real size instead of the estimate. */
+  measure?: boolean
+  /** Extra items rendered above and below the visible window. */
+  overscan?: number
+  /** Space before the first item inside the scroll element (e.g. a header). */
+  paddingStart?: number
+  /**
+   * Stable identity for the item at `index`, e.g. a row id. Measured sizes
+   * are cached by it, so pass one when items can be sorted or filtered;
+   * without it the cache is keyed by index and cleared when `count` changes.
+   */
+  getItemKey?: (index: number) => React.Key
+}
+
+/** Index of the first item whose end lies past `offset`. */
+function findStartIndex(ends: Float64Array, offset: number) {
+  let low = 0
+  let high = ends.length - 1
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (ends[mid] <= offset) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+/**
+ * Windowing for long lists and tables. Only the items intersecting the
+ * scroll element's viewport (plus `overscan`) are returned, together with
+ * the total size so callers can pad the unmounted space.
+ */
+export function useVirtualizer({
+  count,
+  getScrollElement,
+  estimateSize,
+  measure = false,
+  overscan = 6,
+  paddingStart = 0,
+  getItemKey,
+}: UseVirtualizerOptions) {
+  const [scrollOffset, setScrollOffset] = React.useState(0)
+  const [viewportSize, setViewportSize] = React.useState(0)
+  const [sizes, setSizes] = React.useState(() => new Map<React.Key, number>())
+
+  const getScrollElementRef = React.useRef(getScrollElement)
+  getScrollElementRef.current = getScrollElement
+  const getItemKeyRef = React.useRef(getItemKey)
+  getItemKeyRef.current = getItemKey
+
+  // Index-keyed sizes belong to whatever used to sit at that index, so they
+  // are dropped while rendering, before the new rows measure themselves.
+  const [sizedCount, setSizedCount] = React.useState(count)
+  if (sizedCount !== count) {
+    setSizedCount(count)
+    if (!getItemKey) setSizes(new Map())
+  }
+
+  const estimate = React.useCallback(
+    (index: number) =>
+      typeof estimateSize === "number" ? estimateSize : estimateSize(index),
+    [estimateSize]
+  )
+
+  React.useLayoutEffect(() => {
+    const element = getScrollElementRef.current()
+    if (!element) return
+
+    const sync = () => {
+      setScrollOffset(element.scrollTop)
+      setViewportSize(element.clientHeight)
+    }
+    sync()
+    element.addEventListener("scroll", sync, { passive: true })
+
+    let observer: ResizeObserver | undefined
+    if (typeof ResizeObserver !== "undefined") {
+      observer = new ResizeObserver(sync)
+      observer.observe(element)
+    }
+
+    return () => {
+      element.removeEventListener("scroll", sync)
+      observer?.disconnect()
+    }
+  }, [])
+
+  // Prefix sums of item ends. Fixed-size lists skip this entirely.
+  const ends = React.useMemo(() => {
+    if (typeof estimateSize === "number" && !measure) return null
+    const result = new Float64Array(count)
+    let offset = 0
+    for (let i = 0; i < count; i++) {
+      offset += sizes.get(getItemKey ? getItemKey(i) : i) ?? estimate(i)
+      result[i] = offset
+    }
+    return result
+  }, [count, estimate, estimateSize, measure, sizes, getItemKey])
+
+  const getItem = React.useCallback(
+    (index: number): VirtualItem => {
+      if (!ends) {
+        const size = estimateSize as number
+        return { index, start: index * size, size, end: (index + 1) * size }
+      }
+      const end = ends[index]
+      const start = index === 0 ? 0 : ends[index - 1]
+      return { index, start, size: end - start, end }
+    },
+    [ends, estimateSize]
+  )
+
+  const totalSize = count === 0 ? 0 : getItem(count - 1).end
+
+  const virtualItems = React.useMemo(() => {
+    if (count === 0) return []
+    const top = Math.max(0, scrollOffset - paddingStart)
+    const bottom = top + viewportSize
+
+    let first: number
+    if (!ends) {
+      first = Math.floor(top / (estimateSize as number))
+    } else {
+      first = findStartIndex(ends, top)
+    }
+    first = Math.min(Math.max(0, first), count - 1)
+
+    let last = first
+    while (last < count - 1 && getItem(last).end < bottom) last++
+
+    const items: VirtualItem[] = []
+    const from = Math.max(0, first - overscan)
+    const to = Math.min(count - 1, last + overscan)
+    for (let i = from; i <= to; i++) items.push(getItem(i))
+    return items
+  }, [
+    count,
+    scrollOffset,
+    viewportSize,
+    paddingStart,
+    overscan,
+    ends,
+    estimateSize,
+    getItem,
+  ])
+
+  const observerRef = React.useRef<ResizeObserver>()
+  const observed = React.useRef(new Set<Element>())
+
+  React.useEffect(() => {
+    const elements = observed.current
+    return () => {
+      observerRef.current?.disconnect()
+      elements.clear()
+    }
+  }, [])
+
+  // React passes `null` to the ref without saying which row went away, so
+  // rows that scrolled out are found after each commit instead.
+  React.useEffect(() => {
+    for (const element of observed.current) {
+      if (element.isConnected) continue
+      observerRef.current?.unobserve(element)
+      observed.current.delete(element)
+    }
+  })
+
+  const recordSize = React.useCallback((element: Element) => {
+    const index = Number((element as HTMLElement).dataset.index)
+    if (!element.isConnected || Number.isNaN(index)) return
+    const key = getItemKeyRef.current?.(index) ?? index
+    const size = element.getBoundingClientRect().height
+    if (size <= 0) return
+    setSizes((current) => {
+      if (current.get(key) === size) return current
+      const next = new Map(current)
+      next.set(key, size)
+      return next
+    })
+  }, [])
+
+  /** Ref callback for rendered items; requires a `data-index` attribute. */
+  const measureElement = React.useCallback(
+    (element: Element | null) => {
+      if (!element || !measure) return
+      if (!observerRef.current && typeof ResizeObserver !== "undefined") {
+        observerRef.current = new ResizeObserver((entries) =>
+          entries.forEach((entry) => recordSize(entry.target))
+        )
+      }
+      if (observerRef.current && !observed.current.has(element)) {
+        observerRef.current.observe(element)
+        observed.current.add(element)
+      }
+      recordSize(element)
+    },
+    [measure, recordSize]
+  )
+
+  const scrollToIndex = React.useCallback(
+    (index: number, align: ScrollAlign = "auto") => {
+      const element = getScrollElementRef.current()
+      if (!element || count === 0) return
+      const item = getItem(Math.min(Math.max(0, index), count - 1))
+      const itemStart = item.start + paddingStart
+      const itemEnd = item.end + paddingStart
+      const view = element.clientHeight
+      const current = element.scrollTop
+
+      let next = current
+      if (align === "start") next = item.start
+      else if (align === "end") next = itemEnd - view
+      else if (align === "center") next = itemStart - (view - item.size) / 2
+      // "auto": only scroll when the item is outside the area below the
+      // (sticky) leading padding.
+      else if (itemStart - paddingStart < current) next = item.start
+      else if (itemEnd > current + view) next = itemEnd - view
+
+      if (next !== current) {
+        element.scrollTop = Math.max(0, next)
+        setScrollOffset(element.scrollTop)
+      }
+    },
+    [count, getItem, paddingStart]
+  )
+
+  return {
+    virtualItems,
+    totalSize,
+    measureElement,
+    scrollToIndex,
+  }
+}
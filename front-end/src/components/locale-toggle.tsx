@@ -0,0 +1,59 @@
+import * as React from "react"
+import { Languages } from "lucide-react"
+
+import { Button } from "./ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu"
+import { toast } from "./ui/use-toast"
+import { isLocaleCode, localeNames, locales, useI18n } from "../lib/i18n"
+
+export function LocaleToggle() {
+  const { locale, setLocale, loadError, t } = useI18n()
+
+  // Only a new failure should toast, not a switch to another locale.
+  const tRef = React.useRef(t)
+  tRef.current = t
+  React.useEffect(() => {
+    if (!loadError) return
+    toast({
+      variant: "destructive",
+      title: tRef.current("locale.loadFailed", {
+        language: localeNames[loadError.locale],
+      }),
+    })
+  }, [loadError])
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-9 px-0">
+          <Languages className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">{t("locale.label")}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("locale.label")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={locale}
+          onValueChange={(value) => {
+            if (isLocaleCode(value)) setLocale(value)
+          }}
+        >
+          {locales.map((code) => (
+            <DropdownMenuRadioItem key={code} value={code} lang={code}>
+              {localeNames[code]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
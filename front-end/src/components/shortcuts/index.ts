@@ -0,0 +1,19 @@
+export {
+  createShortcutRegistry,
+  defineShortcuts,
+  type ShortcutRegistry,
+} from "./registry"
+export { ShortcutHelpDialog } from "./shortcut-help-dialog"
+export {
+  ShortcutProvider,
+  ShortcutScope,
+  useShortcut,
+  useShortcutBindings,
+  useShortcutConflicts,
+  useShortcutRegistry,
+} from "./shortcut-provider"
+export type {
+  ShortcutBinding,
+  ShortcutConflict,
+  ShortcutDefinition,
+} from "./types"
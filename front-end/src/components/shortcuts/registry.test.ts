@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { createShortcutRegistry, SCOPE_ATTRIBUTE } from "./registry"
+import type { ShortcutDefinition } from "./types"
+
+function definition(id: string, keys: string): ShortcutDefinition {
+  return { id, keys, description: id }
+}
+
+/** `<div scope="outer"><div scope="inner"><button /></div></div>` */
+function scopedButton() {
+  const outer = document.createElement("div")
+  outer.setAttribute(SCOPE_ATTRIBUTE, "outer")
+  const inner = document.createElement("div")
+  inner.setAttribute(SCOPE_ATTRIBUTE, "inner")
+  const button = document.createElement("button")
+  inner.append(button)
+  outer.append(inner)
+  document.body.append(outer)
+  return button
+}
+
+function press(target: EventTarget, key: string) {
+  const event = new KeyboardEvent("keydown", {
+    key,
+    bubbles: true,
+    cancelable: true,
+  })
+  target.dispatchEvent(event)
+  return event
+}
+
+const cleanups: (() => void)[] = []
+
+function setupRegistry() {
+  const registry = createShortcutRegistry()
+  document.addEventListener("keydown", registry.handleKeyDown)
+  cleanups.push(() =>
+    document.removeEventListener("keydown", registry.handleKeyDown)
+  )
+  return registry
+}
+
+afterEach(() => {
+  cleanups.splice(0).forEach((cleanup) => cleanup())
+  document.body.innerHTML = ""
+})
+
+describe("handleKeyDown", () => {
+  it("prefers the innermost scope, then outer scopes, then global", () => {
+    const registry = setupRegistry()
+    const global = vi.fn()
+    const outer = vi.fn()
+    const inner = vi.fn()
+    registry.bind({ definition: definition("global", "g"), handler: global })
+    registry.bind({
+      definition: definition("outer", "g"),
+      handler: outer,
+      scope: "outer",
+    })
+    const unbindInner = registry.bind({
+      definition: definition("inner", "g"),
+      handler: inner,
+      scope: "inner",
+    })
+    const button = scopedButton()
+
+    expect(press(button, "g").defaultPrevented).toBe(true)
+    expect(inner).toHaveBeenCalledTimes(1)
+    expect(outer).not.toHaveBeenCalled()
+
+    unbindInner()
+    press(button, "g")
+    expect(outer).toHaveBeenCalledTimes(1)
+    expect(global).not.toHaveBeenCalled()
+
+    press(document.body, "g")
+    expect(global).toHaveBeenCalledTimes(1)
+    expect(outer).toHaveBeenCalledTimes(1)
+  })
+
+  it("skips scoped bindings when focus is outside their scope", () => {
+    const registry = setupRegistry()
+    const handler = vi.fn()
+    registry.bind({
+      definition: definition("inner", "g"),
+      handler,
+      scope: "inner",
+    })
+
+    expect(press(document.body, "g").defaultPrevented).toBe(false)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("ignores plain keys in inputs unless the binding allows it", () => {
+    const registry = setupRegistry()
+    const plain = vi.fn()
+    const allowed = vi.fn()
+    registry.bind({ definition: definition("plain", "j"), handler: plain })
+    registry.bind({
+      definition: definition("allowed", "k"),
+      handler: allowed,
+      allowInInputs: true,
+    })
+    const input = document.createElement("input")
+    document.body.append(input)
+
+    press(input, "j")
+    press(input, "k")
+
+    expect(plain).not.toHaveBeenCalled()
+    expect(allowed).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("getConflicts", () => {
+  it("reports ids sharing a combo within a scope", () => {
+    const registry = setupRegistry()
+    registry.bind({ definition: definition("save", "ctrl+s"), handler() {} })
+    registry.bind({ definition: definition("search", "Ctrl+S"), handler() {} })
+    registry.bind({
+      definition: definition("submit", "ctrl+s"),
+      handler() {},
+      scope: "form",
+    })
+
+    expect(registry.getConflicts()).toEqual([
+      { keys: "ctrl+s", scope: undefined, ids: ["save", "search"] },
+    ])
+  })
+
+  it("doesn't count one id bound twice as a conflict", () => {
+    const registry = setupRegistry()
+    registry.bind({ definition: definition("save", "ctrl+s"), handler() {} })
+    registry.bind({ definition: definition("save", "ctrl+s"), handler() {} })
+
+    expect(registry.getConflicts()).toEqual([])
+  })
+
+  it("keeps the snapshot stable until the bindings change", () => {
+    const registry = setupRegistry()
+    const listener = vi.fn()
+    registry.subscribe(listener)
+    registry.bind({ definition: definition("save", "ctrl+s"), handler() {} })
+    const unbind = registry.bind({
+      definition: definition("search", "ctrl+s"),
+      handler() {},
+    })
+    const conflicts = registry.getConflicts()
+
+    expect(registry.getConflicts()).toBe(conflicts)
+    expect(listener).toHaveBeenCalledTimes(2)
+
+    unbind()
+    expect(registry.getConflicts()).not.toBe(conflicts)
+    expect(registry.getConflicts()).toEqual([])
+  })
+})
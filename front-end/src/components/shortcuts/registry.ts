@@ -0,0 +1,152 @@
+import {
+  comboId,
+  isEditableTarget,
+  matchesCombo,
+  parseCombo,
+  type KeyCombo,
+} from "../lib/keys"
+import type {
+  ShortcutBinding,
+  ShortcutConflict,
+  ShortcutDefinition,
+} from "./types"
+
+export const SCOPE_ATTRIBUTE = "data-shortcut-scope"
+
+const OPEN_DIALOG_SELECTOR =
+  '[role="dialog"][data-state="open"], [role="alertdialog"][data-state="open"]'
+
+/** Declares shortcuts once so they can be bound and displayed by id. */
+export function defineShortcuts<
+  const T extends Record<string, Omit<ShortcutDefinition, "id">>,
+>(definitions: T): { [K in keyof T]: T[K] & { id: K } } {
+  return Object.fromEntries(
+    Object.entries(definitions).map(([id, definition]) => [
+      id,
+      { ...definition, id },
+    ])
+  ) as { [K in keyof T]: T[K] & { id: K } }
+}
+
+interface Entry extends ShortcutBinding {
+  combo: KeyCombo
+}
+
+/** Scope names from the innermost `ShortcutScope` around `target` outwards. */
+function scopesOf(target: EventTarget | null) {
+  const scopes: string[] = []
+  let node = target instanceof Element ? target : null
+  while (node) {
+    const scope = node.getAttribute(SCOPE_ATTRIBUTE)
+    if (scope) scopes.push(scope)
+    node = node.parentElement
+  }
+  return scopes
+}
+
+export function createShortcutRegistry() {
+  const entries = new Set<Entry>()
+  const listeners = new Set<() => void>()
+  let snapshot: ShortcutBinding[] = []
+  let conflictSnapshot: ShortcutConflict[] = []
+
+  function emit() {
+    snapshot = [...entries]
+    conflictSnapshot = findConflicts()
+    listeners.forEach((listener) => listener())
+  }
+
+  /** Keys bound by more than one shortcut id within the same scope. */
+  function findConflicts(): ShortcutConflict[] {
+    const byCombo = new Map<string, Entry[]>()
+    for (const entry of entries) {
+      const key = `${entry.scope ?? ""}\u0000${comboId(entry.combo)}`
+      byCombo.set(key, [...(byCombo.get(key) ?? []), entry])
+    }
+
+    return [...byCombo.values()]
+      .map((list) => ({
+        keys: list[0].definition.keys,
+        scope: list[0].scope,
+        ids: [...new Set(list.map((e) => e.definition.id))],
+      }))
+      .filter((conflict) => conflict.ids.length > 1)
+  }
+
+  function bind(binding: ShortcutBinding) {
+    const entry: Entry = {
+      ...binding,
+      combo: parseCombo(binding.definition.keys),
+    }
+    entries.add(entry)
+    emit()
+    return () => {
+      entries.delete(entry)
+      emit()
+    }
+  }
+
+  /**
+   * Runs the best matching binding for `event`: bindings in the innermost
+   * focused scope win over outer scopes, which win over global ones.
+   */
+  function handleKeyDown(event: KeyboardEvent) {
+    if (event.defaultPrevented || event.isComposing) return
+
+    const scopes = scopesOf(event.target)
+    const editable = isEditableTarget(event.target)
+    const target = event.target instanceof Element ? event.target : null
+    const dialog = target?.closest(OPEN_DIALOG_SELECTOR) ?? null
+    const dialogOpen =
+      dialog !== null || document.querySelector(OPEN_DIALOG_SELECTOR) !== null
+
+    let best: Entry | null = null
+    let bestRank = Infinity
+
+    for (const entry of entries) {
+      if (!matchesCombo(entry.combo, event)) continue
+
+      const rank = entry.scope ? scopes.indexOf(entry.scope) : scopes.length
+      if (rank === -1) continue
+
+      const hasModifier =
+        entry.combo.ctrl || entry.combo.meta || entry.combo.alt
+      if (editable && !(entry.allowInInputs ?? hasModifier)) continue
+
+      // While a dialog is open only scopes inside it stay live, unless the
+      // binding opts in.
+      if (dialogOpen && !entry.allowInDialogs) {
+        const scopeElement = entry.scope
+          ? target?.closest(`[${SCOPE_ATTRIBUTE}="${entry.scope}"]`)
+          : null
+        if (!dialog || !scopeElement || !dialog.contains(scopeElement)) continue
+      }
+
+      if (rank < bestRank) {
+        best = entry
+        bestRank = rank
+      }
+    }
+
+    if (best) {
+      event.preventDefault()
+      best.handler(event)
+    }
+  }
+
+  return {
+    bind,
+    handleKeyDown,
+    getBindings: () => snapshot,
+    /** Updated with the bindings, so it can back `useSyncExternalStore`. */
+    getConflicts: () => conflictSnapshot,
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type ShortcutRegistry = ReturnType<typeof createShortcutRegistry>
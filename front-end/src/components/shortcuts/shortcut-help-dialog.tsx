@@ -0,0 +1,100 @@
+import * as React from "react"
+import { AlertTriangle } from "lucide-react"
+
+import { formatCombo } from "../lib/keys"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog"
+import { ScrollArea } from "../ui/scroll-area"
+import { useShortcutBindings, useShortcutConflicts } from "./shortcut-provider"
+import type { ShortcutDefinition } from "./types"
+
+const DEFAULT_GROUP = "General"
+
+interface ShortcutHelpDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/** Lists every bound shortcut by group and flags keys bound twice. */
+export function ShortcutHelpDialog({
+  open,
+  onOpenChange,
+}: ShortcutHelpDialogProps) {
+  const bindings = useShortcutBindings()
+  const conflicts = useShortcutConflicts()
+
+  const groups = React.useMemo(() => {
+    const byId = new Map<string, ShortcutDefinition>()
+    bindings.forEach((b) => byId.set(b.definition.id, b.definition))
+
+    const grouped = new Map<string, ShortcutDefinition[]>()
+    for (const definition of byId.values()) {
+      const group = definition.group ?? DEFAULT_GROUP
+      grouped.set(group, [...(grouped.get(group) ?? []), definition])
+    }
+    return [...grouped]
+  }, [bindings])
+
+  const conflicting = React.useMemo(
+    () => new Set(conflicts.flatMap((c) => c.ids)),
+    [conflicts]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts available on this page.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-6">
+            {groups.map(([group, definitions]) => (
+              <section key={group} className="space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">
+                  {group}
+                </h3>
+                <dl className="divide-y rounded-md border">
+                  {definitions.map((definition) => (
+                    <div
+                      key={definition.id}
+                      className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+                    >
+                      <dt className="flex items-center gap-2">
+                        {definition.description}
+                        {conflicting.has(definition.id) && (
+                          <span
+                            className="inline-flex items-center gap-1 text-xs text-warning"
+                            title="Another shortcut uses the same keys"
+                          >
+                            <AlertTriangle
+                              className="h-3.5 w-3.5"
+                              aria-hidden
+                            />
+                            Conflict
+                          </span>
+                        )}
+                      </dt>
+                      <dd>
+                        <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                          {formatCombo(definition.keys)}
+                        </kbd>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
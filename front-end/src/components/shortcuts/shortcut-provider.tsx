@@ -0,0 +1,109 @@
+import * as React from "react"
+import { Slot } from "@radix-ui/react-slot"
+
+import {
+  createShortcutRegistry,
+  SCOPE_ATTRIBUTE,
+  type ShortcutRegistry,
+} from "./registry"
+import type { ShortcutBinding, ShortcutDefinition } from "./types"
+
+const ShortcutRegistryContext = React.createContext<ShortcutRegistry | null>(
+  null
+)
+
+export function ShortcutProvider({
+  registry: registryProp,
+  children,
+}: {
+  registry?: ShortcutRegistry
+  children: React.ReactNode
+}) {
+  const [ownRegistry] = React.useState(createShortcutRegistry)
+  const registry = registryProp ?? ownRegistry
+
+  React.useEffect(() => {
+    document.addEventListener("keydown", registry.handleKeyDown)
+    return () => document.removeEventListener("keydown", registry.handleKeyDown)
+  }, [registry])
+
+  return (
+    <ShortcutRegistryContext.Provider value={registry}>
+      {children}
+    </ShortcutRegistryContext.Provider>
+  )
+}
+
+export function useShortcutRegistry() {
+  const registry = React.useContext(ShortcutRegistryContext)
+  if (!registry) {
+    throw new Error(
+      "useShortcutRegistry must be used within a ShortcutProvider"
+    )
+  }
+  return registry
+}
+
+/** Every currently bound shortcut; re-renders when bindings change. */
+export function useShortcutBindings() {
+  const registry = useShortcutRegistry()
+  return React.useSyncExternalStore(registry.subscribe, registry.getBindings)
+}
+
+/** Keys bound twice in the same scope; re-renders when bindings change. */
+export function useShortcutConflicts() {
+  const registry = useShortcutRegistry()
+  return React.useSyncExternalStore(registry.subscribe, registry.getConflicts)
+}
+
+/**
+ * Binds `definition` while the calling component is mounted. Only a change of
+ * its id or keys re-binds; the handler and the other fields can change
+ * between renders freely.
+ */
+export function useShortcut(
+  definition: ShortcutDefinition,
+  handler: (event: KeyboardEvent) => void,
+  {
+    enabled = true,
+    ...options
+  }: Omit<ShortcutBinding, "definition" | "handler"> & {
+    enabled?: boolean
+  } = {}
+) {
+  const registry = useShortcutRegistry()
+  const handlerRef = React.useRef(handler)
+  const definitionRef = React.useRef(definition)
+  React.useLayoutEffect(() => {
+    handlerRef.current = handler
+    definitionRef.current = definition
+  })
+
+  const { id, keys } = definition
+  const { scope, allowInInputs, allowInDialogs } = options
+  React.useEffect(() => {
+    if (!enabled) return
+    return registry.bind({
+      definition: { ...definitionRef.current, id, keys },
+      handler: (event) => handlerRef.current(event),
+      scope,
+      allowInInputs,
+      allowInDialogs,
+    })
+  }, [registry, id, keys, enabled, scope, allowInInputs, allowInDialogs])
+}
+
+interface ShortcutScopeProps extends React.HTMLAttributes<HTMLDivElement> {
+  /** Bindings with this `scope` only fire while focus is inside. */
+  name: string
+  asChild?: boolean
+}
+
+export const ShortcutScope = React.forwardRef<
+  HTMLDivElement,
+  ShortcutScopeProps
+>(({ name, asChild, ...props }, ref) => {
+  const Comp = asChild ? Slot : "div"
+  return <Comp ref={ref} {...{ [SCOPE_ATTRIBUTE]: name }} {...props} />
+})
+ShortcutScope.displayName = "ShortcutScope"
@@ -0,0 +1,28 @@
+export interface ShortcutDefinition {
+  id: string
+  /** A combo such as "mod+k" or "shift+?". */
+  keys: string
+  description: string
+  /** Heading in the help dialog. Defaults to "General". */
+  group?: string
+}
+
+export interface ShortcutBinding {
+  definition: ShortcutDefinition
+  handler: (event: KeyboardEvent) => void
+  /**
+   * Only fire while focus is inside a `<ShortcutScope name={scope}>`.
+   * Unscoped bindings are global.
+   */
+  scope?: string
+  /** Fire even while typing in an input. Defaults to true for combos with ⌘/Ctrl/Alt. */
+  allowInInputs?: boolean
+  /** Fire while a modal dialog is open and focus is outside this binding's scope. */
+  allowInDialogs?: boolean
+}
+
+export interface ShortcutConflict {
+  keys: string
+  scope: string | undefined
+  ids: string[]
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "./accordion"
+
+function renderAccordion(type: "single" | "multiple" = "single") {
+  const items = (
+    <>
+      <AccordionItem value="shipping">
+        <AccordionTrigger>Shipping</AccordionTrigger>
+        <AccordionContent>Ships in 2 days.</AccordionContent>
+      </AccordionItem>
+      <AccordionItem value="returns">
+        <AccordionTrigger>Returns</AccordionTrigger>
+        <AccordionContent>Free within 30 days.</AccordionContent>
+      </AccordionItem>
+    </>
+  )
+  return setup(
+    type === "single" ? (
+      <Accordion type="single" collapsible>
+        {items}
+      </Accordion>
+    ) : (
+      <Accordion type="multiple">{items}</Accordion>
+    )
+  )
+}
+
+describe("Accordion", () => {
+  it("renders collapsed header buttons", () => {
+    renderAccordion()
+    const trigger = screen.getByRole("button", { name: "Shipping" })
+
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+    expect(screen.queryByRole("region")).toBeNull()
+  })
+
+  it("toggles a section and labels its region", async () => {
+    const { user } = renderAccordion()
+    const trigger = screen.getByRole("button", { name: "Shipping" })
+
+    await user.click(trigger)
+    expect(trigger).toHaveAttribute("aria-expanded", "true")
+    expect(screen.getByRole("region", { name: "Shipping" })).toHaveTextContent(
+      "Ships in 2 days."
+    )
+
+    await user.click(trigger)
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+  })
+
+  it("keeps one section open in single mode", async () => {
+    const { user } = renderAccordion("single")
+
+    await user.click(screen.getByRole("button", { name: "Shipping" }))
+    await user.click(screen.getByRole("button", { name: "Returns" }))
+
+    expect(screen.getByRole("button", { name: "Shipping" })).toHaveAttribute(
+      "aria-expanded",
+      "false"
+    )
+  })
+
+  it("allows several open sections in multiple mode", async () => {
+    const { user } = renderAccordion("multiple")
+
+    await user.click(screen.getByRole("button", { name: "Shipping" }))
+    await user.click(screen.getByRole("button", { name: "Returns" }))
+
+    expect(screen.getAllByRole("region")).toHaveLength(2)
+  })
+
+  it("moves between headers with the arrow keys and toggles with Enter", async () => {
+    const { user } = renderAccordion()
+    await user.tab()
+    expect(screen.getByRole("button", { name: "Shipping" })).toHaveFocus()
+
+    await user.keyboard("{ArrowDown}")
+    const returns = screen.getByRole("button", { name: "Returns" })
+    expect(returns).toHaveFocus()
+
+    await user.keyboard("{Enter}")
+    expect(returns).toHaveAttribute("aria-expanded", "true")
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./alert-dialog"
+
+function renderAlertDialog(onConfirm = vi.fn()) {
+  const result = setup(
+    <AlertDialog>
+      <AlertDialogTrigger>Delete project</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete project?</AlertDialogTitle>
+          <AlertDialogDescription>This can't be undone.</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Delete</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+  return { onConfirm, ...result }
+}
+
+describe("AlertDialog", () => {
+  it("opens an alertdialog and focuses Cancel first", async () => {
+    const { user } = renderAlertDialog()
+    await user.click(screen.getByRole("button", { name: "Delete project" }))
+
+    const dialog = screen.getByRole("alertdialog")
+    expect(dialog).toHaveAccessibleName("Delete project?")
+    expect(dialog).toHaveAccessibleDescription("This can't be undone.")
+    expect(screen.getByRole("button", { name: "Cancel" })).toHaveFocus()
+  })
+
+  it("closes on Escape without confirming", async () => {
+    const { user, onConfirm } = renderAlertDialog()
+    const trigger = screen.getByRole("button", { name: "Delete project" })
+    await user.click(trigger)
+
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("alertdialog")).toBeNull()
+    expect(onConfirm).not.toHaveBeenCalled()
+    expect(trigger).toHaveFocus()
+  })
+
+  it("confirms from the keyboard", async () => {
+    const { user, onConfirm } = renderAlertDialog()
+    await user.click(screen.getByRole("button", { name: "Delete project" }))
+
+    await user.tab()
+    await user.keyboard("{Enter}")
+
+    expect(onConfirm).toHaveBeenCalledTimes(1)
+    expect(screen.queryByRole("alertdialog")).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Calendar } from "./calendar"
+
+describe("Calendar", () => {
+  it("names its navigation buttons and hides the chevrons", () => {
+    setup(<Calendar defaultMonth={new Date(2024, 4, 1)} />)
+    const previous = screen.getByRole("button", { name: /previous month/i })
+
+    expect(screen.getByRole("button", { name: /next month/i })).toBeEnabled()
+    expect(previous.querySelector("svg")).toHaveAttribute("aria-hidden", "true")
+  })
+
+  it("moves between months", async () => {
+    const { user } = setup(<Calendar defaultMonth={new Date(2024, 4, 1)} />)
+
+    await user.click(screen.getByRole("button", { name: /next month/i }))
+
+    expect(screen.getByRole("grid")).toHaveAccessibleName("June 2024")
+  })
+
+  it("dims the chevron of a disabled navigation button", () => {
+    setup(
+      <Calendar
+        defaultMonth={new Date(2024, 4, 1)}
+        startMonth={new Date(2024, 4, 1)}
+      />
+    )
+    const previous = screen.getByRole("button", { name: /previous month/i })
+
+    expect(previous).toBeDisabled()
+    expect(previous.querySelector("svg")).toHaveClass("opacity-50")
+  })
+})
@@ -1,59 +1,134 @@
 "use client"
 
 import * as React from "react"
-import { ChevronLeft, ChevronRight } from "lucide-react"
-import { DayPicker } from "react-day-picker"
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react"
+import {
+  DayPicker,
+  type ChevronProps,
+  type DayButtonProps,
+} from "react-day-picker"
 
+import { useI18n } from "../../lib/i18n"
 import { cn } from "../lib/utils"
 import { buttonVariants } from "./button"
 
 export type CalendarProps = React.ComponentProps<typeof DayPicker>
 
+const chevrons = {
+  left: ChevronLeft,
+  right: ChevronRight,
+  up: ChevronUp,
+  down: ChevronDown,
+}
+
+function CalendarChevron({
+  className,
+  orientation = "left",
+  disabled,
+  ...props
+}: ChevronProps) {
+  const Icon = chevrons[orientation]
+  return (
+    <Icon
+      className={cn("h-4 w-4", disabled && "opacity-50", className)}
+      aria-hidden
+      {...props}
+    />
+  )
+}
+
+/**
+ * Styles the day from its modifiers rather than from cell classes, so range
+ * middles can override the selected style without fighting specificity.
+ */
+function CalendarDayButton({
+  className,
+  // Kept out of `props` so it isn't spread onto the button.
+  day,
+  modifiers,
+  ...props
+}: DayButtonProps) {
+  const ref = React.useRef<HTMLButtonElement>(null)
+  React.useEffect(() => {
+    if (modifiers.focused) ref.current?.focus()
+  }, [modifiers.focused])
+
+  return (
+    <button
+      ref={ref}
+      className={cn(
+        buttonVariants({ variant: "ghost" }),
+        "h-9 w-9 p-0 font-normal",
+        modifiers.today && "bg-accent text-accent-foreground",
+        modifiers.outside && "text-muted-foreground opacity-50",
+        modifiers.selected &&
+          "bg-primary text-primary-foreground opacity-100 hover:bg-primary hover:text-primary-foreground focus:bg-primary focus:text-primary-foreground",
+        modifiers.range_middle &&
+          "rounded-none bg-accent text-accent-foreground hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground",
+        modifiers.disabled && "text-muted-foreground opacity-50",
+        className
+      )}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Month names, week starts and navigation labels follow the app locale
+ * unless `locale` or `labels` are passed.
+ */
 function Calendar({
   className,
   classNames,
   showOutsideDays = true,
+  components,
+  locale,
+  labels,
   ...props
 }: CalendarProps) {
+  const { dateLocale, t } = useI18n()
+
   return (
     <DayPicker
       showOutsideDays={showOutsideDays}
+      locale={locale ?? dateLocale}
+      labels={{
+        labelPrevious: () => t("ui.calendar.previousMonth"),
+        labelNext: () => t("ui.calendar.nextMonth"),
+        ...labels,
+      }}
       className={cn("p-3", className)}
       classNames={{
-        months: "flex flex-col sm:flex-row space-y-4 sm:space-x-4 sm:space-y-0",
+        months: "relative flex flex-col gap-4 sm:flex-row",
         month: "space-y-4",
-        caption: "flex justify-center pt-1 relative items-center",
+        month_caption: "flex h-7 items-center justify-center",
         caption_label: "text-sm font-medium",
-        nav: "space-x-1 flex items-center",
-        nav_button: cn(
+        nav: "absolute inset-x-0 top-0 z-10 flex items-center justify-between",
+        button_previous: cn(
           buttonVariants({ variant: "outline" }),
           "h-7 w-7 bg-transparent p-0 opacity-50 hover:opacity-100"
         ),
-        nav_button_previous: "absolute left-1",
-        nav_button_next: "absolute right-1",
-        table: "w-full border-collapse space-y-1",
-        head_row: "flex",
-        head_cell:
-          "text-muted-foreground rounded-md w-9 font-normal text-[0.8rem]",
-        row: "flex w-full mt-2",
-        cell: "text-center text-sm p-0 relative [&:has([aria-selected])]:bg-accent first:[&:has([aria-selected])]:rounded-l-md last:[&:has([aria-selected])]:rounded-r-md focus-within:relative focus-within:z-20",
-        day: cn(
-          buttonVariants({ variant: "ghost" }),
-          "h-9 w-9 p-0 font-normal aria-selected:opacity-100"
+        button_next: cn(
+          buttonVariants({ variant: "outline" }),
+          "h-7 w-7 bg-transparent p-0 opacity-50 hover:opacity-100"
         ),
-        day_selected:
-          "bg-primary text-primary-foreground hover:bg-primary hover:text-primary-foreground focus:bg-primary focus:text-primary-foreground",
-        day_today: "bg-accent text-accent-foreground",
-        day_outside: "text-muted-foreground opacity-50",
-        day_disabled: "text-muted-foreground opacity-50",
-        day_range_middle:
-          "aria-selected:bg-accent aria-selected:text-accent-foreground",
-        day_hidden: "invisible",
+        month_grid: "w-full border-collapse space-y-1",
+        weekdays: "flex",
+        weekday:
+          "text-muted-foreground rounded-md w-9 font-normal text-[0.8rem]",
+        week: "flex w-full mt-2",
+        day: "relative p-0 text-center text-sm focus-within:relative focus-within:z-20",
+        day_button: "",
+        selected: "bg-accent first:rounded-l-md last:rounded-r-md",
+        range_start: "rounded-l-md",
+        range_end: "rounded-r-md",
+        hidden: "invisible",
         ...classNames,
       }}
       components={{
-        IconLeft: ({ ...props }) => <ChevronLeft className="h-4 w-4" />,
-        IconRight: ({ ...props }) => <ChevronRight className="h-4 w-4" />,
+        Chevron: CalendarChevron,
+        DayButton: CalendarDayButton,
+        ...components,
       }}
       {...props}
     />
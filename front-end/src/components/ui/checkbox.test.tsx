@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Checkbox } from "./checkbox"
+
+describe("Checkbox", () => {
+  it("toggles with a click and with Space", async () => {
+    const onCheckedChange = vi.fn()
+    const { user } = setup(
+      <Checkbox aria-label="Accept terms" onCheckedChange={onCheckedChange} />
+    )
+    const checkbox = screen.getByRole("checkbox", { name: "Accept terms" })
+    expect(checkbox).not.toBeChecked()
+
+    await user.click(checkbox)
+    expect(checkbox).toBeChecked()
+
+    await user.keyboard(" ")
+    expect(checkbox).not.toBeChecked()
+    expect(onCheckedChange.mock.calls).toEqual([[true], [false]])
+  })
+
+  it("reports the indeterminate state as mixed", () => {
+    setup(<Checkbox aria-label="Select all" checked="indeterminate" />)
+
+    expect(screen.getByRole("checkbox")).toHaveAttribute(
+      "aria-checked",
+      "mixed"
+    )
+  })
+
+  it("ignores input while disabled", async () => {
+    const { user } = setup(<Checkbox aria-label="Accept terms" disabled />)
+    const checkbox = screen.getByRole("checkbox")
+
+    await user.click(checkbox)
+
+    expect(checkbox).toBeDisabled()
+    expect(checkbox).not.toBeChecked()
+  })
+})
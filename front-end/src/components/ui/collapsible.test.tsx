@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "./collapsible"
+
+describe("Collapsible", () => {
+  it("toggles its content from the keyboard", async () => {
+    const { user } = setup(
+      <Collapsible>
+        <CollapsibleTrigger>Show details</CollapsibleTrigger>
+        <CollapsibleContent>Order #1042</CollapsibleContent>
+      </Collapsible>
+    )
+    const trigger = screen.getByRole("button", { name: "Show details" })
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+    expect(screen.queryByText("Order #1042")).toBeNull()
+
+    await user.tab()
+    await user.keyboard(" ")
+
+    expect(trigger).toHaveAttribute("aria-expanded", "true")
+    const content = screen.getByText("Order #1042")
+    expect(trigger).toHaveAttribute("aria-controls", content.id)
+
+    await user.keyboard("{Enter}")
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./command"
+
+function renderCommand(onSelect = vi.fn()) {
+  const result = setup(
+    <Command label="Commands">
+      <CommandInput placeholder="Type a command" />
+      <CommandList>
+        <CommandEmpty>No results.</CommandEmpty>
+        <CommandGroup heading="Pages">
+          <CommandItem onSelect={onSelect}>Dashboard</CommandItem>
+          <CommandItem onSelect={onSelect}>Settings</CommandItem>
+          <CommandItem disabled onSelect={onSelect}>
+            Billing
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+    </Command>
+  )
+  return { onSelect, ...result }
+}
+
+describe("Command", () => {
+  it("links the input to the listbox and highlights the first option", () => {
+    renderCommand()
+
+    const input = screen.getByRole("combobox")
+    const listbox = screen.getByRole("listbox")
+    expect(input).toHaveAttribute("aria-controls", listbox.id)
+    expect(screen.getByRole("option", { name: "Dashboard" })).toHaveAttribute(
+      "aria-selected",
+      "true"
+    )
+  })
+
+  it("moves the highlight with the arrow keys and selects on Enter", async () => {
+    const { user, onSelect } = renderCommand()
+    await user.click(screen.getByRole("combobox"))
+
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("option", { name: "Settings" })).toHaveAttribute(
+      "aria-selected",
+      "true"
+    )
+
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("option", { name: "Settings" })).toHaveAttribute(
+      "aria-selected",
+      "true"
+    )
+
+    await user.keyboard("{Enter}")
+    expect(onSelect).toHaveBeenCalledWith("Settings")
+  })
+
+  it("filters as the user types and shows the empty state", async () => {
+    const { user } = renderCommand()
+    const input = screen.getByRole("combobox")
+
+    await user.type(input, "sett")
+    expect(screen.getAllByRole("option").map((o) => o.textContent)).toEqual([
+      "Settings",
+    ])
+
+    await user.type(input, "zzz")
+    expect(screen.queryByRole("option")).toBeNull()
+    expect(screen.getByText("No results.")).toBeInTheDocument()
+  })
+})
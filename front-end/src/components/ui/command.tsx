@@ -5,8 +5,10 @@ import { DialogProps } from "@radix-ui/react-dialog"
 import { Command as CommandPrimitive } from "cmdk"
 import { Search } from "lucide-react"
 
+import { useTranslate } from "../../lib/i18n"
+import { formatCombo } from "../lib/keys"
 import { cn } from "../lib/utils"
-import { Dialog, DialogContent } from "@/components/ui/dialog"
+import { Dialog, DialogContent, DialogTitle } from "./dialog"
 
 const Command = React.forwardRef<
   React.ElementRef<typeof CommandPrimitive>,
@@ -23,13 +25,41 @@ const Command = React.forwardRef<
 ))
 Command.displayName = CommandPrimitive.displayName
 
-interface CommandDialogProps extends DialogProps {}
+interface CommandDialogProps extends DialogProps {
+  /** Announced to screen readers; the dialog has no visible heading. */
+  title?: string
+  commandProps?: React.ComponentPropsWithoutRef<typeof Command>
+  contentProps?: React.ComponentPropsWithoutRef<typeof DialogContent>
+}
+
+const CommandDialog = ({
+  children,
+  title,
+  commandProps,
+  contentProps,
+  ...props
+}: CommandDialogProps) => {
+  const t = useTranslate()
 
-const CommandDialog = ({ children, ...props }: CommandDialogProps) => {
   return (
     <Dialog {...props}>
-      <DialogContent className="overflow-hidden p-0 shadow-2xl">
-        <Command className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5">
+      <DialogContent
+        {...contentProps}
+        className={cn(
+          "overflow-hidden p-0 shadow-2xl",
+          contentProps?.className
+        )}
+      >
+        <DialogTitle className="sr-only">
+          {title ?? t("ui.command.title")}
+        </DialogTitle>
+        <Command
+          {...commandProps}
+          className={cn(
+            "[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5",
+            commandProps?.className
+          )}
+        >
           {children}
         </Command>
       </DialogContent>
@@ -128,8 +158,13 @@ CommandItem.displayName = CommandPrimitive.Item.displayName
 
 const CommandShortcut = ({
   className,
+  keys,
+  children,
   ...props
-}: React.HTMLAttributes<HTMLSpanElement>) => {
+}: React.HTMLAttributes<HTMLSpanElement> & {
+  /** A combo such as "mod+k", rendered for the current platform. */
+  keys?: string
+}) => {
   return (
     <span
       className={cn(
@@ -137,7 +172,9 @@ const CommandShortcut = ({
         className
       )}
       {...props}
-    />
+    >
+      {children ?? (keys && formatCombo(keys))}
+    </span>
   )
 }
 CommandShortcut.displayName = "CommandShortcut"
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from "./context-menu"
+
+function renderContextMenu(onSelect = vi.fn()) {
+  const result = setup(
+    <ContextMenu>
+      <ContextMenuTrigger>Right-click a file</ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onSelect={() => onSelect("rename")}>
+          Rename
+        </ContextMenuItem>
+        <ContextMenuItem disabled>Share</ContextMenuItem>
+        <ContextMenuItem onSelect={() => onSelect("delete")}>
+          Delete
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  )
+  return { onSelect, ...result }
+}
+
+describe("ContextMenu", () => {
+  it("opens a menu on right-click", async () => {
+    const { user } = renderContextMenu()
+
+    await user.pointer({
+      keys: "[MouseRight]",
+      target: screen.getByText("Right-click a file"),
+    })
+
+    expect(screen.getByRole("menu")).toBeInTheDocument()
+    expect(screen.getAllByRole("menuitem")).toHaveLength(3)
+  })
+
+  it("walks items with the arrow keys, skipping disabled ones", async () => {
+    const { user, onSelect } = renderContextMenu()
+    await user.pointer({
+      keys: "[MouseRight]",
+      target: screen.getByText("Right-click a file"),
+    })
+
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("menuitem", { name: "Rename" })).toHaveFocus()
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("menuitem", { name: "Delete" })).toHaveFocus()
+
+    await user.keyboard("{Enter}")
+    expect(onSelect).toHaveBeenCalledWith("delete")
+    expect(screen.queryByRole("menu")).toBeNull()
+  })
+
+  it("closes on Escape", async () => {
+    const { user, onSelect } = renderContextMenu()
+    await user.pointer({
+      keys: "[MouseRight]",
+      target: screen.getByText("Right-click a file"),
+    })
+
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("menu")).toBeNull()
+    expect(onSelect).not.toHaveBeenCalled()
+  })
+})
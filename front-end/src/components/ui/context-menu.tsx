@@ -4,6 +4,7 @@ import * as React from "react"
 import * as ContextMenuPrimitive from "@radix-ui/react-context-menu"
 import { Check, ChevronRight, Circle } from "lucide-react"
 
+import { formatCombo } from "../lib/keys"
 import { cn } from "../lib/utils"
 
 const ContextMenu = ContextMenuPrimitive.Root
@@ -167,8 +168,13 @@ ContextMenuSeparator.displayName = ContextMenuPrimitive.Separator.displayName
 
 const ContextMenuShortcut = ({
   className,
+  keys,
+  children,
   ...props
-}: React.HTMLAttributes<HTMLSpanElement>) => {
+}: React.HTMLAttributes<HTMLSpanElement> & {
+  /** A combo such as "mod+k", rendered for the current platform. */
+  keys?: string
+}) => {
   return (
     <span
       className={cn(
@@ -176,7 +182,9 @@ const ContextMenuShortcut = ({
         className
       )}
       {...props}
-    />
+    >
+      {children ?? (keys && formatCombo(keys))}
+    </span>
   )
 }
 ContextMenuShortcut.displayName = "ContextMenuShortcut"
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+  DialogTrigger,
+} from "./dialog"
+
+function renderDialog() {
+  return setup(
+    <Dialog>
+      <DialogTrigger>Edit profile</DialogTrigger>
+      <DialogContent>
+        <DialogTitle>Edit profile</DialogTitle>
+        <DialogDescription>Change how others see you.</DialogDescription>
+        <input aria-label="Name" />
+        <button type="button">Save</button>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+describe("Dialog", () => {
+  it("opens a modal dialog named by its title", async () => {
+    const { user } = renderDialog()
+    await user.click(screen.getByRole("button", { name: "Edit profile" }))
+
+    const dialog = screen.getByRole("dialog")
+    expect(dialog).toHaveAccessibleName("Edit profile")
+    expect(dialog).toHaveAccessibleDescription("Change how others see you.")
+  })
+
+  it("moves focus inside and keeps it there when tabbing", async () => {
+    const { user } = renderDialog()
+    await user.click(screen.getByRole("button", { name: "Edit profile" }))
+
+    const dialog = screen.getByRole("dialog")
+    expect(dialog).toContainElement(document.activeElement as HTMLElement)
+
+    for (let i = 0; i < 5; i++) {
+      await user.tab()
+      expect(dialog).toContainElement(document.activeElement as HTMLElement)
+    }
+  })
+
+  it("closes on Escape and returns focus to the trigger", async () => {
+    const { user } = renderDialog()
+    const trigger = screen.getByRole("button", { name: "Edit profile" })
+    await user.click(trigger)
+
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("dialog")).toBeNull()
+    expect(trigger).toHaveFocus()
+  })
+
+  it("closes from the close button", async () => {
+    const { user } = renderDialog()
+    await user.click(screen.getByRole("button", { name: "Edit profile" }))
+
+    await user.click(screen.getByRole("button", { name: "Close" }))
+
+    expect(screen.queryByRole("dialog")).toBeNull()
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./dropdown-menu"
+
+function renderMenu(onSelect = vi.fn()) {
+  const result = setup(
+    <DropdownMenu>
+      <DropdownMenuTrigger>Actions</DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuItem onSelect={() => onSelect("edit")}>
+          Edit
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled>Archive</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onSelect("delete")}>
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+  return { onSelect, ...result }
+}
+
+describe("DropdownMenu", () => {
+  it("opens from the keyboard and focuses the first item", async () => {
+    const { user } = renderMenu()
+    const trigger = screen.getByRole("button", { name: "Actions" })
+    trigger.focus()
+
+    await user.keyboard("{Enter}")
+
+    expect(trigger).toHaveAttribute("aria-expanded", "true")
+    expect(screen.getByRole("menu")).toBeInTheDocument()
+    expect(screen.getByRole("menuitem", { name: "Edit" })).toHaveFocus()
+  })
+
+  it("skips disabled items and runs the chosen one", async () => {
+    const { user, onSelect } = renderMenu()
+    screen.getByRole("button", { name: "Actions" }).focus()
+
+    await user.keyboard("{Enter}")
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("menuitem", { name: "Delete" })).toHaveFocus()
+
+    await user.keyboard("{Enter}")
+    expect(onSelect).toHaveBeenCalledWith("delete")
+    expect(screen.queryByRole("menu")).toBeNull()
+  })
+
+  it("closes on Escape and refocuses the trigger", async () => {
+    const { user } = renderMenu()
+    const trigger = screen.getByRole("button", { name: "Actions" })
+    trigger.focus()
+
+    await user.keyboard("{Enter}")
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("menu")).toBeNull()
+    expect(trigger).toHaveFocus()
+  })
+})
@@ -4,6 +4,7 @@ import * as React from "react"
 import * as DropdownMenuPrimitive from "@radix-ui/react-dropdown-menu"
 import { Check, ChevronRight, Circle } from "lucide-react"
 
+import { formatCombo } from "../lib/keys"
 import { cn } from "../lib/utils"
 
 const DropdownMenu = DropdownMenuPrimitive.Root
@@ -170,13 +171,20 @@ DropdownMenuSeparator.displayName = DropdownMenuPrimitive.Separator.displayName
 
 const DropdownMenuShortcut = ({
   className,
+  keys,
+  children,
   ...props
-}: React.HTMLAttributes<HTMLSpanElement>) => {
+}: React.HTMLAttributes<HTMLSpanElement> & {
+  /** A combo such as "mod+k", rendered for the current platform. */
+  keys?: string
+}) => {
   return (
     <span
       className={cn("ml-auto text-xs tracking-widest opacity-60", className)}
       {...props}
-    />
+    >
+      {children ?? (keys && formatCombo(keys))}
+    </span>
   )
 }
 DropdownMenuShortcut.displayName = "DropdownMenuShortcut"
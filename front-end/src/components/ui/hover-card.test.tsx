@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "./hover-card"
+
+function renderHoverCard() {
+  return setup(
+    <HoverCard openDelay={0} closeDelay={0}>
+      <HoverCardTrigger href="/users/ana">@ana</HoverCardTrigger>
+      <HoverCardContent>Ana joined in March 2021.</HoverCardContent>
+    </HoverCard>
+  )
+}
+
+describe("HoverCard", () => {
+  it("opens on hover and closes when the pointer leaves", async () => {
+    const { user } = renderHoverCard()
+    const link = screen.getByRole("link", { name: "@ana" })
+
+    await user.hover(link)
+    expect(
+      await screen.findByText("Ana joined in March 2021.")
+    ).toBeInTheDocument()
+    expect(link).toHaveAttribute("data-state", "open")
+
+    await user.unhover(link)
+    await expect
+      .poll(() => screen.queryByText("Ana joined in March 2021."))
+      .toBeNull()
+  })
+
+  it("opens when the trigger is focused from the keyboard", async () => {
+    const { user } = renderHoverCard()
+
+    await user.tab()
+
+    expect(screen.getByRole("link", { name: "@ana" })).toHaveFocus()
+    expect(
+      await screen.findByText("Ana joined in March 2021.")
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+
+import { render, screen } from "../../test/render"
+import { Input } from "./input"
+
+describe("Input", () => {
+  it("renders a bare input when no label is given", () => {
+    const { container } = render(<Input aria-label="Search" />)
+
+    expect(container.firstChild).toBe(screen.getByRole("textbox"))
+    expect(screen.getByRole("textbox")).toHaveAccessibleName("Search")
+  })
+
+  it("associates its label", () => {
+    render(<Input label="Email" type="email" />)
+
+    expect(screen.getByLabelText("Email")).toHaveAttribute("type", "email")
+  })
+
+  it("keeps a caller-provided id", () => {
+    render(<Input id="email" label="Email" />)
+
+    expect(screen.getByRole("textbox", { name: "Email" })).toHaveAttribute(
+      "id",
+      "email"
+    )
+  })
+
+  it("describes the input with its helper text", () => {
+    render(
+      <>
+        <p id="hint">Required.</p>
+        <Input
+          label="Username"
+          description="Shown on your profile."
+          aria-describedby="hint"
+        />
+      </>
+    )
+
+    expect(screen.getByRole("textbox")).toHaveAccessibleDescription(
+      "Required. Shown on your profile."
+    )
+  })
+})
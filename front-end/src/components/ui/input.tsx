@@ -1,13 +1,25 @@
 import * as React from "react"
 
 import { cn } from "../lib/utils"
+import { Label } from "./label"
 
-export interface InputProps
-  extends React.InputHTMLAttributes<HTMLInputElement> {}
+export interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
+  /**
+   * Renders a visible label wired to the input through `htmlFor`. Leave it
+   * out inside `FormControl`, which already associates the `FormLabel`.
+   */
+  label?: React.ReactNode
+  /** Helper text announced with the input through `aria-describedby`. */
+  description?: React.ReactNode
+}
 
 const Input = React.forwardRef<HTMLInputElement, InputProps>(
-  ({ className, type, ...props }, ref) => {
-    return (
+  ({ className, type, label, description, ...props }, ref) => {
+    const generatedId = React.useId()
+    const id = props.id ?? generatedId
+    const descriptionId = `${id}-description`
+
+    const input = (
       <input
         type={type}
         className={cn(
@@ -16,8 +28,30 @@ const Input = React.forwardRef<HTMLInputElement, InputProps>(
         )}
         ref={ref}
         {...props}
+        id={label || description ? id : props.id}
+        aria-describedby={
+          description
+            ? [props["aria-describedby"], descriptionId]
+                .filter(Boolean)
+                .join(" ")
+            : props["aria-describedby"]
+        }
       />
     )
+
+    if (!label && !description) return input
+
+    return (
+      <div className="grid w-full gap-1.5">
+        {label && <Label htmlFor={id}>{label}</Label>}
+        {input}
+        {description && (
+          <p id={descriptionId} className="text-sm text-muted-foreground">
+            {description}
+          </p>
+        )}
+      </div>
+    )
   }
 )
 Input.displayName = "Input"
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Menubar,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarTrigger,
+} from "./menubar"
+
+function renderMenubar(onSelect = vi.fn()) {
+  const result = setup(
+    <Menubar aria-label="Editor">
+      <MenubarMenu>
+        <MenubarTrigger>File</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={() => onSelect("new")}>New</MenubarItem>
+          <MenubarItem onSelect={() => onSelect("open")}>Open</MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+      <MenubarMenu>
+        <MenubarTrigger>Edit</MenubarTrigger>
+        <MenubarContent>
+          <MenubarItem onSelect={() => onSelect("undo")}>Undo</MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+    </Menubar>
+  )
+  return { onSelect, ...result }
+}
+
+describe("Menubar", () => {
+  it("roves focus between top-level menus with the arrow keys", async () => {
+    const { user } = renderMenubar()
+    expect(screen.getByRole("menubar")).toHaveAccessibleName("Editor")
+
+    await user.tab()
+    expect(screen.getByRole("menuitem", { name: "File" })).toHaveFocus()
+
+    await user.keyboard("{ArrowRight}")
+    expect(screen.getByRole("menuitem", { name: "Edit" })).toHaveFocus()
+  })
+
+  it("opens a menu with ArrowDown and runs the chosen item", async () => {
+    const { user, onSelect } = renderMenubar()
+    await user.tab()
+
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("menu")).toBeInTheDocument()
+    expect(screen.getByRole("menuitem", { name: "New" })).toHaveFocus()
+
+    await user.keyboard("{ArrowDown}{Enter}")
+    expect(onSelect).toHaveBeenCalledWith("open")
+    expect(screen.queryByRole("menu")).toBeNull()
+  })
+
+  it("closes on Escape and refocuses its trigger", async () => {
+    const { user } = renderMenubar()
+    await user.tab()
+    await user.keyboard("{Enter}")
+
+    await user.keyboard("{Escape}")
+
+    const trigger = screen.getByRole("menuitem", { name: "File" })
+    expect(screen.queryByRole("menu")).toBeNull()
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+    expect(trigger).toHaveFocus()
+  })
+})
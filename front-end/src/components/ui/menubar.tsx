@@ -4,6 +4,7 @@ import * as React from "react"
 import * as MenubarPrimitive from "@radix-ui/react-menubar"
 import { Check, ChevronRight, Circle } from "lucide-react"
 
+import { formatCombo } from "../lib/keys"
 import { cn } from "../lib/utils"
 
 const MenubarMenu = MenubarPrimitive.Menu
@@ -202,8 +203,13 @@ MenubarSeparator.displayName = MenubarPrimitive.Separator.displayName
 
 const MenubarShortcut = ({
   className,
+  keys,
+  children,
   ...props
-}: React.HTMLAttributes<HTMLSpanElement>) => {
+}: React.HTMLAttributes<HTMLSpanElement> & {
+  /** A combo such as "mod+k", rendered for the current platform. */
+  keys?: string
+}) => {
   return (
     <span
       className={cn(
@@ -211,10 +217,12 @@ const MenubarShortcut = ({
         className
       )}
       {...props}
-    />
+    >
+      {children ?? (keys && formatCombo(keys))}
+    </span>
   )
 }
-MenubarShortcut.displayname = "MenubarShortcut"
+MenubarShortcut.displayName = "MenubarShortcut"
 
 export {
   Menubar,
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  NavigationMenu,
+  NavigationMenuContent,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  NavigationMenuTrigger,
+} from "./navigation-menu"
+
+function renderNavigationMenu() {
+  return setup(
+    <NavigationMenu aria-label="Main">
+      <NavigationMenuList>
+        <NavigationMenuItem>
+          <NavigationMenuTrigger>Products</NavigationMenuTrigger>
+          <NavigationMenuContent>
+            <NavigationMenuLink href="/analytics">Analytics</NavigationMenuLink>
+            <NavigationMenuLink href="/billing">Billing</NavigationMenuLink>
+          </NavigationMenuContent>
+        </NavigationMenuItem>
+        <NavigationMenuItem>
+          <NavigationMenuLink href="/docs">Docs</NavigationMenuLink>
+        </NavigationMenuItem>
+      </NavigationMenuList>
+    </NavigationMenu>
+  )
+}
+
+describe("NavigationMenu", () => {
+  it("is a named navigation landmark", () => {
+    renderNavigationMenu()
+
+    expect(screen.getByRole("navigation", { name: "Main" })).toBeInTheDocument()
+    expect(screen.getByRole("button", { name: "Products" })).toHaveAttribute(
+      "aria-expanded",
+      "false"
+    )
+  })
+
+  it("opens a section from the keyboard and tabs into its links", async () => {
+    const { user } = renderNavigationMenu()
+    await user.tab()
+    const trigger = screen.getByRole("button", { name: "Products" })
+    expect(trigger).toHaveFocus()
+
+    await user.keyboard("{Enter}")
+    expect(trigger).toHaveAttribute("aria-expanded", "true")
+
+    await user.tab()
+    expect(screen.getByRole("link", { name: "Analytics" })).toHaveFocus()
+  })
+
+  it("closes on Escape and refocuses the trigger", async () => {
+    const { user } = renderNavigationMenu()
+    await user.tab()
+    await user.keyboard("{Enter}")
+    await user.tab()
+
+    await user.keyboard("{Escape}")
+
+    const trigger = screen.getByRole("button", { name: "Products" })
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+    expect(trigger).toHaveFocus()
+  })
+
+  it("moves between top-level items with the arrow keys", async () => {
+    const { user } = renderNavigationMenu()
+    await user.tab()
+
+    await user.keyboard("{ArrowRight}")
+
+    expect(screen.getByRole("link", { name: "Docs" })).toHaveFocus()
+  })
+})
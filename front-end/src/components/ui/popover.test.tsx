@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Popover, PopoverContent, PopoverTrigger } from "./popover"
+
+function renderPopover() {
+  return setup(
+    <Popover>
+      <PopoverTrigger>Filters</PopoverTrigger>
+      <PopoverContent aria-label="Filter options">
+        <input aria-label="Search" />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+describe("Popover", () => {
+  it("opens a dialog from the trigger and moves focus inside", async () => {
+    const { user } = renderPopover()
+    const trigger = screen.getByRole("button", { name: "Filters" })
+    trigger.focus()
+
+    await user.keyboard("{Enter}")
+
+    expect(trigger).toHaveAttribute("aria-expanded", "true")
+    const dialog = screen.getByRole("dialog", { name: "Filter options" })
+    expect(trigger).toHaveAttribute("aria-controls", dialog.id)
+    expect(screen.getByRole("textbox", { name: "Search" })).toHaveFocus()
+  })
+
+  it("closes on Escape and refocuses the trigger", async () => {
+    const { user } = renderPopover()
+    const trigger = screen.getByRole("button", { name: "Filters" })
+    await user.click(trigger)
+
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("dialog")).toBeNull()
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+    expect(trigger).toHaveFocus()
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { RadioGroup, RadioGroupItem } from "./radio-group"
+
+function renderRadioGroup() {
+  return setup(
+    <RadioGroup aria-label="Plan" defaultValue="free">
+      <RadioGroupItem value="free" aria-label="Free" />
+      <RadioGroupItem value="pro" aria-label="Pro" />
+      <RadioGroupItem value="team" aria-label="Team" />
+    </RadioGroup>
+  )
+}
+
+describe("RadioGroup", () => {
+  it("tabs to the checked radio only", async () => {
+    const { user } = renderRadioGroup()
+
+    await user.tab()
+    expect(screen.getByRole("radio", { name: "Free" })).toHaveFocus()
+
+    await user.tab()
+    expect(document.body).toHaveFocus()
+  })
+
+  it("moves with the arrow keys, wrapping at the ends", async () => {
+    const { user } = renderRadioGroup()
+    await user.tab()
+
+    await user.keyboard("{ArrowDown}")
+    expect(screen.getByRole("radio", { name: "Pro" })).toHaveFocus()
+
+    await user.keyboard("{ArrowUp}{ArrowUp}")
+    expect(screen.getByRole("radio", { name: "Team" })).toHaveFocus()
+  })
+
+  it("checks the focused radio with Space", async () => {
+    const { user } = renderRadioGroup()
+    await user.tab()
+    await user.keyboard("{ArrowDown}")
+
+    await user.keyboard(" ")
+
+    expect(screen.getByRole("radio", { name: "Pro" })).toBeChecked()
+    expect(screen.getByRole("radio", { name: "Free" })).not.toBeChecked()
+  })
+})
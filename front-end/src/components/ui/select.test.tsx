@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./select"
+
+function renderSelect(onValueChange = vi.fn()) {
+  const result = setup(
+    <Select onValueChange={onValueChange}>
+      <SelectTrigger aria-label="Fruit">
+        <SelectValue placeholder="Pick a fruit" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="apple">Apple</SelectItem>
+        <SelectItem value="banana" disabled>
+          Banana
+        </SelectItem>
+        <SelectItem value="cherry">Cherry</SelectItem>
+      </SelectContent>
+    </Select>
+  )
+  return { onValueChange, ...result }
+}
+
+describe("Select", () => {
+  it("exposes a collapsed combobox with the placeholder", () => {
+    renderSelect()
+    const trigger = screen.getByRole("combobox", { name: "Fruit" })
+
+    expect(trigger).toHaveAttribute("aria-expanded", "false")
+    expect(trigger).toHaveTextContent("Pick a fruit")
+  })
+
+  it("opens from the keyboard and lists the options", async () => {
+    const { user } = renderSelect()
+    const trigger = screen.getByRole("combobox")
+    trigger.focus()
+
+    await user.keyboard("{Enter}")
+
+    expect(trigger).toHaveAttribute("aria-expanded", "true")
+    expect(
+      screen.getAllByRole("option").map((option) => option.textContent)
+    ).toEqual(["Apple", "Banana", "Cherry"])
+    expect(screen.getByRole("option", { name: "Banana" })).toHaveAttribute(
+      "aria-disabled",
+      "true"
+    )
+  })
+
+  it("skips disabled options with the arrow keys", async () => {
+    const { user, onValueChange } = renderSelect()
+    screen.getByRole("combobox").focus()
+
+    await user.keyboard("{Enter}")
+    await user.keyboard("{ArrowDown}{Enter}")
+
+    expect(onValueChange).toHaveBeenCalledWith("cherry")
+    expect(screen.getByRole("combobox")).toHaveTextContent("Cherry")
+  })
+
+  it("selects by typeahead", async () => {
+    const { user, onValueChange } = renderSelect()
+    screen.getByRole("combobox").focus()
+
+    await user.keyboard("{Enter}")
+    await user.keyboard("c{Enter}")
+
+    expect(onValueChange).toHaveBeenCalledWith("cherry")
+  })
+
+  it("closes on Escape without changing the value", async () => {
+    const { user, onValueChange } = renderSelect()
+    screen.getByRole("combobox").focus()
+
+    await user.keyboard("{Enter}")
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("listbox")).toBeNull()
+    expect(onValueChange).not.toHaveBeenCalled()
+    expect(screen.getByRole("combobox")).toHaveFocus()
+  })
+})
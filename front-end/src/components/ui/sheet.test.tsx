@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { fireEvent, screen, setup } from "../../test/render"
+import { Sheet, SheetContent, SheetTitle, SheetTrigger } from "./sheet"
+
+function renderBottomSheet(props: { snapPoints?: number[] } = {}) {
+  const onOpenChange = vi.fn()
+  const result = setup(
+    <Sheet onOpenChange={onOpenChange}>
+      <SheetTrigger>Filters</SheetTrigger>
+      <SheetContent position="bottom" aria-describedby={undefined} {...props}>
+        <SheetTitle>Filters</SheetTitle>
+      </SheetContent>
+    </Sheet>
+  )
+  return { onOpenChange, ...result }
+}
+
+function drag(handle: HTMLElement, from: number, to: number) {
+  fireEvent.pointerDown(handle, { button: 0, clientY: from, pointerId: 1 })
+  fireEvent.pointerMove(handle, { clientY: (from + to) / 2, pointerId: 1 })
+  fireEvent.pointerMove(handle, { clientY: to, pointerId: 1 })
+  fireEvent.pointerUp(handle, { clientY: to, pointerId: 1 })
+}
+
+describe("Sheet", () => {
+  it("opens a dialog with a close button", async () => {
+    const { user } = renderBottomSheet()
+    await user.click(screen.getByRole("button", { name: "Filters" }))
+
+    expect(screen.getByRole("dialog")).toHaveAccessibleName("Filters")
+
+    await user.click(screen.getByRole("button", { name: "Close" }))
+    expect(screen.queryByRole("dialog")).toBeNull()
+  })
+
+  it("closes when the handle is dragged off screen", async () => {
+    const { user, onOpenChange } = renderBottomSheet({
+      snapPoints: [0.25, 0.5],
+    })
+    await user.click(screen.getByRole("button", { name: "Filters" }))
+
+    drag(
+      screen.getByRole("button", { name: "Resize sheet" }),
+      400,
+      400 + window.innerHeight
+    )
+
+    expect(onOpenChange).toHaveBeenLastCalledWith(false)
+  })
+
+  it("reopens at rest after being dragged closed", async () => {
+    const { user } = renderBottomSheet({ snapPoints: [0.25, 0.5] })
+    await user.click(screen.getByRole("button", { name: "Filters" }))
+    drag(
+      screen.getByRole("button", { name: "Resize sheet" }),
+      400,
+      400 + window.innerHeight
+    )
+
+    await user.click(screen.getByRole("button", { name: "Filters" }))
+
+    const dialog = screen.getByRole("dialog")
+    expect(dialog.style.transform).toBe("translateY(calc(25vh + 0px))")
+    await user.click(screen.getByRole("button", { name: "Resize sheet" }))
+    expect(dialog.style.transform).toContain("0vh")
+  })
+
+  it("cycles snap points when the handle is pressed", async () => {
+    const { user } = renderBottomSheet({ snapPoints: [0.25, 0.5] })
+    await user.click(screen.getByRole("button", { name: "Filters" }))
+    const dialog = screen.getByRole("dialog")
+    expect(dialog.style.transform).toContain("25vh")
+
+    await user.click(screen.getByRole("button", { name: "Resize sheet" }))
+
+    expect(dialog.style.transform).toContain("0vh")
+  })
+})
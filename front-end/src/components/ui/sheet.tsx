@@ -5,9 +5,43 @@ import * as SheetPrimitive from "@radix-ui/react-dialog"
 import { cva, type VariantProps } from "class-variance-authority"
 import { X } from "lucide-react"
 
+import { useTranslate } from "../../lib/i18n"
+import { resolveSnap, rubberBand } from "../lib/snap-points"
 import { cn } from "../lib/utils"
 
-const Sheet = SheetPrimitive.Root
+interface SheetContextValue {
+  open: boolean
+  setOpen: (open: boolean) => void
+}
+
+const SheetContext = React.createContext<SheetContextValue | null>(null)
+
+/** Radix `Dialog.Root`, plus a way for the content to close itself on drag. */
+const Sheet = ({
+  open: openProp,
+  defaultOpen = false,
+  onOpenChange,
+  ...props
+}: SheetPrimitive.DialogProps) => {
+  const [internal, setInternal] = React.useState(defaultOpen)
+  const open = openProp ?? internal
+
+  const setOpen = React.useCallback(
+    (next: boolean) => {
+      setInternal(next)
+      onOpenChange?.(next)
+    },
+    [onOpenChange]
+  )
+  const context = React.useMemo(() => ({ open, setOpen }), [open, setOpen])
+
+  return (
+    <SheetContext.Provider value={context}>
+      <SheetPrimitive.Root open={open} onOpenChange={setOpen} {...props} />
+    </SheetContext.Provider>
+  )
+}
+Sheet.displayName = "Sheet"
 
 const SheetTrigger = SheetPrimitive.Trigger
 
@@ -26,8 +60,11 @@ const portalVariants = cva("fixed inset-0 z-50 flex", {
 })
 
 interface SheetPortalProps
-  extends SheetPrimitive.DialogPortalProps,
-    VariantProps<typeof portalVariants> {}
+  extends
+    SheetPrimitive.DialogPortalProps,
+    VariantProps<typeof portalVariants> {
+  className?: string
+}
 
 const SheetPortal = ({
   position,
@@ -35,8 +72,10 @@ const SheetPortal = ({
   children,
   ...props
 }: SheetPortalProps) => (
-  <SheetPrimitive.Portal className={cn(className)} {...props}>
-    <div className={portalVariants({ position })}>{children}</div>
+  <SheetPrimitive.Portal {...props}>
+    <div className={cn(portalVariants({ position }), className)}>
+      {children}
+    </div>
   </SheetPrimitive.Portal>
 )
 SheetPortal.displayName = SheetPrimitive.Portal.displayName
@@ -47,7 +86,7 @@ const SheetOverlay = React.forwardRef<
 >(({ className, children, ...props }, ref) => (
   <SheetPrimitive.Overlay
     className={cn(
-      "fixed inset-0 z-50 bg-background/80 backdrop-blur-sm transition-all duration-100 data-[state=closed]:animate-out data-[state=closed]:fade-out data-[state=open]:fade-in",
+      "fixed inset-0 z-50 bg-background/80 backdrop-blur-sm data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
       className
     )}
     {...props}
@@ -57,14 +96,16 @@ const SheetOverlay = React.forwardRef<
 SheetOverlay.displayName = SheetPrimitive.Overlay.displayName
 
 const sheetVariants = cva(
-  "fixed z-50 scale-100 gap-4 bg-background p-6 opacity-100 shadow-lg border",
+  "fixed z-50 scale-100 gap-4 bg-background p-6 opacity-100 shadow-lg border data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=open]:duration-300 data-[state=closed]:duration-200",
   {
     variants: {
       position: {
-        top: "animate-in slide-in-from-top w-full duration-300",
-        bottom: "animate-in slide-in-from-bottom w-full duration-300",
-        left: "animate-in slide-in-from-left h-full duration-300",
-        right: "animate-in slide-in-from-right h-full duration-300",
+        top: "w-full data-[state=open]:slide-in-from-top data-[state=closed]:slide-out-to-top",
+        bottom:
+          "w-full rounded-t-lg data-[state=open]:slide-in-from-bottom data-[state=closed]:slide-out-to-bottom",
+        left: "h-full data-[state=open]:slide-in-from-left data-[state=closed]:slide-out-to-left",
+        right:
+          "h-full data-[state=open]:slide-in-from-right data-[state=closed]:slide-out-to-right",
       },
       size: {
         content: "",
@@ -145,28 +186,217 @@ const sheetVariants = cva(
 )
 
 export interface DialogContentProps
-  extends React.ComponentPropsWithoutRef<typeof SheetPrimitive.Content>,
-    VariantProps<typeof sheetVariants> {}
+  extends
+    React.ComponentPropsWithoutRef<typeof SheetPrimitive.Content>,
+    VariantProps<typeof sheetVariants> {
+  /**
+   * Bottom sheets only: heights the sheet rests at, as fractions of the
+   * viewport, e.g. `[0.25, 0.5, 0.9]`. Dragging the handle moves between them.
+   */
+  snapPoints?: number[]
+  snapPoint?: number
+  defaultSnapPoint?: number
+  onSnapPointChange?: (snapPoint: number) => void
+  /** Bottom sheets only: dragging down past the lowest snap closes the sheet. */
+  dismissible?: boolean
+}
+
+interface DragState {
+  startY: number
+  lastY: number
+  lastTime: number
+  velocity: number
+  moved: boolean
+}
+
+/** Movement (px) below which a press on the handle counts as a tap. */
+const TAP_SLOP = 4
 
 const SheetContent = React.forwardRef<
   React.ElementRef<typeof SheetPrimitive.Content>,
   DialogContentProps
->(({ position, size, className, children, ...props }, ref) => (
-  <SheetPortal position={position}>
-    <SheetOverlay />
-    <SheetPrimitive.Content
-      ref={ref}
-      className={cn(sheetVariants({ position, size }), className)}
-      {...props}
-    >
-      {children}
-      <SheetPrimitive.Close className="absolute right-4 top-4 rounded-sm opacity-70 ring-offset-background transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:pointer-events-none data-[state=open]:bg-secondary">
-        <X className="h-4 w-4" />
-        <span className="sr-only">Close</span>
-      </SheetPrimitive.Close>
-    </SheetPrimitive.Content>
-  </SheetPortal>
-))
+>(
+  (
+    {
+      position,
+      size,
+      className,
+      style,
+      children,
+      snapPoints,
+      snapPoint: snapPointProp,
+      defaultSnapPoint,
+      onSnapPointChange,
+      dismissible = true,
+      ...props
+    },
+    ref
+  ) => {
+    const sheet = React.useContext(SheetContext)
+    const t = useTranslate()
+    const contentRef = React.useRef<HTMLDivElement>(null)
+    React.useImperativeHandle(ref, () => contentRef.current!)
+
+    const draggable = position === "bottom"
+    const snaps = draggable && snapPoints?.length ? snapPoints : null
+    const highest = snaps ? Math.max(...snaps) : 1
+
+    const [internalSnap, setInternalSnap] = React.useState(
+      () => defaultSnapPoint ?? snaps?.[0] ?? 1
+    )
+    const activeSnap = snapPointProp ?? internalSnap
+    const setSnap = (next: number) => {
+      setInternalSnap(next)
+      onSnapPointChange?.(next)
+    }
+
+    const drag = React.useRef<DragState | null>(null)
+    // Pixels the sheet is pulled down from its resting place while dragging.
+    const [dragOffset, setDragOffset] = React.useState<number | null>(null)
+    // A drag ends in a click on the handle, which must not cycle snaps.
+    const justDragged = React.useRef(false)
+
+    // The content stays mounted while closed, so a sheet dismissed by
+    // dragging would reopen where it was dropped.
+    const open = sheet?.open
+    const [wasOpen, setWasOpen] = React.useState(open)
+    if (wasOpen !== open) {
+      setWasOpen(open)
+      if (open) setDragOffset(null)
+    }
+    React.useEffect(() => {
+      drag.current = null
+      justDragged.current = false
+    }, [open])
+
+    const measure = () => {
+      const viewport = window.innerHeight
+      const sheetHeight = snaps
+        ? highest * viewport
+        : (contentRef.current?.offsetHeight ?? 0)
+      const resting = snaps ? activeSnap * viewport : sheetHeight
+      return { viewport, sheetHeight, resting }
+    }
+
+    const onPointerDown = (event: React.PointerEvent<HTMLElement>) => {
+      if (event.button !== 0) return
+      justDragged.current = false
+      event.currentTarget.setPointerCapture(event.pointerId)
+      drag.current = {
+        startY: event.clientY,
+        lastY: event.clientY,
+        lastTime: event.timeStamp,
+        velocity: 0,
+        moved: false,
+      }
+    }
+
+    const onPointerMove = (event: React.PointerEvent<HTMLElement>) => {
+      const state = drag.current
+      if (!state) return
+      const delta = event.clientY - state.startY
+      if (Math.abs(delta) > TAP_SLOP) state.moved = true
+      if (!state.moved) return
+
+      const elapsed = event.timeStamp - state.lastTime
+      if (elapsed > 0) state.velocity = (event.clientY - state.lastY) / elapsed
+      state.lastY = event.clientY
+      state.lastTime = event.timeStamp
+
+      const { sheetHeight, resting } = measure()
+      const visible = rubberBand(resting - delta, sheetHeight)
+      setDragOffset(resting - Math.max(0, visible))
+    }
+
+    const onPointerUp = (event: React.PointerEvent<HTMLElement>) => {
+      const state = drag.current
+      drag.current = null
+      if (!state?.moved) return
+      justDragged.current = true
+
+      const { viewport, sheetHeight, resting } = measure()
+      const heights = snaps
+        ? snaps.map((snap) => snap * viewport)
+        : [sheetHeight]
+      // Holding still before letting go shouldn't count as a flick.
+      const velocity =
+        event.timeStamp - state.lastTime > 100 ? 0 : state.velocity
+      const settled = resolveSnap({
+        snapHeights: heights,
+        height: rubberBand(resting - (state.lastY - state.startY), sheetHeight),
+        velocity,
+        dismissible,
+      })
+
+      if (settled === null) {
+        // Leave the sheet where it was dropped; the exit animation takes over.
+        sheet?.setOpen(false)
+        return
+      }
+      if (snaps) setSnap(snaps[settled])
+      setDragOffset(null)
+    }
+
+    const cycleSnap = () => {
+      if (!snaps) return
+      const ordered = [...snaps].sort((a, b) => a - b)
+      const next = ordered[(ordered.indexOf(activeSnap) + 1) % ordered.length]
+      setSnap(next)
+    }
+
+    const restingOffset = snaps ? `${(highest - activeSnap) * 100}vh` : "0px"
+    const dragStyle: React.CSSProperties = draggable
+      ? {
+          height: snaps ? `${highest * 100}vh` : undefined,
+          transform: `translateY(calc(${restingOffset} + ${dragOffset ?? 0}px))`,
+          transition:
+            dragOffset === null
+              ? "transform 300ms cubic-bezier(0.32, 0.72, 0, 1)"
+              : "none",
+        }
+      : {}
+
+    return (
+      <SheetPortal position={position}>
+        <SheetOverlay />
+        <SheetPrimitive.Content
+          ref={contentRef}
+          className={cn(
+            sheetVariants({ position, size }),
+            draggable && "pt-3",
+            className
+          )}
+          style={{ ...dragStyle, ...style }}
+          {...props}
+        >
+          {draggable && (
+            <button
+              type="button"
+              aria-label={
+                snaps ? t("ui.sheet.resize") : t("ui.sheet.dragToDismiss")
+              }
+              tabIndex={snaps ? undefined : -1}
+              className="mx-auto mb-3 block h-1.5 w-12 shrink-0 cursor-grab touch-none rounded-full bg-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerUp}
+              onClick={() => {
+                if (justDragged.current) justDragged.current = false
+                else cycleSnap()
+              }}
+            />
+          )}
+          {children}
+          <SheetPrimitive.Close className="absolute right-4 top-4 rounded-sm opacity-70 ring-offset-background transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:pointer-events-none data-[state=open]:bg-secondary">
+            <X className="h-4 w-4" />
+            <span className="sr-only">{t("ui.close")}</span>
+          </SheetPrimitive.Close>
+        </SheetPrimitive.Content>
+      </SheetPortal>
+    )
+  }
+)
 SheetContent.displayName = SheetPrimitive.Content.displayName
 
 const SheetHeader = ({
@@ -230,4 +460,5 @@ export {
   SheetFooter,
   SheetTitle,
   SheetDescription,
+  sheetVariants,
 }
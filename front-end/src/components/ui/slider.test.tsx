@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Slider } from "./slider"
+
+describe("Slider", () => {
+  it("renders one thumb per value", () => {
+    setup(<Slider defaultValue={[10, 90]} />)
+
+    const thumbs = screen.getAllByRole("slider")
+    expect(thumbs).toHaveLength(2)
+    expect(thumbs[0]).toHaveAccessibleName("Minimum")
+    expect(thumbs[1]).toHaveAccessibleName("Maximum")
+  })
+
+  it("steps the focused thumb with the arrow keys", async () => {
+    const onValueChange = vi.fn()
+    const { user } = setup(
+      <Slider defaultValue={[10, 90]} step={5} onValueChange={onValueChange} />
+    )
+    await user.tab()
+
+    await user.keyboard("{ArrowRight}")
+
+    expect(onValueChange).toHaveBeenLastCalledWith([15, 90])
+    expect(screen.getAllByRole("slider")[0]).toHaveAttribute(
+      "aria-valuenow",
+      "15"
+    )
+  })
+
+  it("announces formatted values", () => {
+    const format = new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 0,
+    }).format
+    setup(
+      <Slider
+        defaultValue={[250]}
+        max={1000}
+        formatValue={format}
+        thumbLabels={["Budget"]}
+      />
+    )
+
+    const thumb = screen.getByRole("slider", { name: "Budget" })
+    expect(thumb).toHaveAttribute("aria-valuetext", "$250")
+  })
+
+  it("exposes vertical orientation", () => {
+    setup(<Slider defaultValue={[50]} orientation="vertical" />)
+
+    expect(screen.getByRole("slider")).toHaveAttribute(
+      "aria-orientation",
+      "vertical"
+    )
+  })
+})
@@ -5,24 +5,192 @@ import * as SliderPrimitive from "@radix-ui/react-slider"
 
 import { cn } from "../lib/utils"
 
+/** Thumb diameter in pixels; keep in sync with the thumb's `h-5 w-5`. */
+const THUMB_SIZE = 20
+
+/** Ticks beyond this count are dropped rather than drawn as a solid bar. */
+const MAX_STEP_TICKS = 100
+
+type ValueLabelMode = "auto" | "always" | "never"
+
+export interface SliderProps extends React.ComponentPropsWithoutRef<
+  typeof SliderPrimitive.Root
+> {
+  /** Formats values for the thumb labels, tick labels and screen readers. */
+  formatValue?: (value: number) => string
+  /**
+   * Shows each thumb's value above it: while hovered, focused or dragged
+   * (`"auto"`), permanently, or not at all.
+   */
+  valueLabel?: ValueLabelMode
+  /** Tick marks at every step (`true`) or at the given values. */
+  ticks?: boolean | number[]
+  /** Prints the formatted value under each tick. */
+  tickLabels?: boolean
+  /** Accessible names per thumb, e.g. `["Minimum price", "Maximum price"]`. */
+  thumbLabels?: string[]
+}
+
+function stepTicks(min: number, max: number, step: number) {
+  const count = Math.floor((max - min) / step)
+  if (count > MAX_STEP_TICKS) return []
+  return Array.from({ length: count + 1 }, (_, i) => min + i * step)
+}
+
+/**
+ * Mirrors where Radix puts a thumb's centre at `percent`, which keeps the
+ * thumb inside the track at both ends.
+ */
+function positionStyle(
+  percent: number,
+  orientation: "horizontal" | "vertical",
+  fromEnd: boolean
+): React.CSSProperties {
+  const half = THUMB_SIZE / 2
+  const offset = `calc(${percent}% + ${half - (percent / 50) * half}px)`
+  if (orientation === "vertical") {
+    return fromEnd
+      ? { top: offset, transform: "translateY(-50%)" }
+      : { bottom: offset, transform: "translateY(50%)" }
+  }
+  return fromEnd
+    ? { right: offset, transform: "translateX(50%)" }
+    : { left: offset, transform: "translateX(-50%)" }
+}
+
 const Slider = React.forwardRef<
   React.ElementRef<typeof SliderPrimitive.Root>,
-  React.ComponentPropsWithoutRef<typeof SliderPrimitive.Root>
->(({ className, ...props }, ref) => (
-  <SliderPrimitive.Root
-    ref={ref}
-    className={cn(
-      "relative flex w-full touch-none select-none items-center",
-      className
-    )}
-    {...props}
-  >
-    <SliderPrimitive.Track className="relative h-2 w-full grow overflow-hidden rounded-full bg-secondary">
-      <SliderPrimitive.Range className="absolute h-full bg-primary" />
-    </SliderPrimitive.Track>
-    <SliderPrimitive.Thumb className="block h-5 w-5 rounded-full border-2 border-primary bg-background ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50" />
-  </SliderPrimitive.Root>
-))
+  SliderProps
+>(
+  (
+    {
+      className,
+      formatValue = String,
+      valueLabel = "never",
+      ticks = false,
+      tickLabels = false,
+      thumbLabels,
+      value: valueProp,
+      defaultValue,
+      onValueChange,
+      min = 0,
+      max = 100,
+      step = 1,
+      orientation = "horizontal",
+      inverted = false,
+      dir,
+      ...props
+    },
+    ref
+  ) => {
+    const [internal, setInternal] = React.useState(defaultValue ?? [min])
+    const values = valueProp ?? internal
+
+    const vertical = orientation === "vertical"
+    // Radix runs vertical sliders bottom-to-top and flips for RTL/inverted.
+    const fromEnd = vertical ? inverted : (dir === "rtl") !== inverted
+    const tickValues = ticks === true ? stepTicks(min, max, step) : ticks || []
+    const percent = (value: number) =>
+      max === min ? 0 : ((value - min) / (max - min)) * 100
+
+    return (
+      <SliderPrimitive.Root
+        ref={ref}
+        className={cn(
+          "relative flex touch-none select-none items-center",
+          vertical ? "h-full min-h-40 w-5 flex-col" : "w-full",
+          tickLabels && (vertical ? "mr-8" : "mb-6"),
+          className
+        )}
+        value={valueProp}
+        defaultValue={defaultValue}
+        onValueChange={(next) => {
+          setInternal(next)
+          onValueChange?.(next)
+        }}
+        min={min}
+        max={max}
+        step={step}
+        orientation={orientation}
+        inverted={inverted}
+        dir={dir}
+        {...props}
+      >
+        <SliderPrimitive.Track
+          className={cn(
+            "relative grow overflow-hidden rounded-full bg-secondary",
+            vertical ? "h-full w-2" : "h-2 w-full"
+          )}
+        >
+          <SliderPrimitive.Range
+            className={cn(
+              "absolute bg-primary",
+              vertical ? "w-full" : "h-full"
+            )}
+          />
+        </SliderPrimitive.Track>
+        {tickValues.length > 0 && (
+          <div aria-hidden className="pointer-events-none absolute inset-0">
+            {tickValues.map((tick) => (
+              <span
+                key={tick}
+                className={cn(
+                  "absolute flex items-center text-xs text-muted-foreground",
+                  vertical
+                    ? "left-full ml-1 flex-row"
+                    : "top-full mt-1 flex-col"
+                )}
+                style={positionStyle(percent(tick), orientation, fromEnd)}
+              >
+                <span
+                  className={cn(
+                    "bg-muted-foreground/50",
+                    vertical ? "h-px w-1.5" : "h-1.5 w-px"
+                  )}
+                />
+                {tickLabels && (
+                  <span
+                    className={cn(
+                      "whitespace-nowrap",
+                      vertical ? "ml-1" : "mt-0.5"
+                    )}
+                  >
+                    {formatValue(tick)}
+                  </span>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+        {values.map((value, index) => (
+          <SliderPrimitive.Thumb
+            key={index}
+            // Passing undefined would override Radix's Minimum/Maximum names.
+            {...(thumbLabels?.[index] && { "aria-label": thumbLabels[index] })}
+            aria-valuetext={formatValue(value)}
+            className="group relative block h-5 w-5 rounded-full border-2 border-primary bg-background ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50"
+          >
+            {valueLabel !== "never" && (
+              <span
+                aria-hidden
+                className={cn(
+                  "pointer-events-none absolute whitespace-nowrap rounded-md border bg-popover px-2 py-0.5 text-xs text-popover-foreground shadow-md transition-opacity",
+                  vertical
+                    ? "left-full top-1/2 ml-2 -translate-y-1/2"
+                    : "bottom-full left-1/2 mb-2 -translate-x-1/2",
+                  valueLabel === "auto" &&
+                    "opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100 group-active:opacity-100"
+                )}
+              >
+                {formatValue(value)}
+              </span>
+            )}
+          </SliderPrimitive.Thumb>
+        ))}
+      </SliderPrimitive.Root>
+    )
+  }
+)
 Slider.displayName = SliderPrimitive.Root.displayName
 
 export { Slider }
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Switch } from "./switch"
+
+describe("Switch", () => {
+  it("flips aria-checked with a click and with Enter", async () => {
+    const { user } = setup(<Switch aria-label="Airplane mode" />)
+    const toggle = screen.getByRole("switch", { name: "Airplane mode" })
+    expect(toggle).toHaveAttribute("aria-checked", "false")
+
+    await user.click(toggle)
+    expect(toggle).toHaveAttribute("aria-checked", "true")
+
+    await user.keyboard("{Enter}")
+    expect(toggle).toHaveAttribute("aria-checked", "false")
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./tabs"
+
+function renderTabs() {
+  return setup(
+    <Tabs defaultValue="account">
+      <TabsList aria-label="Settings">
+        <TabsTrigger value="account">Account</TabsTrigger>
+        <TabsTrigger value="password">Password</TabsTrigger>
+        <TabsTrigger value="billing" disabled>
+          Billing
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="account">Account details</TabsContent>
+      <TabsContent value="password">Change password</TabsContent>
+      <TabsContent value="billing">Invoices</TabsContent>
+    </Tabs>
+  )
+}
+
+describe("Tabs", () => {
+  it("links each tab to its panel", () => {
+    renderTabs()
+    const tab = screen.getByRole("tab", { name: "Account" })
+    const panel = screen.getByRole("tabpanel")
+
+    expect(screen.getByRole("tablist")).toHaveAccessibleName("Settings")
+    expect(tab).toHaveAttribute("aria-selected", "true")
+    expect(tab).toHaveAttribute("aria-controls", panel.id)
+    expect(panel).toHaveAccessibleName("Account")
+  })
+
+  it("moves between tabs with the arrow keys, skipping disabled ones", async () => {
+    const { user } = renderTabs()
+    await user.click(screen.getByRole("tab", { name: "Account" }))
+
+    await user.keyboard("{ArrowRight}")
+    expect(screen.getByRole("tab", { name: "Password" })).toHaveFocus()
+    expect(screen.getByRole("tabpanel")).toHaveTextContent("Change password")
+
+    await user.keyboard("{ArrowRight}")
+    expect(screen.getByRole("tab", { name: "Account" })).toHaveFocus()
+
+    await user.keyboard("{ArrowLeft}")
+    expect(screen.getByRole("tab", { name: "Password" })).toHaveFocus()
+  })
+
+  it("jumps to the ends with Home and End", async () => {
+    const { user } = renderTabs()
+    await user.click(screen.getByRole("tab", { name: "Password" }))
+
+    await user.keyboard("{Home}")
+    expect(screen.getByRole("tab", { name: "Account" })).toHaveFocus()
+
+    await user.keyboard("{End}")
+    expect(screen.getByRole("tab", { name: "Password" })).toHaveFocus()
+  })
+
+  it("keeps a single tab stop in the list", async () => {
+    const { user } = renderTabs()
+    await user.tab()
+    expect(screen.getByRole("tab", { name: "Account" })).toHaveFocus()
+
+    await user.tab()
+    expect(screen.getByRole("tabpanel")).toHaveFocus()
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+
+import { act, screen, setup, waitFor } from "../../test/render"
+import { Toaster } from "./toaster"
+import { createToastStore, ToastStoreProvider } from "./use-toast"
+
+function renderToaster(limit?: number) {
+  const store = createToastStore({ removeDelay: 0 })
+  const result = setup(
+    <ToastStoreProvider store={store}>
+      <Toaster limit={limit} />
+    </ToastStoreProvider>
+  )
+  return { store, ...result }
+}
+
+describe("Toaster", () => {
+  it("announces toasts in a labelled region", () => {
+    const { store } = renderToaster()
+    act(() => {
+      store.toast({ title: "Saved", description: "All changes stored." })
+    })
+
+    expect(screen.getByRole("region")).toHaveAccessibleName(/notifications/i)
+    expect(screen.getByText("Saved").closest("li")).toHaveAttribute(
+      "role",
+      "status"
+    )
+  })
+
+  it("dismisses a toast from its close button", async () => {
+    const { store, user } = renderToaster()
+    act(() => {
+      store.toast({ title: "Saved" })
+    })
+
+    await user.click(screen.getByRole("button", { name: "Close" }))
+
+    await waitFor(() => expect(screen.queryByText("Saved")).toBeNull())
+    expect(store.getState().toasts).toEqual([])
+  })
+
+  it("dismisses the focused toast with Escape", async () => {
+    const { store, user } = renderToaster()
+    act(() => {
+      store.toast({ title: "Saved" })
+    })
+
+    screen.getByText("Saved").closest("li")!.focus()
+    await user.keyboard("{Escape}")
+
+    await waitFor(() => expect(screen.queryByText("Saved")).toBeNull())
+  })
+
+  it("shows queued toasts once a slot frees up", async () => {
+    const { store } = renderToaster(1)
+    act(() => {
+      store.toast({ title: "First" })
+      store.toast({ title: "Second" })
+    })
+    expect(screen.queryByText("Second")).toBeNull()
+
+    act(() => store.dismiss(store.getState().toasts[0].id))
+
+    expect(await screen.findByText("Second")).toBeInTheDocument()
+  })
+})
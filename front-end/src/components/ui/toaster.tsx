@@ -1,5 +1,7 @@
 "use client"
 
+import { AlertTriangle, CheckCircle2, Info, Loader2 } from "lucide-react"
+
 import {
   Toast,
   ToastClose,
@@ -7,22 +9,69 @@ import {
   ToastProvider,
   ToastTitle,
   ToastViewport,
-} from "@/components/ui/toast"
-import { useToast } from "@/components/ui/use-toast"
+  type ToastProps,
+} from "./toast"
+import {
+  partitionToasts,
+  useToast,
+  TOAST_DURATION,
+  TOAST_LIMIT,
+} from "./use-toast"
+
+const variantIcons = {
+  success: CheckCircle2,
+  warning: AlertTriangle,
+  info: Info,
+}
+
+function ToastIcon({
+  variant,
+  loading,
+}: Pick<ToastProps, "variant"> & { loading?: boolean }) {
+  if (loading) {
+    return <Loader2 className="h-5 w-5 shrink-0 animate-spin" aria-hidden />
+  }
+  const Icon =
+    variant && variant in variantIcons
+      ? variantIcons[variant as keyof typeof variantIcons]
+      : null
+  return Icon ? <Icon className="h-5 w-5 shrink-0" aria-hidden /> : null
+}
+
+export interface ToasterProps {
+  /** Toasts on screen at once; extra toasts queue until a slot frees up. */
+  limit?: number
+  /** Default auto-dismiss delay in ms; a toast's own `duration` wins. */
+  duration?: number
+}
 
-export function Toaster() {
+export function Toaster({
+  limit = TOAST_LIMIT,
+  duration = TOAST_DURATION,
+}: ToasterProps) {
   const { toasts } = useToast()
+  const { visible } = partitionToasts(toasts, limit)
 
   return (
-    <ToastProvider>
-      {toasts.map(function ({ id, title, description, action, ...props }) {
+    <ToastProvider duration={duration}>
+      {visible.map(function ({
+        id,
+        title,
+        description,
+        action,
+        loading,
+        ...props
+      }) {
         return (
           <Toast key={id} {...props}>
-            <div className="grid gap-1">
-              {title && <ToastTitle>{title}</ToastTitle>}
-              {description && (
-                <ToastDescription>{description}</ToastDescription>
-              )}
+            <div className="flex items-start gap-3">
+              <ToastIcon variant={props.variant} loading={loading} />
+              <div className="grid gap-1">
+                {title && <ToastTitle>{title}</ToastTitle>}
+                {description && (
+                  <ToastDescription>{description}</ToastDescription>
+                )}
+              </div>
             </div>
             {action}
             <ToastClose />
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { ToggleGroup, ToggleGroupItem } from "./toggle-group"
+
+describe("ToggleGroup", () => {
+  it("presses one item at a time in single mode", async () => {
+    const { user } = setup(
+      <ToggleGroup type="single" aria-label="Alignment">
+        <ToggleGroupItem value="left">Left</ToggleGroupItem>
+        <ToggleGroupItem value="center">Center</ToggleGroupItem>
+      </ToggleGroup>
+    )
+
+    await user.click(screen.getByRole("radio", { name: "Left" }))
+    await user.click(screen.getByRole("radio", { name: "Center" }))
+
+    expect(screen.getByRole("radio", { name: "Left" })).not.toBeChecked()
+    expect(screen.getByRole("radio", { name: "Center" })).toBeChecked()
+  })
+
+  it("moves focus with the arrow keys in multiple mode", async () => {
+    const { user } = setup(
+      <ToggleGroup type="multiple" aria-label="Formatting">
+        <ToggleGroupItem value="bold">Bold</ToggleGroupItem>
+        <ToggleGroupItem value="italic">Italic</ToggleGroupItem>
+      </ToggleGroup>
+    )
+    await user.tab()
+
+    await user.keyboard("{ArrowRight}")
+    const italic = screen.getByRole("button", { name: "Italic" })
+    expect(italic).toHaveFocus()
+
+    await user.keyboard(" ")
+    expect(italic).toHaveAttribute("aria-pressed", "true")
+  })
+})
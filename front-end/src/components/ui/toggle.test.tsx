@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import { Toggle } from "./toggle"
+
+describe("Toggle", () => {
+  it("flips aria-pressed with Space and Enter", async () => {
+    const onPressedChange = vi.fn()
+    const { user } = setup(
+      <Toggle aria-label="Bold" onPressedChange={onPressedChange}>
+        B
+      </Toggle>
+    )
+    const toggle = screen.getByRole("button", { name: "Bold" })
+    expect(toggle).toHaveAttribute("aria-pressed", "false")
+
+    await user.tab()
+    await user.keyboard(" ")
+    expect(toggle).toHaveAttribute("aria-pressed", "true")
+
+    await user.keyboard("{Enter}")
+    expect(toggle).toHaveAttribute("aria-pressed", "false")
+    expect(onPressedChange.mock.calls).toEqual([[true], [false]])
+  })
+
+  it("can't be toggled while disabled", async () => {
+    const { user } = setup(
+      <Toggle aria-label="Italic" disabled>
+        I
+      </Toggle>
+    )
+
+    await user.click(screen.getByRole("button", { name: "Italic" }))
+
+    expect(screen.getByRole("button", { name: "Italic" })).toHaveAttribute(
+      "aria-pressed",
+      "false"
+    )
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+
+import { screen, setup } from "../../test/render"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "./tooltip"
+
+function renderTooltip() {
+  return setup(
+    <TooltipProvider delayDuration={0}>
+      <Tooltip>
+        <TooltipTrigger>Share</TooltipTrigger>
+        <TooltipContent>Copy a link to this page</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+describe("Tooltip", () => {
+  it("describes the trigger while it has keyboard focus", async () => {
+    const { user } = renderTooltip()
+
+    await user.tab()
+
+    const trigger = screen.getByRole("button", { name: "Share" })
+    expect(await screen.findByRole("tooltip")).toHaveTextContent(
+      "Copy a link to this page"
+    )
+    expect(trigger).toHaveAccessibleDescription("Copy a link to this page")
+  })
+
+  it("hides on Escape and keeps focus on the trigger", async () => {
+    const { user } = renderTooltip()
+    await user.tab()
+    await screen.findByRole("tooltip")
+
+    await user.keyboard("{Escape}")
+
+    expect(screen.queryByRole("tooltip")).toBeNull()
+    expect(screen.getByRole("button", { name: "Share" })).toHaveFocus()
+  })
+})
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  createToastStore,
+  partitionToasts,
+  reducer,
+  type ToasterToast,
+} from "./use-toast"
+
+const make = (id: string, extra: Partial<ToasterToast> = {}): ToasterToast => ({
+  id,
+  title: `Toast ${id}`,
+  open: true,
+  ...extra,
+})
+
+describe("reducer", () => {
+  it("appends added toasts oldest first", () => {
+    let state = reducer({ toasts: [] }, { type: "ADD_TOAST", toast: make("1") })
+    state = reducer(state, { type: "ADD_TOAST", toast: make("2") })
+
+    expect(state.toasts.map((t) => t.id)).toEqual(["1", "2"])
+  })
+
+  it("merges updates into the matching toast only", () => {
+    const state = reducer(
+      { toasts: [make("1"), make("2")] },
+      { type: "UPDATE_TOAST", toast: { id: "2", title: "Saved" } }
+    )
+
+    expect(state.toasts[0].title).toBe("Toast 1")
+    expect(state.toasts[1]).toMatchObject({ id: "2", title: "Saved" })
+  })
+
+  it("closes one toast, or all of them without an id", () => {
+    const initial = { toasts: [make("1"), make("2")] }
+
+    const one = reducer(initial, { type: "DISMISS_TOAST", toastId: "1" })
+    expect(one.toasts.map((t) => t.open)).toEqual([false, true])
+
+    const all = reducer(initial, { type: "DISMISS_TOAST" })
+    expect(all.toasts.every((t) => t.open === false)).toBe(true)
+  })
+
+  it("removes one toast, or all of them without an id", () => {
+    const initial = { toasts: [make("1"), make("2")] }
+
+    expect(
+      reducer(initial, { type: "REMOVE_TOAST", toastId: "1" }).toasts
+    ).toEqual([make("2")])
+    expect(reducer(initial, { type: "REMOVE_TOAST" }).toasts).toEqual([])
+  })
+
+  it("does not mutate the previous state", () => {
+    const initial = { toasts: [make("1")] }
+    reducer(initial, { type: "DISMISS_TOAST", toastId: "1" })
+
+    expect(initial.toasts[0].open).toBe(true)
+  })
+})
+
+describe("partitionToasts", () => {
+  it("queues toasts past the limit", () => {
+    const { visible, queued } = partitionToasts(
+      ["1", "2", "3", "4"].map((id) => make(id)),
+      3
+    )
+
+    expect(visible.map((t) => t.id)).toEqual(["1", "2", "3"])
+    expect(queued.map((t) => t.id)).toEqual(["4"])
+  })
+
+  it("keeps closing toasts visible without using a slot", () => {
+    const { visible, queued } = partitionToasts(
+      [make("1", { open: false }), make("2"), make("3")],
+      2
+    )
+
+    expect(visible.map((t) => t.id)).toEqual(["1", "2", "3"])
+    expect(queued).toEqual([])
+  })
+})
+
+describe("createToastStore", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("removes dismissed toasts after the exit delay", () => {
+    vi.useFakeTimers()
+    const store = createToastStore({ removeDelay: 500 })
+    const { id, dismiss } = store.toast({ title: "Hello" })
+
+    dismiss()
+    expect(store.getState().toasts).toMatchObject([{ id, open: false }])
+
+    vi.advanceTimersByTime(500)
+    expect(store.getState().toasts).toEqual([])
+  })
+
+  it("notifies subscribers on every change", () => {
+    const store = createToastStore()
+    const listener = vi.fn()
+    const unsubscribe = store.subscribe(listener)
+
+    store.toast({ title: "One" })
+    store.dismiss()
+    unsubscribe()
+    store.toast({ title: "Two" })
+
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it("turns a promise toast into a success toast", async () => {
+    const store = createToastStore()
+
+    await store.toast.promise(Promise.resolve(3), {
+      loading: "Saving…",
+      success: (count) => ({ title: `Saved ${count} items` }),
+      error: "Failed",
+    })
+
+    expect(store.getState().toasts).toMatchObject([
+      { title: "Saved 3 items", variant: "success", loading: false },
+    ])
+  })
+
+  it("turns a rejected promise toast into a destructive toast", async () => {
+    const store = createToastStore()
+
+    await store.toast
+      .promise(Promise.reject(new Error("offline")), {
+        loading: "Saving…",
+        success: "Saved",
+        error: (error) => ({ title: (error as Error).message }),
+      })
+      .catch(() => {})
+
+    expect(store.getState().toasts).toMatchObject([
+      { title: "offline", variant: "destructive", loading: false },
+    ])
+  })
+})
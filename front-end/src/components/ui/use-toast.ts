@@ -1,16 +1,22 @@
 // Inspired by react-hot-toast library
 import * as React from "react"
 
-import type { ToastActionElement, ToastProps } from "@/components/ui/toast"
+import type { ToastActionElement, ToastProps } from "./toast"
 
-const TOAST_LIMIT = 1
-const TOAST_REMOVE_DELAY = 1000000
+/** How many toasts are on screen at once; the rest wait their turn. */
+const TOAST_LIMIT = 3
+/** Default auto-dismiss delay, in ms. */
+const TOAST_DURATION = 5000
+/** Keeps dismissed toasts mounted long enough to play their exit animation. */
+const TOAST_REMOVE_DELAY = 500
 
-type ToasterToast = ToastProps & {
+type ToasterToast = Omit<ToastProps, "title"> & {
   id: string
   title?: React.ReactNode
   description?: React.ReactNode
   action?: ToastActionElement
+  /** Shows a spinner; set by `toast.promise` while the promise is pending. */
+  loading?: boolean
 }
 
 const actionTypes = {
@@ -20,13 +26,6 @@ const actionTypes = {
   REMOVE_TOAST: "REMOVE_TOAST",
 } as const
 
-let count = 0
-
-function genId() {
-  count = (count + 1) % Number.MAX_VALUE
-  return count.toString()
-}
-
 type ActionType = typeof actionTypes
 
 type Action =
@@ -48,33 +47,16 @@ type Action =
     }
 
 interface State {
+  /** Every live toast, oldest first, including queued and closing ones. */
   toasts: ToasterToast[]
 }
 
-const toastTimeouts = new Map<string, ReturnType<typeof setTimeout>>()
-
-const addToRemoveQueue = (toastId: string) => {
-  if (toastTimeouts.has(toastId)) {
-    return
-  }
-
-  const timeout = setTimeout(() => {
-    toastTimeouts.delete(toastId)
-    dispatch({
-      type: "REMOVE_TOAST",
-      toastId: toastId,
-    })
-  }, TOAST_REMOVE_DELAY)
-
-  toastTimeouts.set(toastId, timeout)
-}
-
 export const reducer = (state: State, action: Action): State => {
   switch (action.type) {
     case "ADD_TOAST":
       return {
         ...state,
-        toasts: [action.toast, ...state.toasts].slice(0, TOAST_LIMIT),
+        toasts: [...state.toasts, action.toast],
       }
 
     case "UPDATE_TOAST":
@@ -88,16 +70,6 @@ export const reducer = (state: State, action: Action): State => {
     case "DISMISS_TOAST": {
       const { toastId } = action
 
-      // ! Side effects ! - This could be extracted into a dismissToast() action,
-      // but I'll keep it here for simplicity
-      if (toastId) {
-        addToRemoveQueue(toastId)
-      } else {
-        state.toasts.forEach((toast) => {
-          addToRemoveQueue(toast.id)
-        })
-      }
-
       return {
         ...state,
         toasts: state.toasts.map((t) =>
@@ -124,66 +96,243 @@ export const reducer = (state: State, action: Action): State => {
   }
 }
 
-const listeners: Array<(state: State) => void> = []
+/**
+ * Splits toasts into what is on screen and what is waiting. Closing toasts
+ * stay visible for their exit animation but no longer take up a slot, and
+ * queued toasts are not mounted, so their timers only start once shown.
+ */
+export function partitionToasts(
+  toasts: ToasterToast[],
+  limit: number = TOAST_LIMIT
+) {
+  const visible: ToasterToast[] = []
+  const queued: ToasterToast[] = []
+  let slots = limit
 
-let memoryState: State = { toasts: [] }
+  for (const t of toasts) {
+    if (t.open === false) {
+      visible.push(t)
+    } else if (slots > 0) {
+      visible.push(t)
+      slots--
+    } else {
+      queued.push(t)
+    }
+  }
 
-function dispatch(action: Action) {
-  memoryState = reducer(memoryState, action)
-  listeners.forEach((listener) => {
-    listener(memoryState)
-  })
+  return { visible, queued }
 }
 
 type Toast = Omit<ToasterToast, "id">
 
-function toast({ ...props }: Toast) {
-  const id = genId()
+type PromiseMessage<T> = React.ReactNode | Toast | ((value: T) => Toast)
+
+interface PromiseMessages<T> {
+  loading: React.ReactNode | Toast
+  success: PromiseMessage<T>
+  error: PromiseMessage<unknown>
+}
+
+function isToastProps(value: unknown): value is Toast {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !React.isValidElement(value) &&
+    !Array.isArray(value)
+  )
+}
+
+function resolveMessage<T>(message: PromiseMessage<T>, value: T): Toast {
+  const resolved = typeof message === "function" ? message(value) : message
+  return isToastProps(resolved) ? resolved : { title: resolved }
+}
+
+export interface ToastStoreOptions {
+  /** How long dismissed toasts stay mounted for their exit animation, in ms. */
+  removeDelay?: number
+}
+
+/**
+ * An independent toast queue. Each `Toaster` renders whichever store its
+ * nearest `ToastStoreProvider` supplies, so embedded widgets can keep their
+ * toasts to themselves and tests can start from a clean slate.
+ */
+export function createToastStore({
+  removeDelay = TOAST_REMOVE_DELAY,
+}: ToastStoreOptions = {}) {
+  const listeners = new Set<() => void>()
+  const toastTimeouts = new Map<string, ReturnType<typeof setTimeout>>()
+  let state: State = { toasts: [] }
+  let count = 0
+
+  function genId() {
+    count = (count + 1) % Number.MAX_SAFE_INTEGER
+    return count.toString()
+  }
+
+  function addToRemoveQueue(toastId: string) {
+    if (toastTimeouts.has(toastId)) {
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      toastTimeouts.delete(toastId)
+      dispatch({
+        type: "REMOVE_TOAST",
+        toastId: toastId,
+      })
+    }, removeDelay)
+
+    toastTimeouts.set(toastId, timeout)
+  }
+
+  function dispatch(action: Action) {
+    if (action.type === "DISMISS_TOAST") {
+      const ids = action.toastId
+        ? [action.toastId]
+        : state.toasts.map((t) => t.id)
+      ids.forEach(addToRemoveQueue)
+    }
+
+    state = reducer(state, action)
+    listeners.forEach((listener) => listener())
+  }
+
+  function dismiss(toastId?: string) {
+    dispatch({ type: "DISMISS_TOAST", toastId })
+  }
+
+  function toast({ ...props }: Toast) {
+    const id = genId()
+
+    const update = (props: Partial<Toast>) =>
+      dispatch({
+        type: "UPDATE_TOAST",
+        toast: { ...props, id },
+      })
 
-  const update = (props: ToasterToast) =>
     dispatch({
-      type: "UPDATE_TOAST",
-      toast: { ...props, id },
-    })
-  const dismiss = () => dispatch({ type: "DISMISS_TOAST", toastId: id })
-
-  dispatch({
-    type: "ADD_TOAST",
-    toast: {
-      ...props,
-      id,
-      open: true,
-      onOpenChange: (open) => {
-        if (!open) dismiss()
+      type: "ADD_TOAST",
+      toast: {
+        ...props,
+        id,
+        open: true,
+        onOpenChange: (open) => {
+          if (!open) dismiss(id)
+        },
       },
-    },
-  })
+    })
+
+    return {
+      id: id,
+      dismiss: () => dismiss(id),
+      update,
+    }
+  }
+
+  /**
+   * Shows a loading toast for `promise`, then turns it into a success or
+   * error toast when it settles. Returns the original promise.
+   */
+  toast.promise = function <T>(
+    promise: Promise<T> | (() => Promise<T>),
+    messages: PromiseMessages<T>
+  ) {
+    const pending = typeof promise === "function" ? promise() : promise
+    const { update } = toast({
+      ...resolveMessage(messages.loading, undefined),
+      loading: true,
+      duration: Infinity,
+    })
+
+    pending.then(
+      (value) =>
+        update({
+          variant: "success",
+          duration: undefined,
+          description: undefined,
+          ...resolveMessage(messages.success, value),
+          loading: false,
+        }),
+      (error: unknown) =>
+        update({
+          variant: "destructive",
+          duration: undefined,
+          description: undefined,
+          ...resolveMessage(messages.error, error),
+          loading: false,
+        })
+    )
+
+    return pending
+  }
 
   return {
-    id: id,
+    getState: () => state,
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    dispatch,
+    toast,
     dismiss,
-    update,
+    /** Drops every toast and pending timer. */
+    reset() {
+      toastTimeouts.forEach(clearTimeout)
+      toastTimeouts.clear()
+      state = { toasts: [] }
+      listeners.forEach((listener) => listener())
+    },
   }
 }
 
+export type ToastStore = ReturnType<typeof createToastStore>
+
+/** Backs the module-level `toast()` and any `Toaster` without a provider. */
+const defaultToastStore = createToastStore()
+
+const ToastStoreContext = React.createContext<ToastStore>(defaultToastStore)
+
+function ToastStoreProvider({
+  store,
+  children,
+}: {
+  store: ToastStore
+  children?: React.ReactNode
+}) {
+  return React.createElement(
+    ToastStoreContext.Provider,
+    { value: store },
+    children
+  )
+}
+
+function useToastStore() {
+  return React.useContext(ToastStoreContext)
+}
+
 function useToast() {
-  const [state, setState] = React.useState<State>(memoryState)
-
-  React.useEffect(() => {
-    listeners.push(setState)
-    return () => {
-      const index = listeners.indexOf(setState)
-      if (index > -1) {
-        listeners.splice(index, 1)
-      }
-    }
-  }, [state])
+  const store = useToastStore()
+  const state = React.useSyncExternalStore(store.subscribe, store.getState)
 
   return {
     ...state,
-    toast,
-    dismiss: (toastId?: string) => dispatch({ type: "DISMISS_TOAST", toastId }),
+    toast: store.toast,
+    dismiss: store.dismiss,
   }
 }
 
-export { useToast, toast }
+const toast = defaultToastStore.toast
+
+export {
+  useToast,
+  useToastStore,
+  toast,
+  defaultToastStore,
+  ToastStoreProvider,
+  TOAST_DURATION,
+  TOAST_LIMIT,
+  type ToasterToast,
+}
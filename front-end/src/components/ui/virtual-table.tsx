@@ -0,0 +1,215 @@
+import * as React from "react"
+
+import { cn } from "../lib/utils"
+import { useVirtualizer } from "../lib/use-virtualizer"
+import { ScrollArea } from "./scroll-area"
+import { TableBody, TableHeader, TableRow } from "./table"
+
+type RowProps = React.HTMLAttributes<HTMLTableRowElement> & {
+  [key: `data-${string}`]: string | undefined
+}
+
+export interface VirtualTableProps extends Omit<
+  React.ComponentPropsWithoutRef<typeof ScrollArea>,
+  "children" | "viewportRef"
+> {
+  rowCount: number
+  /** Height of the scroll area. */
+  height: number | string
+  /** Fixed row height in pixels. */
+  rowHeight?: number
+  /**
+   * Estimated row height for measured mode. Used when `rowHeight` is not
+   * given; rows are then measured once rendered.
+   */
+  estimateRowHeight?: number
+  overscan?: number
+  /** Header rows, rendered in a sticky `TableHeader`. */
+  header?: React.ReactNode
+  /** Cells for the row at `index`. */
+  renderRow: (index: number) => React.ReactNode
+  getRowProps?: (index: number) => RowProps
+  /**
+   * Stable id for the row at `index`. Measured heights follow it, so pass
+   * one when rows can be sorted or filtered.
+   */
+  getRowKey?: (index: number) => React.Key
+  /** Called on Enter or Space while a row is focused. */
+  onRowActivate?: (index: number) => void
+  tableClassName?: string
+}
+
+const VirtualTable = React.forwardRef<
+  React.ElementRef<typeof ScrollArea>,
+  VirtualTableProps
+>(
+  (
+    {
+      rowCount,
+      height,
+      rowHeight,
+      estimateRowHeight = 48,
+      overscan,
+      header,
+      renderRow,
+      getRowProps,
+      getRowKey,
+      onRowActivate,
+      className,
+      tableClassName,
+      style,
+      ...props
+    },
+    ref
+  ) => {
+    const viewportRef = React.useRef<HTMLDivElement>(null)
+    const headerRef = React.useRef<HTMLTableSectionElement>(null)
+    const [headerHeight, setHeaderHeight] = React.useState(0)
+    const [activeIndex, setActiveIndex] = React.useState(0)
+    const pendingFocus = React.useRef<number | null>(null)
+
+    React.useLayoutEffect(() => {
+      setHeaderHeight(headerRef.current?.offsetHeight ?? 0)
+    }, [header])
+
+    const measured = rowHeight === undefined
+    const { virtualItems, totalSize, measureElement, scrollToIndex } =
+      useVirtualizer({
+        count: rowCount,
+        getScrollElement: () => viewportRef.current,
+        estimateSize: rowHeight ?? estimateRowHeight,
+        measure: measured,
+        overscan,
+        paddingStart: headerHeight,
+        getItemKey: getRowKey,
+      })
+
+    // Rows outside the window are unmounted, so focus has to be restored
+    // after the target row renders.
+    React.useLayoutEffect(() => {
+      if (pendingFocus.current === null) return
+      const row = viewportRef.current?.querySelector<HTMLElement>(
+        `tr[data-index="${pendingFocus.current}"]`
+      )
+      if (row) {
+        row.focus({ preventScroll: true })
+        pendingFocus.current = null
+      }
+    })
+
+    React.useEffect(() => {
+      if (activeIndex > rowCount - 1) setActiveIndex(Math.max(0, rowCount - 1))
+    }, [activeIndex, rowCount])
+
+    const moveTo = (index: number) => {
+      const next = Math.min(Math.max(0, index), rowCount - 1)
+      pendingFocus.current = next
+      setActiveIndex(next)
+      scrollToIndex(next)
+    }
+
+    const pageSize = Math.max(
+      1,
+      Math.floor(
+        ((viewportRef.current?.clientHeight ?? 0) - headerHeight) /
+          (rowHeight ?? estimateRowHeight)
+      )
+    )
+
+    const onKeyDown = (event: React.KeyboardEvent<HTMLTableSectionElement>) => {
+      if (rowCount === 0) return
+      switch (event.key) {
+        case "ArrowDown":
+          moveTo(activeIndex + 1)
+          break
+        case "ArrowUp":
+          moveTo(activeIndex - 1)
+          break
+        case "PageDown":
+          moveTo(activeIndex + pageSize)
+          break
+        case "PageUp":
+          moveTo(activeIndex - pageSize)
+          break
+        case "Home":
+          moveTo(0)
+          break
+        case "End":
+          moveTo(rowCount - 1)
+          break
+        case "Enter":
+        case " ":
+          if (event.target instanceof HTMLTableRowElement) {
+            onRowActivate?.(activeIndex)
+            break
+          }
+          return
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    const first = virtualItems[0]
+    const last = virtualItems[virtualItems.length - 1]
+    const paddingTop = first ? first.start : 0
+    const paddingBottom = last ? totalSize - last.end : 0
+
+    return (
+      <ScrollArea
+        ref={ref}
+        viewportRef={viewportRef}
+        className={cn("rounded-md border", className)}
+        style={{ height, ...style }}
+        {...props}
+      >
+        <table
+          aria-rowcount={rowCount + (header ? 1 : 0)}
+          className={cn("w-full caption-bottom text-sm", tableClassName)}
+        >
+          {header && (
+            <TableHeader
+              ref={headerRef}
+              className="sticky top-0 z-10 bg-background shadow-[inset_0_-1px_0] shadow-border"
+            >
+              {header}
+            </TableHeader>
+          )}
+          <TableBody onKeyDown={onKeyDown}>
+            {paddingTop > 0 && (
+              <tr aria-hidden style={{ height: paddingTop }} />
+            )}
+            {virtualItems.map((item) => {
+              const { className: rowClassName, ...rowProps } =
+                getRowProps?.(item.index) ?? {}
+              return (
+                <TableRow
+                  key={getRowKey?.(item.index) ?? item.index}
+                  ref={measured ? measureElement : undefined}
+                  data-index={item.index}
+                  aria-rowindex={item.index + (header ? 2 : 1)}
+                  tabIndex={item.index === activeIndex ? 0 : -1}
+                  onFocus={() => setActiveIndex(item.index)}
+                  className={cn(
+                    "focus-visible:outline-none focus-visible:bg-accent",
+                    rowClassName
+                  )}
+                  style={measured ? undefined : { height: item.size }}
+                  {...rowProps}
+                >
+                  {renderRow(item.index)}
+                </TableRow>
+              )
+            })}
+            {paddingBottom > 0 && (
+              <tr aria-hidden style={{ height: paddingBottom }} />
+            )}
+          </TableBody>
+        </table>
+      </ScrollArea>
+    )
+  }
+)
+VirtualTable.displayName = "VirtualTable"
+
+export { VirtualTable }
@@ -0,0 +1,16 @@
+import type { ApiClient } from "../../lib/api"
+import type { DashboardDataSource } from "./types"
+
+/** Reads the dashboard from the backend's `/dashboard` endpoints. */
+export function createApiDataSource(client: ApiClient): DashboardDataSource {
+  return {
+    getKpis: (range, signal) =>
+      client.get("/dashboard/kpis", { params: { range }, signal }),
+    getBalanceHistory: (range, signal) =>
+      client.get("/dashboard/balance-history", { params: { range }, signal }),
+    getCategoryBreakdown: (range, signal) =>
+      client.get("/dashboard/categories", { params: { range }, signal }),
+    getRecentTransactions: (limit, signal) =>
+      client.get("/transactions", { params: { limit }, signal }),
+  }
+}
@@ -0,0 +1,36 @@
+import { AreaChart, ChartCard } from "../../../components/charts"
+import { QueryResult } from "../../../lib/query"
+import { useDashboardFormat } from "../format"
+import { useBalanceHistory } from "../queries"
+import type { DashboardRange } from "../types"
+
+export function BalanceChart({ range }: { range: DashboardRange }) {
+  const query = useBalanceHistory(range)
+  const { formatCompact, formatCurrency, formatDay } = useDashboardFormat()
+
+  return (
+    <ChartCard
+      title="Balance over time"
+      description="End-of-day balance"
+      className="lg:col-span-4"
+    >
+      <QueryResult query={query} skeletonClassName="h-[300px] w-full">
+        {(points) => (
+          <AreaChart
+            data={points}
+            xKey="date"
+            series={[{ key: "balance", label: "Balance" }]}
+            xFormatter={(value) => formatDay(String(value))}
+            valueFormatter={formatCompact}
+            showLegend={false}
+          />
+        )}
+      </QueryResult>
+      <span className="sr-only">
+        {query.data?.length
+          ? `Latest balance ${formatCurrency(query.data[query.data.length - 1].balance)}`
+          : null}
+      </span>
+    </ChartCard>
+  )
+}
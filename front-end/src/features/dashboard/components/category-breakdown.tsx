@@ -0,0 +1,26 @@
+import { ChartCard, PieChart } from "../../../components/charts"
+import { QueryResult } from "../../../lib/query"
+import { useDashboardFormat } from "../format"
+import { useCategoryBreakdown } from "../queries"
+import type { DashboardRange } from "../types"
+
+export function CategoryBreakdown({ range }: { range: DashboardRange }) {
+  const query = useCategoryBreakdown(range)
+  const { formatCurrency } = useDashboardFormat()
+
+  return (
+    <ChartCard title="Spending by category" className="lg:col-span-3">
+      <QueryResult query={query} skeletonClassName="h-[300px] w-full">
+        {(categories) => (
+          <PieChart
+            data={categories}
+            nameKey="category"
+            valueKey="amount"
+            valueFormatter={formatCurrency}
+            donut
+          />
+        )}
+      </QueryResult>
+    </ChartCard>
+  )
+}
@@ -0,0 +1,85 @@
+import * as React from "react"
+import { AlertTriangle } from "lucide-react"
+
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+} from "../../../components/ui/alert"
+import { Button } from "../../../components/ui/button"
+import { Skeleton } from "../../../components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "../../../components/ui/tabs"
+import { QueryResult } from "../../../lib/query"
+import { useKpis } from "../queries"
+import { dashboardRanges, type DashboardRange } from "../types"
+import { BalanceChart } from "./balance-chart"
+import { CategoryBreakdown } from "./category-breakdown"
+import { KpiCard } from "./kpi-card"
+import { RecentTransactions } from "./recent-transactions"
+
+function KpiGrid({ range }: { range: DashboardRange }) {
+  const query = useKpis(range)
+
+  return (
+    <QueryResult
+      query={query}
+      loading={
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {Array.from({ length: 4 }, (_, i) => (
+            <Skeleton key={i} aria-busy="true" className="h-[172px]" />
+          ))}
+        </div>
+      }
+      error={(error, retry) => (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Couldn't load key metrics</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            {error.message}
+            <Button variant="outline" size="sm" onClick={retry}>
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+    >
+      {(kpis) => (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {kpis.map((kpi) => (
+            <KpiCard key={kpi.id} kpi={kpi} />
+          ))}
+        </div>
+      )}
+    </QueryResult>
+  )
+}
+
+export function DashboardPage() {
+  const [range, setRange] = React.useState<DashboardRange>("30d")
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold tracking-tight">Dashboard</h1>
+        <Tabs
+          value={range}
+          onValueChange={(value) => setRange(value as DashboardRange)}
+        >
+          <TabsList>
+            {dashboardRanges.map((r) => (
+              <TabsTrigger key={r.value} value={r.value}>
+                {r.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+      <KpiGrid range={range} />
+      <div className="grid gap-4 lg:grid-cols-7">
+        <BalanceChart range={range} />
+        <CategoryBreakdown range={range} />
+      </div>
+      <RecentTransactions />
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+
+import { I18nProvider, useI18n } from "../../../lib/i18n"
+import { screen, setup } from "../../../test/render"
+import type { Kpi } from "../types"
+import { KpiCard } from "./kpi-card"
+
+const income: Kpi = {
+  id: "income",
+  label: "Income",
+  value: 12345,
+  previousValue: 10000,
+  format: "currency",
+  trend: [],
+}
+
+function GermanButton() {
+  const { setLocale } = useI18n()
+  return <button onClick={() => setLocale("de")}>Deutsch</button>
+}
+
+describe("KpiCard", () => {
+  it("reformats its value when the locale changes", async () => {
+    const { user } = setup(
+      <I18nProvider defaultLocale="en">
+        <GermanButton />
+        <KpiCard kpi={income} />
+      </I18nProvider>
+    )
+    expect(screen.getByText("$12,345")).toBeInTheDocument()
+    expect(screen.getByText("+23.5%")).toBeInTheDocument()
+
+    await user.click(screen.getByRole("button", { name: "Deutsch" }))
+
+    expect(await screen.findByText("12.345 $")).toBeInTheDocument()
+    expect(screen.getByText("+23,5 %")).toBeInTheDocument()
+  })
+})
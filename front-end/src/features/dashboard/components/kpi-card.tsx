@@ -0,0 +1,88 @@
+import { ArrowDownRight, ArrowUpRight, Minus } from "lucide-react"
+
+import { Sparkline } from "../../../components/charts"
+import { cn } from "../../../components/lib/utils"
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../../../components/ui/card"
+import { relativeChange, useDashboardFormat } from "../format"
+import type { Kpi } from "../types"
+
+export function kpiTone(kpi: Kpi): "gain" | "loss" | "flat" {
+  const change = kpi.value - kpi.previousValue
+  if (change === 0) return "flat"
+  const improved = kpi.invertDelta ? change < 0 : change > 0
+  return improved ? "gain" : "loss"
+}
+
+export function KpiCard({ kpi }: { kpi: Kpi }) {
+  const { formatCurrency, formatPercent } = useDashboardFormat()
+  const tone = kpiTone(kpi)
+  const value =
+    kpi.format === "percent"
+      ? formatPercent(kpi.value)
+      : formatCurrency(kpi.value)
+  // Rates compare in percentage points, amounts in relative change.
+  const delta =
+    kpi.format === "percent"
+      ? kpi.value - kpi.previousValue
+      : relativeChange(kpi.value, kpi.previousValue)
+  const Icon =
+    tone === "flat"
+      ? Minus
+      : kpi.value > kpi.previousValue
+        ? ArrowUpRight
+        : ArrowDownRight
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">
+          {kpi.label}
+        </CardTitle>
+        <Icon
+          aria-hidden
+          className={cn(
+            "h-4 w-4",
+            tone === "gain" && "text-success",
+            tone === "loss" && "text-destructive",
+            tone === "flat" && "text-muted-foreground"
+          )}
+        />
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="text-2xl font-bold tabular-nums">{value}</div>
+        <p
+          className={cn(
+            "text-xs font-medium",
+            tone === "gain" && "text-success",
+            tone === "loss" && "text-destructive",
+            tone === "flat" && "text-muted-foreground"
+          )}
+        >
+          {delta > 0 ? "+" : ""}
+          {formatPercent(delta)}
+          {kpi.format === "percent" ? " pts" : ""}
+          <span className="font-normal text-muted-foreground">
+            {" "}
+            vs previous period
+          </span>
+        </p>
+        {kpi.trend.length > 2 && (
+          <Sparkline
+            data={kpi.trend}
+            aria-label={`${kpi.label} trend`}
+            color={
+              tone === "loss"
+                ? "hsl(var(--destructive))"
+                : "hsl(var(--success))"
+            }
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
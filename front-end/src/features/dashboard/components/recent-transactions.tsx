@@ -0,0 +1,88 @@
+import * as React from "react"
+
+import { DataTable, type ColumnDef } from "../../../components/data-table"
+import { cn } from "../../../components/lib/utils"
+import { Badge } from "../../../components/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../../../components/ui/card"
+import { QueryResult } from "../../../lib/query"
+import { useDashboardFormat } from "../format"
+import { useRecentTransactions } from "../queries"
+import type { Transaction } from "../types"
+
+function useColumns(): ColumnDef<Transaction>[] {
+  const { formatCurrencyPrecise, formatDate } = useDashboardFormat()
+
+  return React.useMemo(
+    () => [
+      {
+        id: "date",
+        header: "Date",
+        accessor: (t) => t.date,
+        cell: (t) => formatDate(t.date),
+        enableFiltering: false,
+      },
+      {
+        id: "description",
+        header: "Description",
+        accessor: (t) => t.description,
+      },
+      {
+        id: "category",
+        header: "Category",
+        accessor: (t) => t.category,
+        cell: (t) => <Badge variant="secondary">{t.category}</Badge>,
+      },
+      {
+        id: "amount",
+        header: "Amount",
+        accessor: (t) => t.amount,
+        enableFiltering: false,
+        headerClassName: "text-right",
+        cellClassName: "text-right",
+        cell: (t) => (
+          <span
+            className={cn(
+              "font-medium tabular-nums",
+              t.amount > 0 ? "text-success" : "text-foreground"
+            )}
+          >
+            {t.amount > 0 ? "+" : ""}
+            {formatCurrencyPrecise(t.amount)}
+          </span>
+        ),
+      },
+    ],
+    [formatCurrencyPrecise, formatDate]
+  )
+}
+
+export function RecentTransactions({ limit = 100 }: { limit?: number }) {
+  const query = useRecentTransactions(limit)
+  const columns = useColumns()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Recent transactions</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <QueryResult query={query} skeletonClassName="h-[420px] w-full">
+          {(transactions) => (
+            <DataTable
+              data={transactions}
+              columns={columns}
+              getRowId={(t) => t.id}
+              filterColumns={["description", "category"]}
+              initialState={{ sorting: [{ id: "date", desc: true }] }}
+            />
+          )}
+        </QueryResult>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,30 @@
+import * as React from "react"
+
+import type { DashboardDataSource } from "./types"
+
+const DashboardDataSourceContext =
+  React.createContext<DashboardDataSource | null>(null)
+
+export function DashboardDataSourceProvider({
+  source,
+  children,
+}: {
+  source: DashboardDataSource
+  children: React.ReactNode
+}) {
+  return (
+    <DashboardDataSourceContext.Provider value={source}>
+      {children}
+    </DashboardDataSourceContext.Provider>
+  )
+}
+
+export function useDashboardDataSource() {
+  const source = React.useContext(DashboardDataSourceContext)
+  if (!source) {
+    throw new Error(
+      "useDashboardDataSource must be used within a DashboardDataSourceProvider"
+    )
+  }
+  return source
+}
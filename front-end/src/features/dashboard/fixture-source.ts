@@ -0,0 +1,207 @@
+import { format, subDays } from "date-fns"
+
+import { sleep } from "../../lib/api/retry"
+import {
+  dashboardRanges,
+  type BalancePoint,
+  type DashboardDataSource,
+  type DashboardRange,
+  type Kpi,
+  type Transaction,
+} from "./types"
+
+/** Deterministic PRNG so fixtures are stable across reloads. */
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const HISTORY_DAYS = 730
+const OPENING_BALANCE = 12000
+
+interface Generated {
+  transactions: Transaction[]
+  /** End-of-day balance, oldest first, one entry per day. */
+  balances: BalancePoint[]
+}
+
+function generate(seed: number, today: Date): Generated {
+  const random = mulberry32(seed)
+  const between = (min: number, max: number) =>
+    Math.round((min + random() * (max - min)) * 100) / 100
+
+  const transactions: Transaction[] = []
+  const balances: BalancePoint[] = []
+  let balance = OPENING_BALANCE
+  let id = 0
+
+  const add = (
+    date: string,
+    description: string,
+    category: string,
+    amount: number
+  ) => {
+    transactions.push({ id: `tx-${++id}`, date, description, category, amount })
+    balance += amount
+  }
+
+  for (let offset = HISTORY_DAYS; offset >= 0; offset--) {
+    const day = subDays(today, offset)
+    const date = format(day, "yyyy-MM-dd")
+    const dayOfMonth = day.getDate()
+
+    if (dayOfMonth === 1 || dayOfMonth === 15) {
+      add(date, "Payroll deposit", "Salary", 3200)
+    }
+    if (dayOfMonth === 1) add(date, "Monthly rent", "Rent", -1800)
+    if (dayOfMonth === 5) {
+      add(date, "Electric & water", "Utilities", -between(120, 210))
+    }
+    if (random() < 0.3) {
+      add(date, "Supermarket", "Groceries", -between(40, 160))
+    }
+    if (random() < 0.3) {
+      add(date, "Restaurant", "Dining", -between(15, 80))
+    }
+    if (random() < 0.4) {
+      add(date, "Transit & fuel", "Transport", -between(5, 40))
+    }
+    if (random() < 0.1) {
+      add(date, "Streaming & events", "Entertainment", -between(20, 120))
+    }
+    if (random() < 0.05) {
+      add(date, "Freelance invoice", "Side income", between(200, 900))
+    }
+
+    balances.push({ date, balance: Math.round(balance * 100) / 100 })
+  }
+
+  return { transactions: transactions.reverse(), balances }
+}
+
+function daysFor(range: DashboardRange) {
+  return dashboardRanges.find((r) => r.value === range)!.days
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+/** Evenly samples `points` down to at most `max` entries. */
+function sample<T>(points: T[], max: number) {
+  if (points.length <= max) return points
+  const step = points.length / max
+  return Array.from({ length: max }, (_, i) => points[Math.floor(i * step)])
+}
+
+export interface FixtureDataSourceOptions {
+  seed?: number
+  /** Simulated latency per call, in ms. */
+  latency?: number
+  today?: Date
+}
+
+/** A local, deterministic data source for development and demos. */
+export function createFixtureDataSource({
+  seed = 42,
+  latency = 400,
+  today = new Date(),
+}: FixtureDataSourceOptions = {}): DashboardDataSource {
+  const { transactions, balances } = generate(seed, today)
+
+  const inPeriod = (days: number, periodsAgo: number) => {
+    const end = format(subDays(today, days * periodsAgo), "yyyy-MM-dd")
+    const start = format(subDays(today, days * (periodsAgo + 1)), "yyyy-MM-dd")
+    return transactions.filter((t) => t.date > start && t.date <= end)
+  }
+
+  const totals = (list: Transaction[]) => {
+    const income = sum(list.filter((t) => t.amount > 0).map((t) => t.amount))
+    const expenses = -sum(list.filter((t) => t.amount < 0).map((t) => t.amount))
+    return {
+      income,
+      expenses,
+      savingsRate: income === 0 ? 0 : (income - expenses) / income,
+    }
+  }
+
+  return {
+    async getKpis(range, signal) {
+      await sleep(latency, signal)
+      const days = daysFor(range)
+      const current = totals(inPeriod(days, 0))
+      const previous = totals(inPeriod(days, 1))
+      const history = balances.slice(-days - 1)
+      const balanceTrend = sample(
+        history.map((p) => p.balance),
+        30
+      )
+
+      return [
+        {
+          id: "balance",
+          label: "Balance",
+          value: history[history.length - 1].balance,
+          previousValue: history[0].balance,
+          format: "currency",
+          trend: balanceTrend,
+        },
+        {
+          id: "income",
+          label: "Income",
+          value: current.income,
+          previousValue: previous.income,
+          format: "currency",
+          trend: [previous.income, current.income],
+        },
+        {
+          id: "expenses",
+          label: "Expenses",
+          value: current.expenses,
+          previousValue: previous.expenses,
+          format: "currency",
+          invertDelta: true,
+          trend: [previous.expenses, current.expenses],
+        },
+        {
+          id: "savingsRate",
+          label: "Savings rate",
+          value: current.savingsRate,
+          previousValue: previous.savingsRate,
+          format: "percent",
+          trend: [previous.savingsRate, current.savingsRate],
+        },
+      ] satisfies Kpi[]
+    },
+
+    async getBalanceHistory(range, signal) {
+      await sleep(latency, signal)
+      return balances.slice(-daysFor(range))
+    },
+
+    async getCategoryBreakdown(range, signal) {
+      await sleep(latency, signal)
+      const byCategory = new Map<string, number>()
+      for (const t of inPeriod(daysFor(range), 0)) {
+        if (t.amount >= 0) continue
+        byCategory.set(t.category, (byCategory.get(t.category) ?? 0) - t.amount)
+      }
+      return [...byCategory]
+        .map(([category, amount]) => ({
+          category,
+          amount: Math.round(amount * 100) / 100,
+        }))
+        .sort((a, b) => b.amount - a.amount)
+    },
+
+    async getRecentTransactions(limit, signal) {
+      await sleep(latency, signal)
+      return transactions.slice(0, limit)
+    },
+  }
+}
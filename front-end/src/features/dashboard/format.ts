@@ -0,0 +1,31 @@
+import * as React from "react"
+import { parseISO } from "date-fns"
+
+import { useI18n } from "../../lib/i18n"
+
+/** Dashboard amounts, rates and dates in the active locale. */
+export function useDashboardFormat() {
+  const { formatCurrency, formatNumber, formatPercent, formatDate } = useI18n()
+
+  return React.useMemo(
+    () => ({
+      formatCurrency: (value: number) =>
+        formatCurrency(value, "USD", { maximumFractionDigits: 0 }),
+      formatCurrencyPrecise: (value: number) => formatCurrency(value, "USD"),
+      formatPercent: (value: number) => formatPercent(value),
+      formatCompact: (value: number) =>
+        formatNumber(value, { notation: "compact", maximumFractionDigits: 1 }),
+      /** An ISO `yyyy-MM-dd` day as month and day, e.g. "Mar 4". */
+      formatDay: (value: string) => formatDate(parseISO(value), "MMM d"),
+      /** An ISO `yyyy-MM-dd` day as the locale's medium date. */
+      formatDate: (value: string) => formatDate(parseISO(value)),
+    }),
+    [formatCurrency, formatNumber, formatPercent, formatDate]
+  )
+}
+
+/** Relative change between two periods; 0 when there is no baseline. */
+export function relativeChange(current: number, previous: number) {
+  if (previous === 0) return 0
+  return (current - previous) / Math.abs(previous)
+}
@@ -0,0 +1,26 @@
+import { api } from "../../lib/api"
+import { createApiDataSource } from "./api-source"
+import { createFixtureDataSource } from "./fixture-source"
+
+export { createApiDataSource } from "./api-source"
+export { DashboardPage } from "./components/dashboard-page"
+export { KpiCard, kpiTone } from "./components/kpi-card"
+export {
+  DashboardDataSourceProvider,
+  useDashboardDataSource,
+} from "./data-source-context"
+export {
+  createFixtureDataSource,
+  type FixtureDataSourceOptions,
+} from "./fixture-source"
+export { dashboardKeys } from "./queries"
+export type * from "./types"
+
+/**
+ * The backend when `VITE_API_BASE_URL` is set, local fixtures otherwise.
+ */
+export function getDefaultDashboardDataSource() {
+  return import.meta.env.VITE_API_BASE_URL
+    ? createApiDataSource(api)
+    : createFixtureDataSource()
+}
@@ -0,0 +1,45 @@
+import { useQuery } from "../../lib/query"
+import { useDashboardDataSource } from "./data-source-context"
+import type { DashboardRange } from "./types"
+
+export const dashboardKeys = {
+  all: ["dashboard"] as const,
+  kpis: (range: DashboardRange) => ["dashboard", "kpis", range] as const,
+  balance: (range: DashboardRange) => ["dashboard", "balance", range] as const,
+  categories: (range: DashboardRange) =>
+    ["dashboard", "categories", range] as const,
+  transactions: (limit: number) =>
+    ["dashboard", "transactions", limit] as const,
+}
+
+export function useKpis(range: DashboardRange) {
+  const source = useDashboardDataSource()
+  return useQuery({
+    queryKey: dashboardKeys.kpis(range),
+    queryFn: ({ signal }) => source.getKpis(range, signal),
+  })
+}
+
+export function useBalanceHistory(range: DashboardRange) {
+  const source = useDashboardDataSource()
+  return useQuery({
+    queryKey: dashboardKeys.balance(range),
+    queryFn: ({ signal }) => source.getBalanceHistory(range, signal),
+  })
+}
+
+export function useCategoryBreakdown(range: DashboardRange) {
+  const source = useDashboardDataSource()
+  return useQuery({
+    queryKey: dashboardKeys.categories(range),
+    queryFn: ({ signal }) => source.getCategoryBreakdown(range, signal),
+  })
+}
+
+export function useRecentTransactions(limit = 50) {
+  const source = useDashboardDataSource()
+  return useQuery({
+    queryKey: dashboardKeys.transactions(limit),
+    queryFn: ({ signal }) => source.getRecentTransactions(limit, signal),
+  })
+}
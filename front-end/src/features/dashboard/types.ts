@@ -0,0 +1,64 @@
+export type DashboardRange = "30d" | "90d" | "1y"
+
+export const dashboardRanges: {
+  value: DashboardRange
+  label: string
+  days: number
+}[] = [
+  { value: "30d", label: "30 days", days: 30 },
+  { value: "90d", label: "90 days", days: 90 },
+  { value: "1y", label: "1 year", days: 365 },
+]
+
+export interface Kpi {
+  id: "balance" | "income" | "expenses" | "savingsRate"
+  label: string
+  value: number
+  /** Value for the previous period of the same length. */
+  previousValue: number
+  format: "currency" | "percent"
+  /** When true a decrease is the good outcome (e.g. expenses). */
+  invertDelta?: boolean
+  trend: number[]
+}
+
+export interface BalancePoint {
+  /** ISO date, `yyyy-MM-dd`. */
+  date: string
+  balance: number
+}
+
+export interface CategorySpend {
+  category: string
+  amount: number
+}
+
+export interface Transaction {
+  id: string
+  /** ISO date, `yyyy-MM-dd`. */
+  date: string
+  description: string
+  category: string
+  /** Positive for income, negative for spending. */
+  amount: number
+}
+
+/**
+ * Where the dashboard gets its numbers. Implementations must honour
+ * `signal` so abandoned requests can be cancelled.
+ */
+export interface DashboardDataSource {
+  getKpis(range: DashboardRange, signal?: AbortSignal): Promise<Kpi[]>
+  getBalanceHistory(
+    range: DashboardRange,
+    signal?: AbortSignal
+  ): Promise<BalancePoint[]>
+  getCategoryBreakdown(
+    range: DashboardRange,
+    signal?: AbortSignal
+  ): Promise<CategorySpend[]>
+  getRecentTransactions(
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<Transaction[]>
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+
+import { jsx, withoutDefaults } from "./code"
+
+describe("jsx", () => {
+  it("prints props by type and skips unset ones", () => {
+    expect(
+      jsx("Slider", {
+        defaultValue: [20, 80],
+        step: 5,
+        disabled: true,
+        inverted: false,
+        label: undefined,
+        dir: "rtl",
+      })
+    ).toBe('<Slider defaultValue={[20, 80]} step={5} disabled dir="rtl" />')
+  })
+
+  it("keeps short elements with children on one line", () => {
+    expect(jsx("Button", { variant: "outline" }, "Save")).toBe(
+      '<Button variant="outline">Save</Button>'
+    )
+  })
+
+  it("escapes strings that contain quotes", () => {
+    expect(jsx("Badge", { title: 'Say "hi"' })).toBe(
+      '<Badge title={"Say \\"hi\\""} />'
+    )
+  })
+
+  it("wraps long elements and indents nested children", () => {
+    expect(
+      jsx(
+        "Alert",
+        { variant: "destructive", className: "max-w-md border-2" },
+        jsx("AlertTitle", {}, "Your session has expired") +
+          "\n" +
+          jsx("AlertDescription", {}, "Sign in again to continue.")
+      )
+    ).toBe(
+      [
+        '<Alert variant="destructive" className="max-w-md border-2">',
+        "  <AlertTitle>Your session has expired</AlertTitle>",
+        "  <AlertDescription>Sign in again to continue.</AlertDescription>",
+        "</Alert>",
+      ].join("\n")
+    )
+  })
+})
+
+describe("withoutDefaults", () => {
+  it("drops props equal to the component defaults", () => {
+    expect(
+      withoutDefaults(
+        { variant: "default", size: "lg", disabled: false },
+        { variant: "default", size: "default" }
+      )
+    ).toEqual({ size: "lg", disabled: false })
+  })
+})
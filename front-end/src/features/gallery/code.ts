@@ -0,0 +1,67 @@
+const MAX_LINE = 72
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${key}: ${formatValue(item)}`
+    )
+    return `{ ${entries.join(", ")} }`
+  }
+  return JSON.stringify(value)
+}
+
+function formatProp(name: string, value: unknown) {
+  if (value === true) return name
+  if (typeof value === "string" && !value.includes('"')) {
+    return `${name}="${value}"`
+  }
+  return `${name}={${formatValue(value)}}`
+}
+
+function indent(text: string) {
+  return text
+    .split("\n")
+    .map((line) => (line ? `  ${line}` : line))
+    .join("\n")
+}
+
+/** Drops props that match the component's own defaults. */
+export function withoutDefaults<P extends Record<string, unknown>>(
+  props: P,
+  defaults: Partial<P>
+): Partial<P> {
+  return Object.fromEntries(
+    Object.entries(props).filter(([key, value]) => defaults[key] !== value)
+  ) as Partial<P>
+}
+
+/**
+ * Prints a JSX element for a code snippet. `undefined` and `false` props are
+ * left out, and the element wraps onto several lines once it gets long.
+ */
+export function jsx(
+  name: string,
+  props: Record<string, unknown> = {},
+  children?: string
+) {
+  const attributes = Object.entries(props)
+    .filter(([, value]) => value !== undefined && value !== false)
+    .map(([key, value]) => formatProp(key, value))
+
+  const open = [name, ...attributes].join(" ")
+  if (!children) {
+    const line = `<${open} />`
+    if (line.length <= MAX_LINE) return line
+    return `<${name}\n${indent(attributes.join("\n"))}\n/>`
+  }
+
+  const line = `<${open}>${children}</${name}>`
+  if (line.length <= MAX_LINE && !children.includes("\n")) return line
+
+  const openTag =
+    `<${open}>`.length <= MAX_LINE
+      ? `<${open}>`
+      : `<${name}\n${indent(attributes.join("\n"))}\n>`
+  return `${openTag}\n${indent(children)}\n</${name}>`
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+import { Check, Copy } from "lucide-react"
+
+import { cn } from "../../../components/lib/utils"
+import { Button } from "../../../components/ui/button"
+import { useToastStore } from "../../../components/ui/use-toast"
+
+const COPIED_MS = 2000
+
+/** A snippet with a button that copies it to the clipboard. */
+export function CodeBlock({
+  code,
+  className,
+}: {
+  code: string
+  className?: string
+}) {
+  const { toast } = useToastStore()
+  const [copied, setCopied] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!copied) return
+    const timeout = window.setTimeout(() => setCopied(false), COPIED_MS)
+    return () => window.clearTimeout(timeout)
+  }, [copied])
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Couldn't copy the snippet",
+        description: "Clipboard access was blocked by the browser.",
+      })
+    }
+  }
+
+  return (
+    <div className={cn("relative rounded-lg border bg-muted", className)}>
+      <pre className="overflow-x-auto p-4 pr-14 text-sm">
+        <code>{code}</code>
+      </pre>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="absolute right-2 top-2 h-8 w-8 p-0"
+        onClick={copy}
+        aria-label={copied ? "Copied" : "Copy code"}
+      >
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      </Button>
+    </div>
+  )
+}
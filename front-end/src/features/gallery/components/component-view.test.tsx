@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { defaultToastStore } from "../../../components/ui/use-toast"
+import { screen, setup, waitFor, within } from "../../../test/render"
+import { findGalleryEntry } from "../registry"
+import { ComponentView } from "./component-view"
+import type { PreviewSettings } from "./preview-frame"
+
+function renderView(slug: string, preview: Partial<PreviewSettings> = {}) {
+  return setup(
+    <ComponentView
+      entry={findGalleryEntry(slug)!}
+      preview={{ scheme: "light", dir: "ltr", ...preview }}
+    />
+  )
+}
+
+describe("ComponentView", () => {
+  it("updates the preview and snippet from the props editor", async () => {
+    const { user } = renderView("badge")
+    expect(screen.getByText("<Badge>Active</Badge>")).toBeInTheDocument()
+
+    const label = screen.getByRole("textbox", { name: "label" })
+    await user.clear(label)
+    await user.type(label, "Paid")
+
+    expect(screen.getByText("Paid", { selector: "div" })).toBeInTheDocument()
+    expect(screen.getByText("<Badge>Paid</Badge>")).toBeInTheDocument()
+
+    await user.click(screen.getByRole("button", { name: "Reset" }))
+    expect(screen.getByRole("textbox", { name: "label" })).toHaveValue("Active")
+  })
+
+  it("copies the snippet", async () => {
+    const { user } = renderView("badge")
+    const writeText = vi
+      .spyOn(navigator.clipboard, "writeText")
+      .mockResolvedValue()
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }))
+
+    expect(writeText).toHaveBeenCalledWith("<Badge>Active</Badge>")
+    expect(
+      await screen.findByRole("button", { name: "Copied" })
+    ).toBeInTheDocument()
+  })
+
+  it("renders every combination in the variants tab", async () => {
+    const { user } = renderView("button")
+
+    await user.click(screen.getByRole("tab", { name: "Variants" }))
+
+    const table = screen.getByRole("table")
+    expect(within(table).getAllByRole("row")).toHaveLength(1 + 6)
+    expect(
+      within(table).getAllByRole("button", { name: "Send email" })
+    ).toHaveLength(6 * 3)
+  })
+
+  it("applies the preview scheme and direction", () => {
+    renderView("badge", { scheme: "dark", dir: "rtl" })
+    const frame = screen.getByText("Active").closest("[dir]")
+
+    expect(frame).toHaveAttribute("dir", "rtl")
+    expect(frame).toHaveClass("dark")
+  })
+
+  it("lists the exports of components without a story", () => {
+    renderView("aspect-ratio")
+
+    expect(screen.getByText("No story yet")).toBeInTheDocument()
+    expect(
+      within(screen.getByRole("list", { name: "Exports" })).getByText(
+        "AspectRatio"
+      )
+    ).toBeInTheDocument()
+  })
+
+  it("reports a blocked clipboard", async () => {
+    const { user } = renderView("badge")
+    vi.spyOn(navigator.clipboard, "writeText").mockRejectedValue(
+      new Error("denied")
+    )
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }))
+
+    await waitFor(() =>
+      expect(defaultToastStore.getState().toasts).toContainEqual(
+        expect.objectContaining({ title: "Couldn't copy the snippet" })
+      )
+    )
+    expect(
+      screen.getByRole("button", { name: "Copy code" })
+    ).toBeInTheDocument()
+  })
+})
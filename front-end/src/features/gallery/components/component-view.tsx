@@ -0,0 +1,146 @@
+import * as React from "react"
+import { RotateCcw } from "lucide-react"
+
+import { Button } from "../../../components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../../../components/ui/card"
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "../../../components/ui/tabs"
+import type {
+  GalleryEntry,
+  StoryArgs,
+  StoryArgValue,
+  StoryDefinition,
+} from "../types"
+import { CodeBlock } from "./code-block"
+import { PreviewFrame, type PreviewSettings } from "./preview-frame"
+import { PropsEditor } from "./props-editor"
+import { VariantMatrix } from "./variant-matrix"
+
+function Playground<A extends StoryArgs>({
+  story,
+  preview,
+}: {
+  story: StoryDefinition<A>
+  preview: PreviewSettings
+}) {
+  const [args, setArgs] = React.useState(story.args)
+  const setArg = (name: string, value: StoryArgValue) =>
+    setArgs((current) => ({ ...current, [name]: value }))
+
+  return (
+    <Tabs defaultValue="playground" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="playground">Playground</TabsTrigger>
+        {story.matrix && <TabsTrigger value="variants">Variants</TabsTrigger>}
+      </TabsList>
+      <TabsContent value="playground" className="space-y-4">
+        <div className="grid gap-4 lg:grid-cols-[1fr_18rem]">
+          <PreviewFrame
+            {...preview}
+            className="flex min-h-48 items-center justify-center"
+          >
+            {story.render(args)}
+          </PreviewFrame>
+          <Card>
+            <CardHeader className="flex-row items-center justify-between space-y-0 pb-4">
+              <CardTitle className="text-base">Props</CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-1.5 px-2"
+                onClick={() => setArgs(story.args)}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Reset
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <PropsEditor
+                controls={story.controls}
+                args={args}
+                onChange={setArg}
+              />
+            </CardContent>
+          </Card>
+        </div>
+        <CodeBlock code={story.code(args)} />
+      </TabsContent>
+      {story.matrix && (
+        <TabsContent value="variants">
+          <PreviewFrame {...preview} className="overflow-x-auto p-2">
+            <VariantMatrix story={story} args={args} />
+          </PreviewFrame>
+        </TabsContent>
+      )}
+    </Tabs>
+  )
+}
+
+/** Lists what a component module exports when it has no story yet. */
+function ExportList({ entry }: { entry: GalleryEntry }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">No story yet</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Add one in{" "}
+          <code className="font-mono">
+            src/features/gallery/stories/{entry.slug}.story.tsx
+          </code>{" "}
+          to get a playground and variant matrix.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <ul aria-label="Exports" className="flex flex-wrap gap-2">
+          {entry.exports.map((name) => (
+            <li
+              key={name}
+              className="rounded-md bg-muted px-2 py-1 font-mono text-xs"
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
+
+/** The gallery page for one `components/ui` module. */
+export function ComponentView({
+  entry,
+  preview,
+}: {
+  entry: GalleryEntry
+  preview: PreviewSettings
+}) {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">{entry.name}</h1>
+        {entry.story?.description && (
+          <p className="text-muted-foreground">{entry.story.description}</p>
+        )}
+        <p className="font-mono text-xs text-muted-foreground">
+          src/components/ui/{entry.slug}.tsx
+        </p>
+      </div>
+      {entry.story ? (
+        entry.story.use((story) => (
+          <Playground key={entry.slug} story={story} preview={preview} />
+        ))
+      ) : (
+        <ExportList entry={entry} />
+      )}
+    </div>
+  )
+}
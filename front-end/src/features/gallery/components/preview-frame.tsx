@@ -0,0 +1,53 @@
+import * as React from "react"
+import { DirectionProvider } from "@radix-ui/react-direction"
+
+import { cn } from "../../../components/lib/utils"
+import {
+  defaultTheme,
+  paletteVariables,
+  type ColorScheme,
+} from "../../../lib/theme"
+
+export type PreviewDirection = "ltr" | "rtl"
+
+export interface PreviewSettings {
+  scheme: ColorScheme
+  dir: PreviewDirection
+}
+
+interface PreviewFrameProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "dir">, PreviewSettings {}
+
+/**
+ * Renders components in a color scheme and direction of its own, leaving the
+ * rest of the app alone. Portaled content (dialogs, sheets, menus) mounts
+ * outside the frame: it picks up the direction but keeps the app's scheme.
+ */
+export function PreviewFrame({
+  scheme,
+  dir,
+  className,
+  style,
+  ...props
+}: PreviewFrameProps) {
+  return (
+    <DirectionProvider dir={dir}>
+      <div
+        dir={dir}
+        className={cn(
+          scheme === "dark" && "dark",
+          "rounded-lg border bg-background p-6 text-foreground",
+          className
+        )}
+        style={
+          {
+            ...paletteVariables(defaultTheme[scheme]),
+            colorScheme: scheme,
+            ...style,
+          } as React.CSSProperties
+        }
+        {...props}
+      />
+    </DirectionProvider>
+  )
+}
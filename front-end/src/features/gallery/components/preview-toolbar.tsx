@@ -0,0 +1,55 @@
+import { Moon, Sun } from "lucide-react"
+
+import {
+  ToggleGroup,
+  ToggleGroupItem,
+} from "../../../components/ui/toggle-group"
+import type { ColorScheme } from "../../../lib/theme"
+import type { PreviewDirection, PreviewSettings } from "./preview-frame"
+
+interface PreviewToolbarProps extends PreviewSettings {
+  onSchemeChange: (scheme: ColorScheme) => void
+  onDirChange: (dir: PreviewDirection) => void
+}
+
+/** Color scheme and text direction switches for the gallery previews. */
+export function PreviewToolbar({
+  scheme,
+  dir,
+  onSchemeChange,
+  onDirChange,
+}: PreviewToolbarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        aria-label="Preview color scheme"
+        value={scheme}
+        // Radix reports "" when the pressed item is clicked again.
+        onValueChange={(value) => value && onSchemeChange(value as ColorScheme)}
+      >
+        <ToggleGroupItem value="light" aria-label="Light">
+          <Sun className="h-4 w-4" />
+        </ToggleGroupItem>
+        <ToggleGroupItem value="dark" aria-label="Dark">
+          <Moon className="h-4 w-4" />
+        </ToggleGroupItem>
+      </ToggleGroup>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        aria-label="Preview text direction"
+        value={dir}
+        onValueChange={(value) =>
+          value && onDirChange(value as PreviewDirection)
+        }
+      >
+        <ToggleGroupItem value="ltr">LTR</ToggleGroupItem>
+        <ToggleGroupItem value="rtl">RTL</ToggleGroupItem>
+      </ToggleGroup>
+    </div>
+  )
+}
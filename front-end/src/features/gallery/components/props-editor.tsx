@@ -0,0 +1,110 @@
+import * as React from "react"
+
+import { Input } from "../../../components/ui/input"
+import { Label } from "../../../components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select"
+import { Switch } from "../../../components/ui/switch"
+import type { StoryArgs, StoryArgValue, StoryControl } from "../types"
+
+interface PropsEditorProps {
+  controls: Partial<Record<string, StoryControl>>
+  args: StoryArgs
+  onChange: (name: string, value: StoryArgValue) => void
+}
+
+function ControlField({
+  id,
+  name,
+  control,
+  value,
+  onChange,
+}: {
+  id: string
+  name: string
+  control: StoryControl
+  value: StoryArgValue
+  onChange: (value: StoryArgValue) => void
+}) {
+  switch (control.type) {
+    case "select":
+      return (
+        <div className="grid gap-1.5">
+          <Label htmlFor={id}>{name}</Label>
+          <Select value={String(value)} onValueChange={onChange}>
+            <SelectTrigger id={id}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {control.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )
+    case "boolean":
+      return (
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={id}>{name}</Label>
+          <Switch id={id} checked={Boolean(value)} onCheckedChange={onChange} />
+        </div>
+      )
+    case "number":
+      return (
+        <Input
+          id={id}
+          label={name}
+          type="number"
+          min={control.min}
+          max={control.max}
+          step={control.step}
+          value={value === undefined ? "" : String(value)}
+          onChange={(event) =>
+            onChange(
+              event.target.value === "" ? undefined : event.target.valueAsNumber
+            )
+          }
+        />
+      )
+    case "text":
+      return (
+        <Input
+          id={id}
+          label={name}
+          value={value === undefined ? "" : String(value)}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      )
+  }
+}
+
+/** One editor per story control, keyed by prop name. */
+export function PropsEditor({ controls, args, onChange }: PropsEditorProps) {
+  const id = React.useId()
+
+  return (
+    <div className="grid gap-4">
+      {Object.entries(controls).map(
+        ([name, control]) =>
+          control && (
+            <ControlField
+              key={name}
+              id={`${id}-${name}`}
+              name={name}
+              control={control}
+              value={args[name]}
+              onChange={(value) => onChange(name, value)}
+            />
+          )
+      )}
+    </div>
+  )
+}
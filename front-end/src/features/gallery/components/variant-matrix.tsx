@@ -0,0 +1,78 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../../components/ui/table"
+import type {
+  GalleryStory,
+  StoryArgs,
+  StoryArgValue,
+  StoryDefinition,
+} from "../types"
+
+interface VariantMatrixProps<A extends StoryArgs> {
+  story: StoryDefinition<A>
+  /** Values for the props the matrix doesn't vary. */
+  args: A
+}
+
+interface Axis {
+  prop: string
+  values: readonly StoryArgValue[]
+}
+
+/**
+ * Renders the story once per combination of its matrix props: the first
+ * prop down the rows, the second (if any) across the columns.
+ */
+export function VariantMatrix<A extends StoryArgs>({
+  story,
+  args,
+}: VariantMatrixProps<A>) {
+  // Widened so `Object.entries` keeps the value type.
+  const matrix: GalleryStory["matrix"] = story.matrix
+  const [rows, columns]: (Axis | undefined)[] = Object.entries(
+    matrix ?? {}
+  ).map(([prop, values]) => ({ prop, values: values ?? [] }))
+  if (!rows) return null
+
+  const columnValues = columns?.values ?? [undefined]
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {rows.prop}
+            {columns && ` × ${columns.prop}`}
+          </TableHead>
+          {columns?.values.map((value) => (
+            <TableHead key={String(value)}>{String(value)}</TableHead>
+          ))}
+          {!columns && <TableHead>Preview</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.values.map((row) => (
+          <TableRow key={String(row)}>
+            <TableHead scope="row" className="font-mono text-xs">
+              {String(row)}
+            </TableHead>
+            {columnValues.map((column) => (
+              <TableCell key={String(column)}>
+                {story.render({
+                  ...args,
+                  [rows.prop]: row,
+                  ...(columns && { [columns.prop]: column }),
+                })}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,15 @@
+export { jsx, withoutDefaults } from "./code"
+export { CodeBlock } from "./components/code-block"
+export { ComponentView } from "./components/component-view"
+export {
+  PreviewFrame,
+  type PreviewDirection,
+  type PreviewSettings,
+} from "./components/preview-frame"
+export { PreviewToolbar } from "./components/preview-toolbar"
+export { PropsEditor } from "./components/props-editor"
+export { VariantMatrix } from "./components/variant-matrix"
+export { componentName } from "./names"
+export { findGalleryEntry, galleryEntries } from "./registry"
+export { defineStory, variantOptions } from "./types"
+export type * from "./types"
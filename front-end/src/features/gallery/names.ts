@@ -0,0 +1,7 @@
+/** `"dropdown-menu"` -> `"DropdownMenu"` */
+export function componentName(slug: string) {
+  return slug
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+}
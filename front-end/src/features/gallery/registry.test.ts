@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+
+import { componentName } from "./names"
+import { findGalleryEntry, galleryEntries } from "./registry"
+
+describe("gallery registry", () => {
+  it("discovers every components/ui module except tests", () => {
+    const slugs = galleryEntries.map((entry) => entry.slug)
+
+    expect(slugs).toEqual(expect.arrayContaining(["button", "dropdown-menu"]))
+    expect(slugs.some((slug) => slug.endsWith(".test"))).toBe(false)
+    expect(findGalleryEntry("dropdown-menu")?.exports).toContain(
+      "DropdownMenuItem"
+    )
+  })
+
+  it("pairs stories with their components", () => {
+    expect(findGalleryEntry("button")?.story?.matrix).toBeDefined()
+    expect(findGalleryEntry("aspect-ratio")?.story).toBeUndefined()
+  })
+
+  it.each(galleryEntries.filter((entry) => entry.story))(
+    "$name story offers its initial args as control options",
+    ({ story }) => {
+      for (const [name, control] of Object.entries(story!.controls)) {
+        expect(story!.args).toHaveProperty(name)
+        if (control?.type === "select") {
+          expect(control.options).toContain(story!.args[name])
+        }
+      }
+    }
+  )
+})
+
+describe("componentName", () => {
+  it("turns file names into component names", () => {
+    expect(componentName("dropdown-menu")).toBe("DropdownMenu")
+    expect(componentName("button")).toBe("Button")
+  })
+})
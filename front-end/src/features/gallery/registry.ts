@@ -0,0 +1,40 @@
+import { componentName } from "./names"
+import type { GalleryEntry, GalleryStory } from "./types"
+
+// Every primitive in components/ui shows up, story or not; a story only adds
+// the playground. Both load with the gallery chunk.
+const componentModules = import.meta.glob<Record<string, unknown>>(
+  ["../../components/ui/*.tsx", "!../../components/ui/*.test.tsx"],
+  { eager: true }
+)
+const storyModules = import.meta.glob<GalleryStory>("./stories/*.story.tsx", {
+  eager: true,
+  import: "default",
+})
+
+function slugFromPath(path: string) {
+  return path.slice(path.lastIndexOf("/") + 1).replace(/(\.story)?\.tsx$/, "")
+}
+
+const stories = new Map(
+  Object.entries(storyModules).map(([path, story]) => [
+    slugFromPath(path),
+    story,
+  ])
+)
+
+export const galleryEntries: GalleryEntry[] = Object.entries(componentModules)
+  .map(([path, module]) => {
+    const slug = slugFromPath(path)
+    return {
+      slug,
+      name: componentName(slug),
+      story: stories.get(slug),
+      exports: Object.keys(module).sort(),
+    }
+  })
+  .sort((a, b) => a.name.localeCompare(b.name))
+
+export function findGalleryEntry(slug: string) {
+  return galleryEntries.find((entry) => entry.slug === slug)
+}
@@ -0,0 +1,50 @@
+import type * as React from "react"
+import { AlertCircle } from "lucide-react"
+
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+} from "../../../components/ui/alert"
+import { jsx, withoutDefaults } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+type Variant = NonNullable<React.ComponentProps<typeof Alert>["variant"]>
+
+const variants = variantOptions<Variant>({ default: true, destructive: true })
+
+export default defineStory({
+  description: "A callout that screen readers announce as soon as it shows.",
+  args: {
+    variant: "default" as Variant,
+    title: "Heads up!",
+    description: "You can add components to your app using the CLI.",
+    icon: true,
+  },
+  controls: {
+    variant: { type: "select", options: variants },
+    title: { type: "text" },
+    description: { type: "text" },
+    icon: { type: "boolean" },
+  },
+  render: ({ variant, title, description, icon }) => (
+    <Alert variant={variant} className="max-w-md">
+      {icon && <AlertCircle className="h-4 w-4" />}
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>{description}</AlertDescription>
+    </Alert>
+  ),
+  code: ({ variant, title, description, icon }) =>
+    jsx(
+      "Alert",
+      withoutDefaults({ variant }, { variant: "default" }),
+      [
+        icon && jsx("AlertCircle", { className: "h-4 w-4" }),
+        jsx("AlertTitle", {}, title),
+        jsx("AlertDescription", {}, description),
+      ]
+        .filter(Boolean)
+        .join("\n")
+    ),
+  matrix: { variant: variants },
+})
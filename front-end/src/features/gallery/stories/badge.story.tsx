@@ -0,0 +1,25 @@
+import { Badge, type BadgeProps } from "../../../components/ui/badge"
+import { jsx, withoutDefaults } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+type Variant = NonNullable<BadgeProps["variant"]>
+
+const variants = variantOptions<Variant>({
+  default: true,
+  secondary: true,
+  destructive: true,
+  outline: true,
+})
+
+export default defineStory({
+  description: "A short status or count next to other content.",
+  args: { variant: "default" as Variant, label: "Active" },
+  controls: {
+    variant: { type: "select", options: variants },
+    label: { type: "text" },
+  },
+  render: ({ variant, label }) => <Badge variant={variant}>{label}</Badge>,
+  code: ({ variant, label }) =>
+    jsx("Badge", withoutDefaults({ variant }, { variant: "default" }), label),
+  matrix: { variant: variants },
+})
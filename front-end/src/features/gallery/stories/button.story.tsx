@@ -0,0 +1,52 @@
+import { Mail } from "lucide-react"
+
+import { Button, type ButtonProps } from "../../../components/ui/button"
+import { jsx, withoutDefaults } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+type Variant = NonNullable<ButtonProps["variant"]>
+type Size = NonNullable<ButtonProps["size"]>
+
+const variants = variantOptions<Variant>({
+  default: true,
+  destructive: true,
+  outline: true,
+  secondary: true,
+  ghost: true,
+  link: true,
+})
+const sizes = variantOptions<Size>({ default: true, sm: true, lg: true })
+
+export default defineStory({
+  description: "Triggers an action; renders its child instead with asChild.",
+  args: {
+    variant: "default" as Variant,
+    size: "default" as Size,
+    label: "Send email",
+    icon: false,
+    disabled: false,
+  },
+  controls: {
+    variant: { type: "select", options: variants },
+    size: { type: "select", options: sizes },
+    label: { type: "text" },
+    icon: { type: "boolean" },
+    disabled: { type: "boolean" },
+  },
+  render: ({ variant, size, label, icon, disabled }) => (
+    <Button variant={variant} size={size} disabled={disabled}>
+      {icon && <Mail className="me-2 h-4 w-4" />}
+      {label}
+    </Button>
+  ),
+  code: ({ variant, size, label, icon, disabled }) =>
+    jsx(
+      "Button",
+      withoutDefaults(
+        { variant, size, disabled },
+        { variant: "default", size: "default" }
+      ),
+      icon ? `<Mail className="me-2 h-4 w-4" />\n${label}` : label
+    ),
+  matrix: { variant: variants, size: sizes },
+})
@@ -0,0 +1,49 @@
+import { Input } from "../../../components/ui/input"
+import { jsx } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+const types = variantOptions({
+  text: true,
+  email: true,
+  password: true,
+  number: true,
+  search: true,
+  file: true,
+})
+
+export default defineStory({
+  description: "A text field; pass label and description to wire them up.",
+  args: {
+    label: "Email",
+    description: "We'll never share it.",
+    placeholder: "you@example.com",
+    type: "email",
+    disabled: false,
+  },
+  controls: {
+    label: { type: "text" },
+    description: { type: "text" },
+    placeholder: { type: "text" },
+    type: { type: "select", options: types },
+    disabled: { type: "boolean" },
+  },
+  render: ({ label, description, placeholder, type, disabled }) => (
+    <div className="w-full max-w-sm">
+      <Input
+        label={label || undefined}
+        description={description || undefined}
+        placeholder={placeholder}
+        type={type}
+        disabled={disabled}
+      />
+    </div>
+  ),
+  code: ({ label, description, placeholder, type, disabled }) =>
+    jsx("Input", {
+      label: label || undefined,
+      description: description || undefined,
+      placeholder: placeholder || undefined,
+      type,
+      disabled,
+    }),
+})
@@ -0,0 +1,16 @@
+import { Progress } from "../../../components/ui/progress"
+import { jsx } from "../code"
+import { defineStory } from "../types"
+
+export default defineStory({
+  description: "Completion of a task that takes a while.",
+  args: { value: 60, label: "Upload progress" },
+  controls: {
+    value: { type: "number", min: 0, max: 100, step: 5 },
+    label: { type: "text" },
+  },
+  render: ({ value, label }) => (
+    <Progress value={value} aria-label={label} className="w-64" />
+  ),
+  code: ({ value, label }) => jsx("Progress", { value, "aria-label": label }),
+})
@@ -0,0 +1,79 @@
+import { Button } from "../../../components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+  type DialogContentProps,
+} from "../../../components/ui/sheet"
+import { jsx, withoutDefaults } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+type Position = NonNullable<DialogContentProps["position"]>
+type Size = NonNullable<DialogContentProps["size"]>
+
+const positions = variantOptions<Position>({
+  top: true,
+  right: true,
+  bottom: true,
+  left: true,
+})
+const sizes = variantOptions<Size>({
+  content: true,
+  default: true,
+  sm: true,
+  lg: true,
+  xl: true,
+  full: true,
+})
+
+export default defineStory({
+  description:
+    "A dialog that slides in from a screen edge. Bottom sheets can snap and be dragged away.",
+  args: {
+    position: "right" as Position,
+    size: "default" as Size,
+    title: "Edit profile",
+  },
+  controls: {
+    position: { type: "select", options: positions },
+    size: { type: "select", options: sizes },
+    title: { type: "text" },
+  },
+  render: ({ position, size, title }) => (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          Open
+        </Button>
+      </SheetTrigger>
+      <SheetContent position={position} size={size}>
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>
+            {position} sheet, {size} size.
+          </SheetDescription>
+        </SheetHeader>
+      </SheetContent>
+    </Sheet>
+  ),
+  code: ({ position, size, title }) =>
+    jsx(
+      "Sheet",
+      {},
+      [
+        jsx("SheetTrigger", { asChild: true }, jsx("Button", {}, "Open")),
+        jsx(
+          "SheetContent",
+          withoutDefaults(
+            { position, size },
+            { position: "right", size: "default" }
+          ),
+          jsx("SheetHeader", {}, jsx("SheetTitle", {}, title))
+        ),
+      ].join("\n")
+    ),
+  matrix: { position: positions, size: sizes },
+})
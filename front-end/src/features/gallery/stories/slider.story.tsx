@@ -0,0 +1,44 @@
+import { Slider } from "../../../components/ui/slider"
+import { jsx } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+const valueLabels = variantOptions({ auto: true, always: true, never: true })
+
+export default defineStory({
+  description: "Picks one value, or a range with two thumbs, on a track.",
+  args: {
+    range: false,
+    step: 10,
+    ticks: false,
+    valueLabel: "auto" as (typeof valueLabels)[number],
+    disabled: false,
+  },
+  controls: {
+    range: { type: "boolean" },
+    step: { type: "number", min: 1, max: 50 },
+    ticks: { type: "boolean" },
+    valueLabel: { type: "select", options: valueLabels },
+    disabled: { type: "boolean" },
+  },
+  render: ({ range, step, ticks, valueLabel, disabled }) => (
+    <Slider
+      // Remount when switching between one and two thumbs.
+      key={String(range)}
+      defaultValue={range ? [20, 80] : [40]}
+      step={step}
+      ticks={ticks}
+      valueLabel={valueLabel}
+      disabled={disabled}
+      thumbLabels={range ? ["Minimum", "Maximum"] : ["Volume"]}
+      className="w-64"
+    />
+  ),
+  code: ({ range, step, ticks, valueLabel, disabled }) =>
+    jsx("Slider", {
+      defaultValue: range ? [20, 80] : [40],
+      step,
+      ticks,
+      valueLabel: valueLabel === "auto" ? undefined : valueLabel,
+      disabled,
+    }),
+})
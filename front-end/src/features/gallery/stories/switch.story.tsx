@@ -0,0 +1,25 @@
+import { Label } from "../../../components/ui/label"
+import { Switch } from "../../../components/ui/switch"
+import { jsx } from "../code"
+import { defineStory } from "../types"
+
+export default defineStory({
+  description: "An on/off setting that applies immediately.",
+  args: { label: "Airplane mode", checked: false, disabled: false },
+  controls: {
+    label: { type: "text" },
+    checked: { type: "boolean" },
+    disabled: { type: "boolean" },
+  },
+  render: ({ label, checked, disabled }) => (
+    <div className="flex items-center gap-2">
+      <Switch id="story-switch" defaultChecked={checked} disabled={disabled} />
+      <Label htmlFor="story-switch">{label}</Label>
+    </div>
+  ),
+  code: ({ label, checked, disabled }) =>
+    [
+      jsx("Switch", { id: "airplane", defaultChecked: checked, disabled }),
+      jsx("Label", { htmlFor: "airplane" }, label),
+    ].join("\n"),
+})
@@ -0,0 +1,55 @@
+import type { VariantProps } from "class-variance-authority"
+import { Bold } from "lucide-react"
+
+import { Toggle, type toggleVariants } from "../../../components/ui/toggle"
+import { jsx, withoutDefaults } from "../code"
+import { defineStory, variantOptions } from "../types"
+
+type ToggleVariants = VariantProps<typeof toggleVariants>
+type Variant = NonNullable<ToggleVariants["variant"]>
+type Size = NonNullable<ToggleVariants["size"]>
+
+const variants = variantOptions<Variant>({ default: true, outline: true })
+const sizes = variantOptions<Size>({ default: true, sm: true, lg: true })
+
+export default defineStory({
+  description: "A two-state button, e.g. for text formatting.",
+  args: {
+    variant: "default" as Variant,
+    size: "default" as Size,
+    pressed: false,
+    disabled: false,
+  },
+  controls: {
+    variant: { type: "select", options: variants },
+    size: { type: "select", options: sizes },
+    pressed: { type: "boolean" },
+    disabled: { type: "boolean" },
+  },
+  render: ({ variant, size, pressed, disabled }) => (
+    <Toggle
+      variant={variant}
+      size={size}
+      defaultPressed={pressed}
+      disabled={disabled}
+      aria-label="Toggle bold"
+    >
+      <Bold className="h-4 w-4" />
+    </Toggle>
+  ),
+  code: ({ variant, size, pressed, disabled }) =>
+    jsx(
+      "Toggle",
+      {
+        ...withoutDefaults(
+          { variant, size },
+          { variant: "default", size: "default" }
+        ),
+        defaultPressed: pressed,
+        disabled,
+        "aria-label": "Toggle bold",
+      },
+      jsx("Bold", { className: "h-4 w-4" })
+    ),
+  matrix: { variant: variants, size: sizes },
+})
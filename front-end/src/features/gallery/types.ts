@@ -0,0 +1,73 @@
+import type * as React from "react"
+
+export type StoryArgValue = string | number | boolean | undefined
+
+export type StoryArgs = Record<string, StoryArgValue>
+
+export type StoryControl =
+  | { type: "select"; options: readonly string[] }
+  | { type: "boolean" }
+  | { type: "text" }
+  | { type: "number"; min?: number; max?: number; step?: number }
+
+/** Props varied against each other in the Variants tab; at most two. */
+export type StoryMatrix<A extends StoryArgs> = Partial<{
+  [K in keyof A]: readonly A[K][]
+}>
+
+export interface StoryDefinition<A extends StoryArgs> {
+  /** Short summary shown under the component name. */
+  description?: string
+  /** Initial values for the props editor. */
+  args: A
+  /** Editors for the args; args without one are fixed. */
+  controls: { [K in keyof A]?: StoryControl }
+  render: (args: A) => React.ReactElement
+  /** JSX for `args`, shown under the preview and copied by "Copy code". */
+  code: (args: A) => string
+  matrix?: StoryMatrix<A>
+}
+
+/**
+ * A story with its args type hidden, so stories with different args fit in
+ * one registry. The read-only parts are widened; `render` and `code` are
+ * only reachable through `use`, which hands the story to a consumer generic
+ * over its args.
+ */
+export interface GalleryStory {
+  description?: string
+  args: StoryArgs
+  controls: Partial<Record<string, StoryControl>>
+  matrix?: Partial<Record<string, readonly StoryArgValue[]>>
+  use: <R>(consumer: <A extends StoryArgs>(story: StoryDefinition<A>) => R) => R
+}
+
+export function defineStory<A extends StoryArgs>(
+  story: StoryDefinition<A>
+): GalleryStory {
+  return {
+    description: story.description,
+    args: story.args,
+    controls: story.controls,
+    matrix: story.matrix,
+    use: (consumer) => consumer(story),
+  }
+}
+
+export interface GalleryEntry {
+  /** File name under components/ui, e.g. `"dropdown-menu"`. */
+  slug: string
+  /** `"dropdown-menu"` -> `"DropdownMenu"` */
+  name: string
+  story?: GalleryStory
+  /** Names the component module exports, sorted. */
+  exports: string[]
+}
+
+/**
+ * Lists the members of a variant union, e.g. a cva `variant` prop. Taking a
+ * record keyed by the union makes a missing or renamed variant a type error.
+ */
+export function variantOptions<T extends string>(members: Record<T, true>) {
+  return Object.keys(members) as T[]
+}
@@ -0,0 +1,110 @@
+import { z } from "zod"
+
+import {
+  InputField,
+  RadioGroupField,
+  SelectField,
+  SubmitButton,
+  SwitchField,
+  TextareaField,
+  useZodForm,
+} from "../../components/form"
+import { Form } from "../../components/ui/form"
+import { toast } from "../../components/ui/use-toast"
+import { sleep } from "../../lib/api/retry"
+
+const takenUsernames = new Set(["admin", "root", "support"])
+
+const profileSchema = z.object({
+  username: z
+    .string()
+    .min(3, "Username must be at least 3 characters.")
+    .max(30, "Username must be at most 30 characters.")
+    .regex(/^[a-z0-9_]+$/, "Use lowercase letters, numbers and underscores.")
+    .refine(async (value) => {
+      // Stands in for a server-side availability check.
+      await sleep(300)
+      return !takenUsernames.has(value)
+    }, "That username is already taken."),
+  email: z.string().email("Enter a valid email address."),
+  bio: z.string().max(160, "Keep it under 160 characters.").optional(),
+  currency: z.enum(["USD", "EUR", "GBP"]),
+  visibility: z.enum(["public", "private"]),
+  marketingEmails: z.boolean(),
+})
+
+export type ProfileValues = z.output<typeof profileSchema>
+
+export function ProfileForm() {
+  const form = useZodForm(profileSchema, {
+    defaultValues: {
+      username: "",
+      email: "",
+      bio: "",
+      currency: "USD",
+      visibility: "public",
+      marketingEmails: false,
+    },
+  })
+
+  async function onSubmit(values: ProfileValues) {
+    await toast.promise(sleep(500), {
+      loading: "Saving profile…",
+      success: {
+        title: "Profile updated",
+        description: `Saved as @${values.username}.`,
+      },
+      error: "Could not save your profile.",
+    })
+    form.reset(values)
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        noValidate
+        className="max-w-xl space-y-6"
+      >
+        <InputField
+          name="username"
+          label="Username"
+          description="This is your public display name."
+          autoComplete="username"
+        />
+        <InputField
+          name="email"
+          label="Email"
+          type="email"
+          autoComplete="email"
+        />
+        <TextareaField name="bio" label="Bio" rows={3} />
+        <SelectField
+          name="currency"
+          label="Display currency"
+          options={[
+            { value: "USD", label: "US Dollar" },
+            { value: "EUR", label: "Euro" },
+            { value: "GBP", label: "British Pound" },
+          ]}
+        />
+        <RadioGroupField
+          name="visibility"
+          label="Profile visibility"
+          options={[
+            { value: "public", label: "Public" },
+            { value: "private", label: "Only me" },
+          ]}
+        />
+        <SwitchField
+          name="marketingEmails"
+          label="Marketing emails"
+          description="Receive product news and offers."
+        />
+        <SubmitButton disabled={!form.formState.isDirty}>
+          Save profile
+        </SubmitButton>
+      </form>
+    </Form>
+  )
+}
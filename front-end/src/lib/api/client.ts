@@ -0,0 +1,146 @@
+import axios, {
+  type AxiosAdapter,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios"
+
+import { toApiError, type ApiError } from "./errors"
+import { notifyApiError } from "./notify"
+import {
+  backoffDelay,
+  defaultRetryOptions,
+  shouldRetry,
+  sleep,
+  type RetryOptions,
+} from "./retry"
+
+type MaybePromise<T> = T | Promise<T>
+
+export type RequestInterceptor = (
+  config: InternalAxiosRequestConfig
+) => MaybePromise<InternalAxiosRequestConfig>
+
+export type ResponseInterceptor = (
+  response: AxiosResponse
+) => MaybePromise<AxiosResponse>
+
+export interface ApiClientOptions {
+  /** Defaults to `VITE_API_BASE_URL`. */
+  baseURL?: string
+  timeout?: number
+  headers?: Record<string, string>
+  /** Sent as `Authorization: Bearer <token>` when it returns a value. */
+  getAuthToken?: () => MaybePromise<string | null | undefined>
+  retry?: Partial<RetryOptions> | false
+  onRequest?: RequestInterceptor[]
+  onResponse?: ResponseInterceptor[]
+  /** Called once per failed call, after retries are exhausted. */
+  onError?: (error: ApiError) => void
+  /** Show a destructive toast for failed calls. Defaults to true. */
+  notifyErrors?: boolean
+  /** Swap the transport, e.g. for the mock server in development. */
+  adapter?: AxiosAdapter
+}
+
+export interface RequestOptions extends AxiosRequestConfig {
+  retry?: Partial<RetryOptions> | false
+  /** Override the client's `notifyErrors` for this call. */
+  notify?: boolean
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const {
+    baseURL = import.meta.env.VITE_API_BASE_URL ?? "",
+    timeout = 15000,
+    headers,
+    getAuthToken,
+    onRequest = [],
+    onResponse = [],
+    onError,
+    notifyErrors = true,
+    adapter,
+  } = options
+
+  const instance = axios.create({
+    baseURL,
+    timeout,
+    headers: { Accept: "application/json", ...headers },
+    adapter,
+  })
+
+  instance.interceptors.request.use(async (config) => {
+    if (getAuthToken && !config.headers.has("Authorization")) {
+      const token = await getAuthToken()
+      if (token) config.headers.set("Authorization", `Bearer ${token}`)
+    }
+    for (const interceptor of onRequest) {
+      config = await interceptor(config)
+    }
+    return config
+  })
+
+  instance.interceptors.response.use(
+    async (response) => {
+      for (const interceptor of onResponse) {
+        response = await interceptor(response)
+      }
+      return response
+    },
+    (error) => Promise.reject(toApiError(error))
+  )
+
+  async function request<T>({
+    retry,
+    notify,
+    ...config
+  }: RequestOptions): Promise<T> {
+    const retryOptions =
+      retry === false || options.retry === false
+        ? { ...defaultRetryOptions, retries: 0 }
+        : { ...defaultRetryOptions, ...options.retry, ...retry }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await instance.request<T>(config)
+        return response.data
+      } catch (cause) {
+        const error = toApiError(cause)
+        if (!error.isCancelled && shouldRetry(error, attempt, retryOptions)) {
+          try {
+            await sleep(
+              backoffDelay(attempt, retryOptions),
+              config.signal as AbortSignal | undefined
+            )
+            continue
+          } catch (abortReason) {
+            throw toApiError(new axios.CanceledError(String(abortReason)))
+          }
+        }
+
+        if (!error.isCancelled) {
+          onError?.(error)
+          if (notify ?? notifyErrors) notifyApiError(error)
+        }
+        throw error
+      }
+    }
+  }
+
+  return {
+    axios: instance,
+    request,
+    get: <T>(url: string, config?: RequestOptions) =>
+      request<T>({ ...config, method: "GET", url }),
+    delete: <T>(url: string, config?: RequestOptions) =>
+      request<T>({ ...config, method: "DELETE", url }),
+    post: <T>(url: string, data?: unknown, config?: RequestOptions) =>
+      request<T>({ ...config, method: "POST", url, data }),
+    put: <T>(url: string, data?: unknown, config?: RequestOptions) =>
+      request<T>({ ...config, method: "PUT", url, data }),
+    patch: <T>(url: string, data?: unknown, config?: RequestOptions) =>
+      request<T>({ ...config, method: "PATCH", url, data }),
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
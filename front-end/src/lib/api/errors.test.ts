@@ -0,0 +1,92 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type InternalAxiosRequestConfig,
+} from "axios"
+import { describe, expect, it } from "vitest"
+
+import { ApiError, toApiError } from "./errors"
+
+const config: InternalAxiosRequestConfig = {
+  method: "get",
+  url: "/reports/42",
+  headers: new AxiosHeaders(),
+}
+
+function httpError(status: number, data: unknown, statusText = "") {
+  return new AxiosError("Request failed", "ERR_BAD_RESPONSE", config, null, {
+    status,
+    statusText,
+    data,
+    headers: {},
+    config,
+  })
+}
+
+describe("toApiError", () => {
+  it("normalizes HTTP responses with the server's message and code", () => {
+    const error = toApiError(
+      httpError(422, { message: "Name is taken", code: "name_taken" })
+    )
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({
+      kind: "http",
+      status: 422,
+      code: "name_taken",
+      message: "Name is taken",
+      method: "GET",
+      url: "/reports/42",
+      details: { message: "Name is taken", code: "name_taken" },
+    })
+  })
+
+  it("falls back to the status text, then the status", () => {
+    expect(toApiError(httpError(503, { detail: "Down" })).message).toBe("Down")
+    expect(toApiError(httpError(503, "", "Service Unavailable")).message).toBe(
+      "Service Unavailable"
+    )
+    expect(toApiError(httpError(503, null))).toMatchObject({
+      message: "Request failed (503)",
+      code: "ERR_BAD_RESPONSE",
+    })
+  })
+
+  it.each(["ECONNABORTED", "ETIMEDOUT"])("treats %s as a timeout", (code) => {
+    expect(
+      toApiError(new AxiosError("timeout", code, config, {}))
+    ).toMatchObject({ kind: "timeout", code, method: "GET" })
+  })
+
+  it("treats a request without a response as a network error", () => {
+    const cause = new AxiosError("Network Error", "ERR_NETWORK", config, {})
+    const error = toApiError(cause)
+
+    expect(error).toMatchObject({
+      kind: "network",
+      code: "ERR_NETWORK",
+      url: "/reports/42",
+      cause,
+    })
+    expect(error.status).toBeUndefined()
+  })
+
+  it("recognizes cancellations and passes ApiErrors through", () => {
+    const cancelled = toApiError(new CanceledError())
+    expect(cancelled.kind).toBe("cancelled")
+    expect(cancelled.isCancelled).toBe(true)
+
+    const existing = new ApiError("Nope", { kind: "http", status: 401 })
+    expect(toApiError(existing)).toBe(existing)
+    expect(existing.isUnauthorized).toBe(true)
+  })
+
+  it("wraps anything else as unknown", () => {
+    expect(toApiError(new TypeError("x is undefined"))).toMatchObject({
+      kind: "unknown",
+      message: "x is undefined",
+    })
+    expect(toApiError("boom").message).toBe("Unexpected error")
+  })
+})
@@ -0,0 +1,131 @@
+import axios from "axios"
+
+export type ApiErrorKind =
+  | "http"
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "unknown"
+
+export interface ApiErrorOptions {
+  kind: ApiErrorKind
+  status?: number
+  code?: string
+  details?: unknown
+  method?: string
+  url?: string
+  cause?: unknown
+}
+
+/**
+ * The only error type surfaced by the API layer. Whatever axios (or the
+ * server) produced is normalized into this shape by `toApiError`.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly status?: number
+  readonly code?: string
+  readonly details?: unknown
+  readonly method?: string
+  readonly url?: string
+  readonly cause?: unknown
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message)
+    this.name = "ApiError"
+    this.kind = options.kind
+    this.status = options.status
+    this.code = options.code
+    this.details = options.details
+    this.method = options.method
+    this.url = options.url
+    this.cause = options.cause
+  }
+
+  get isCancelled() {
+    return this.kind === "cancelled"
+  }
+
+  get isUnauthorized() {
+    return this.status === 401
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+/** Pulls a human-readable message out of common error payload shapes. */
+function messageFromBody(data: unknown): string | undefined {
+  if (typeof data === "string" && data.trim()) return data
+  if (data && typeof data === "object") {
+    const body = data as Record<string, unknown>
+    for (const key of ["message", "error", "detail", "title"]) {
+      if (typeof body[key] === "string") return body[key] as string
+    }
+  }
+  return undefined
+}
+
+function codeFromBody(data: unknown): string | undefined {
+  if (data && typeof data === "object") {
+    const code = (data as Record<string, unknown>).code
+    if (typeof code === "string") return code
+  }
+  return undefined
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) return error
+
+  if (axios.isCancel(error)) {
+    return new ApiError("Request was cancelled", {
+      kind: "cancelled",
+      cause: error,
+    })
+  }
+
+  if (axios.isAxiosError(error)) {
+    const method = error.config?.method?.toUpperCase()
+    const url = error.config?.url
+
+    if (error.response) {
+      const { status, statusText, data } = error.response
+      return new ApiError(
+        messageFromBody(data) ?? (statusText || `Request failed (${status})`),
+        {
+          kind: "http",
+          status,
+          code: codeFromBody(data) ?? error.code,
+          details: data,
+          method,
+          url,
+          cause: error,
+        }
+      )
+    }
+
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new ApiError("The request timed out", {
+        kind: "timeout",
+        code: error.code,
+        method,
+        url,
+        cause: error,
+      })
+    }
+
+    return new ApiError("Network error, check your connection", {
+      kind: "network",
+      code: error.code,
+      method,
+      url,
+      cause: error,
+    })
+  }
+
+  return new ApiError(
+    error instanceof Error ? error.message : "Unexpected error",
+    { kind: "unknown", cause: error }
+  )
+}
@@ -0,0 +1,31 @@
+import { createApiClient } from "./client"
+
+export {
+  createApiClient,
+  type ApiClient,
+  type ApiClientOptions,
+  type RequestInterceptor,
+  type RequestOptions,
+  type ResponseInterceptor,
+} from "./client"
+export {
+  ApiError,
+  isApiError,
+  toApiError,
+  type ApiErrorKind,
+  type ApiErrorOptions,
+} from "./errors"
+export {
+  createMockAdapter,
+  type MockHandler,
+  type MockRequest,
+  type MockResponse,
+  type MockRoutes,
+} from "./mock-adapter"
+export { notifyApiError } from "./notify"
+export { defaultRetryOptions, type RetryOptions } from "./retry"
+
+/** Shared client configured from the Vite environment. */
+export const api = createApiClient({
+  getAuthToken: () => window.localStorage.getItem("auth-token"),
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+
+import { createApiClient } from "./client"
+import { createMockAdapter } from "./mock-adapter"
+
+function createClient(...args: Parameters<typeof createMockAdapter>) {
+  return createApiClient({
+    adapter: createMockAdapter(...args),
+    retry: false,
+    notifyErrors: false,
+  })
+}
+
+describe("createMockAdapter", () => {
+  it("routes by method and passes params, query and body", async () => {
+    const api = createClient({
+      "GET /users/:id": ({ params, query }) => ({
+        data: { id: params.id, fields: query.get("fields") },
+      }),
+      "POST /users": ({ body }) => ({ status: 201, data: body }),
+    })
+
+    await expect(
+      api.get("/users/a%20b/", { params: { fields: "name" } })
+    ).resolves.toEqual({ id: "a b", fields: "name" })
+    await expect(api.post("/users", { name: "Ana" })).resolves.toEqual({
+      name: "Ana",
+    })
+  })
+
+  it("rejects unmatched routes and failing statuses", async () => {
+    const api = createClient({
+      "GET /broken": () => ({ status: 503, data: { message: "Down" } }),
+    })
+
+    await expect(api.delete("/broken")).rejects.toMatchObject({
+      status: 404,
+      message: "Not found",
+    })
+    await expect(api.get("/broken")).rejects.toMatchObject({
+      status: 503,
+      message: "Down",
+    })
+  })
+
+  it("cancels delayed responses when the request is aborted", async () => {
+    const api = createClient(
+      { "GET /slow": () => ({ data: 1 }) },
+      { delay: 1000 }
+    )
+    const controller = new AbortController()
+
+    const request = api.get("/slow", { signal: controller.signal })
+    controller.abort()
+
+    await expect(request).rejects.toMatchObject({ isCancelled: true })
+  })
+})
@@ -0,0 +1,147 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios"
+
+export interface MockRequest {
+  method: string
+  path: string
+  /** Values for `:name` segments in the route pattern. */
+  params: Record<string, string>
+  query: URLSearchParams
+  body: unknown
+  headers: AxiosHeaders
+}
+
+export interface MockResponse {
+  status?: number
+  data?: unknown
+  headers?: Record<string, string>
+  /** Per-response latency in ms; overrides the adapter default. */
+  delay?: number
+}
+
+export type MockHandler = (
+  request: MockRequest
+) => MockResponse | Promise<MockResponse>
+
+/** Keys are `"<METHOD> <path>"`, e.g. `"GET /transactions/:id"`. */
+export type MockRoutes = Record<string, MockHandler>
+
+interface CompiledRoute {
+  method: string
+  pattern: RegExp
+  names: string[]
+  handler: MockHandler
+}
+
+function compileRoutes(routes: MockRoutes): CompiledRoute[] {
+  return Object.entries(routes).map(([key, handler]) => {
+    const [method, path] = key.trim().split(/\s+/)
+    const names: string[] = []
+    const source = path
+      .replace(/\/+$/, "")
+      .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/:(\w+)/g, (_, name: string) => {
+        names.push(name)
+        return "([^/]+)"
+      })
+    return {
+      method: method.toUpperCase(),
+      pattern: new RegExp(`^${source}/?$`),
+      names,
+      handler,
+    }
+  })
+}
+
+function parseBody(data: unknown) {
+  if (typeof data !== "string") return data
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CanceledError())
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        reject(new CanceledError())
+      },
+      { once: true }
+    )
+  })
+}
+
+/**
+ * An in-memory axios adapter so the app and its hooks can run without a
+ * backend. Pass it as `adapter` to `createApiClient`.
+ */
+export function createMockAdapter(
+  routes: MockRoutes,
+  { delay = 0 }: { delay?: number } = {}
+): AxiosAdapter {
+  const compiled = compileRoutes(routes)
+
+  return async (config: InternalAxiosRequestConfig) => {
+    const method = (config.method ?? "get").toUpperCase()
+    const url = new URL(config.url ?? "/", "http://mock.local")
+    const path = url.pathname
+    const query = url.searchParams
+    for (const [key, value] of Object.entries(config.params ?? {})) {
+      if (value !== undefined) query.set(key, String(value))
+    }
+
+    let response: MockResponse = { status: 404, data: { message: "Not found" } }
+    for (const route of compiled) {
+      if (route.method !== method) continue
+      const match = route.pattern.exec(path)
+      if (!match) continue
+      const params = Object.fromEntries(
+        route.names.map((name, i) => [name, decodeURIComponent(match[i + 1])])
+      )
+      response = await route.handler({
+        method,
+        path,
+        params,
+        query,
+        body: parseBody(config.data),
+        headers: AxiosHeaders.from(config.headers),
+      })
+      break
+    }
+
+    await wait(response.delay ?? delay, config.signal as AbortSignal | undefined)
+
+    const status = response.status ?? 200
+    const axiosResponse: AxiosResponse = {
+      data: response.data,
+      status,
+      statusText: String(status),
+      headers: new AxiosHeaders(response.headers),
+      config,
+    }
+
+    const validate = config.validateStatus ?? ((s: number) => s < 300)
+    if (!validate(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        axiosResponse
+      )
+    }
+    return axiosResponse
+  }
+}
@@ -0,0 +1,27 @@
+import { toast } from "../../components/ui/use-toast"
+import type { ApiError } from "./errors"
+
+function titleFor(error: ApiError) {
+  switch (error.kind) {
+    case "network":
+      return "Connection problem"
+    case "timeout":
+      return "Request timed out"
+    case "http":
+      if (error.status === 401) return "You are signed out"
+      if (error.status === 403) return "Not allowed"
+      if (error.status === 404) return "Not found"
+      if (error.status && error.status >= 500) return "Server error"
+      return "Request failed"
+    default:
+      return "Something went wrong"
+  }
+}
+
+export function notifyApiError(error: ApiError) {
+  toast({
+    variant: "destructive",
+    title: titleFor(error),
+    description: error.message,
+  })
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { ApiError, type ApiErrorOptions } from "./errors"
+import { backoffDelay, defaultRetryOptions, shouldRetry, sleep } from "./retry"
+
+const error = (options: Partial<ApiErrorOptions> = {}) =>
+  new ApiError("Failed", { kind: "http", method: "GET", ...options })
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe("shouldRetry", () => {
+  it.each([
+    [408, true],
+    [429, true],
+    [503, true],
+    [400, false],
+    [401, false],
+    [404, false],
+    [501, false],
+  ])("retries status %i: %s", (status, expected) => {
+    expect(shouldRetry(error({ status }), 0, defaultRetryOptions)).toBe(
+      expected
+    )
+  })
+
+  it.each([
+    ["GET", true],
+    ["HEAD", true],
+    ["OPTIONS", true],
+    ["PUT", true],
+    ["DELETE", true],
+    ["POST", false],
+    ["PATCH", false],
+    [undefined, false],
+  ])("retries %s requests: %s", (method, expected) => {
+    expect(
+      shouldRetry(error({ kind: "network", method }), 0, defaultRetryOptions)
+    ).toBe(expected)
+  })
+
+  it("always retries network errors and timeouts, never cancellations", () => {
+    expect(
+      shouldRetry(error({ kind: "network" }), 0, defaultRetryOptions)
+    ).toBe(true)
+    expect(
+      shouldRetry(error({ kind: "timeout" }), 0, defaultRetryOptions)
+    ).toBe(true)
+    expect(
+      shouldRetry(error({ kind: "cancelled" }), 0, defaultRetryOptions)
+    ).toBe(false)
+    expect(
+      shouldRetry(error({ kind: "unknown" }), 0, defaultRetryOptions)
+    ).toBe(false)
+  })
+
+  it("stops once the retries are used up", () => {
+    const options = { ...defaultRetryOptions, retries: 2 }
+    const timeout = error({ kind: "timeout" })
+
+    expect(shouldRetry(timeout, 1, options)).toBe(true)
+    expect(shouldRetry(timeout, 2, options)).toBe(false)
+    expect(shouldRetry(timeout, 0, { ...options, retries: 0 })).toBe(false)
+  })
+})
+
+describe("backoffDelay", () => {
+  it("doubles the ceiling per attempt up to maxDelay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    const options = { ...defaultRetryOptions, baseDelay: 100, maxDelay: 1000 }
+
+    expect([0, 1, 2, 3, 4].map((n) => backoffDelay(n, options))).toEqual([
+      100, 200, 400, 800, 1000,
+    ])
+  })
+
+  it("picks a random delay below the ceiling", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.25)
+    const options = { ...defaultRetryOptions, baseDelay: 100 }
+
+    expect(backoffDelay(2, options)).toBe(100)
+  })
+})
+
+describe("sleep", () => {
+  it("resolves after the delay", async () => {
+    vi.useFakeTimers()
+    const resolved = vi.fn()
+    void sleep(500).then(resolved)
+
+    await vi.advanceTimersByTimeAsync(499)
+    expect(resolved).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(resolved).toHaveBeenCalled()
+  })
+
+  it("rejects with the abort reason as soon as the signal aborts", async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const sleeping = sleep(500, controller.signal)
+
+    controller.abort(new Error("Left the page"))
+
+    await expect(sleeping).rejects.toThrow("Left the page")
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it("rejects immediately for an already aborted signal", async () => {
+    const reason = new Error("Already gone")
+
+    await expect(sleep(500, AbortSignal.abort(reason))).rejects.toBe(reason)
+  })
+})
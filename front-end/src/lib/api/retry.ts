@@ -0,0 +1,57 @@
+import type { ApiError } from "./errors"
+
+export interface RetryOptions {
+  /** Extra attempts after the first one. */
+  retries: number
+  /** Delay before the first retry, doubled on each attempt. */
+  baseDelay: number
+  maxDelay: number
+  /** Only these methods are retried; defaults to the idempotent ones. */
+  methods: string[]
+  /** HTTP statuses worth retrying. Network errors and timeouts always are. */
+  statuses: number[]
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  retries: 2,
+  baseDelay: 300,
+  maxDelay: 5000,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  statuses: [408, 425, 429, 500, 502, 503, 504],
+}
+
+export function shouldRetry(
+  error: ApiError,
+  attempt: number,
+  options: RetryOptions
+) {
+  if (attempt >= options.retries) return false
+  if (!error.method || !options.methods.includes(error.method)) return false
+  if (error.kind === "network" || error.kind === "timeout") return true
+  return error.kind === "http" && options.statuses.includes(error.status!)
+}
+
+/** Exponential backoff with full jitter. */
+export function backoffDelay(attempt: number, options: RetryOptions) {
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+/** Resolves after `ms`, or rejects early when `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+
+import { MessageSyntaxError, formatMessage } from "./format-message"
+
+describe("formatMessage", () => {
+  it("interpolates arguments and leaves missing ones visible", () => {
+    expect(formatMessage("Hey {name}!", { name: "Jeffery" })).toBe(
+      "Hey Jeffery!"
+    )
+    expect(formatMessage("Hey {name}!")).toBe("Hey {name}!")
+  })
+
+  it("picks plural forms by locale, exact matches first", () => {
+    const message =
+      "{count, plural, =0 {No messages} one {# message} other {# messages}}"
+
+    expect(formatMessage(message, { count: 0 })).toBe("No messages")
+    expect(formatMessage(message, { count: 1 })).toBe("1 message")
+    expect(formatMessage(message, { count: 1200 })).toBe("1,200 messages")
+    expect(formatMessage(message, { count: 1200 }, "de")).toBe("1.200 messages")
+  })
+
+  it("applies plural offsets and ordinals", () => {
+    expect(
+      formatMessage(
+        "{guests, plural, offset:1 =0 {Nobody} one {{host} and # other} other {{host} and # others}}",
+        { guests: 3, host: "Ana" }
+      )
+    ).toBe("Ana and 2 others")
+    expect(
+      formatMessage(
+        "{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}",
+        { place: 22 }
+      )
+    ).toBe("22nd")
+  })
+
+  it("selects on strings and nests plurals inside", () => {
+    const message =
+      "{role, select, admin {{count, plural, one {# admin} other {# admins}}} other {Guest}}"
+
+    expect(formatMessage(message, { role: "admin", count: 2 })).toBe("2 admins")
+    expect(formatMessage(message, { role: "viewer", count: 2 })).toBe("Guest")
+  })
+
+  it("formats numbers and dates for the locale", () => {
+    const date = new Date(2024, 4, 3)
+
+    expect(formatMessage("{n, number, percent}", { n: 0.25 }, "es")).toBe(
+      "25\u00a0%"
+    )
+    expect(formatMessage("{d, date, long}", { d: date }, "de")).toBe(
+      "3. Mai 2024"
+    )
+  })
+
+  it("treats quoted syntax characters as text", () => {
+    expect(formatMessage("Use '{name}' for names, it''s {x}", { x: 1 })).toBe(
+      "Use {name} for names, it's 1"
+    )
+  })
+
+  it.each([
+    ["{count, plural, one {#}}", /needs an "other" option/],
+    ["{count, plural, other {#}", /Unclosed "count" argument/],
+    ["{value, currency}", /Unknown argument type "currency"/],
+    ["{name", /Expected ","/],
+    ["oops}", /Unmatched "}"/],
+  ])("rejects %s", (message, reason) => {
+    expect(() => formatMessage(message)).toThrow(MessageSyntaxError)
+    expect(() => formatMessage(message)).toThrow(reason)
+  })
+})
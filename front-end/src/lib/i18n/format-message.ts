@@ -0,0 +1,251 @@
+import { dateTimeFormat, numberFormat, pluralRules } from "./format"
+
+export type MessageValue = string | number | Date
+
+export type MessageValues = Record<string, MessageValue>
+
+type MessagePart =
+  | string
+  | { type: "pound" }
+  | {
+      type: "argument"
+      name: string
+      format?: "number" | "date" | "time"
+      style?: string
+    }
+  | {
+      type: "plural"
+      name: string
+      ordinal: boolean
+      offset: number
+      options: Record<string, MessagePart[]>
+    }
+  | { type: "select"; name: string; options: Record<string, MessagePart[]> }
+
+/** A catalog message that isn't valid ICU; always a bug in the catalog. */
+export class MessageSyntaxError extends Error {
+  readonly source: string
+  readonly position: number
+
+  constructor(reason: string, source: string, position: number) {
+    super(`${reason} at ${position} in "${source}"`)
+    this.name = "MessageSyntaxError"
+    this.source = source
+    this.position = position
+  }
+}
+
+/**
+ * Parses the ICU MessageFormat subset the catalogs use: `{name}`,
+ * `{n, number[, integer|percent]}`, `{d, date|time[, short|medium|long|full]}`,
+ * `plural` and `selectordinal` (with `=N` cases, `offset:` and `#`), and
+ * `select`. Apostrophes quote syntax characters: `'{'` and `''`.
+ */
+function parse(source: string): MessagePart[] {
+  let index = 0
+
+  const fail = (reason: string): never => {
+    throw new MessageSyntaxError(reason, source, index)
+  }
+  const skipSpace = () => {
+    while (/\s/.test(source[index] ?? "")) index++
+  }
+  const readWord = () => {
+    skipSpace()
+    const start = index
+    while (index < source.length && /[^\s,{}]/.test(source[index])) index++
+    if (start === index) fail("Expected a name")
+    return source.slice(start, index)
+  }
+  const consume = (char: string) => {
+    skipSpace()
+    if (source[index] !== char) fail(`Expected "${char}"`)
+    index++
+  }
+
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = []
+    let text = ""
+    const flush = () => {
+      if (text) parts.push(text)
+      text = ""
+    }
+
+    while (index < source.length) {
+      const char = source[index]
+      const next = source[index + 1]
+      if (char === "}") break
+      if (char === "{") {
+        flush()
+        index++
+        parts.push(parseArgument(inPlural))
+      } else if (char === "#" && inPlural) {
+        flush()
+        parts.push({ type: "pound" })
+        index++
+      } else if (char === "'" && next === "'") {
+        text += "'"
+        index += 2
+      } else if (
+        char === "'" &&
+        (next === "{" || next === "}" || (next === "#" && inPlural))
+      ) {
+        const end = source.indexOf("'", index + 1)
+        text += source.slice(index + 1, end === -1 ? undefined : end)
+        index = end === -1 ? source.length : end + 1
+      } else {
+        text += char
+        index++
+      }
+    }
+    flush()
+    return parts
+  }
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    const name = readWord()
+    skipSpace()
+    if (source[index] === "}") {
+      index++
+      return { type: "argument", name }
+    }
+    consume(",")
+    const type = readWord()
+    skipSpace()
+
+    if (type === "number" || type === "date" || type === "time") {
+      let style: string | undefined
+      if (source[index] === ",") {
+        index++
+        style = readWord()
+      }
+      consume("}")
+      return { type: "argument", name, format: type, style }
+    }
+
+    if (type !== "plural" && type !== "selectordinal" && type !== "select") {
+      return fail(`Unknown argument type "${type}"`)
+    }
+
+    consume(",")
+    skipSpace()
+    let offset = 0
+    if (type !== "select" && source.startsWith("offset:", index)) {
+      index += "offset:".length
+      offset = Number(readWord())
+      if (Number.isNaN(offset)) fail("Expected a number after offset:")
+    }
+
+    const options: Record<string, MessagePart[]> = {}
+    skipSpace()
+    while (source[index] !== "}") {
+      if (index >= source.length) fail(`Unclosed "${name}" argument`)
+      const key = readWord()
+      consume("{")
+      options[key] = parseParts(inPlural || type !== "select")
+      consume("}")
+      skipSpace()
+    }
+    index++
+
+    if (!options.other) fail(`"${name}" needs an "other" option`)
+    return type === "select"
+      ? { type, name, options }
+      : {
+          type: "plural",
+          name,
+          ordinal: type === "selectordinal",
+          offset,
+          options,
+        }
+  }
+
+  const parts = parseParts(false)
+  if (index < source.length) fail('Unmatched "}"')
+  return parts
+}
+
+const dateStyles = ["short", "medium", "long", "full"] as const
+
+function formatArgument(
+  value: MessageValue,
+  locale: string,
+  format?: "number" | "date" | "time",
+  style?: string
+) {
+  if (format === "number" || (!format && typeof value === "number")) {
+    const options: Intl.NumberFormatOptions =
+      style === "percent"
+        ? { style: "percent" }
+        : style === "integer"
+          ? { maximumFractionDigits: 0 }
+          : {}
+    return numberFormat(locale, options).format(Number(value))
+  }
+  if (format || value instanceof Date) {
+    const length = dateStyles.find((s) => s === style) ?? "medium"
+    return dateTimeFormat(
+      locale,
+      format === "time" ? { timeStyle: length } : { dateStyle: length }
+    ).format(value instanceof Date ? value : new Date(value))
+  }
+  return String(value)
+}
+
+function formatParts(
+  parts: MessagePart[],
+  values: MessageValues,
+  locale: string,
+  pound?: number
+): string {
+  return parts
+    .map((part) => {
+      if (typeof part === "string") return part
+      if (part.type === "pound") {
+        return pound === undefined ? "#" : numberFormat(locale).format(pound)
+      }
+
+      const value = values[part.name]
+      // Leave the placeholder visible rather than failing the whole render.
+      if (value === undefined) return `{${part.name}}`
+
+      if (part.type === "argument") {
+        return formatArgument(value, locale, part.format, part.style)
+      }
+      if (part.type === "select") {
+        const option = part.options[String(value)] ?? part.options.other
+        return formatParts(option, values, locale, pound)
+      }
+
+      const count = Number(value)
+      const category = pluralRules(
+        locale,
+        part.ordinal ? "ordinal" : "cardinal"
+      ).select(count - part.offset)
+      const option =
+        part.options[`=${count}`] ??
+        part.options[category] ??
+        part.options.other
+      return formatParts(option, values, locale, count - part.offset)
+    })
+    .join("")
+}
+
+const parsed = new Map<string, MessagePart[]>()
+
+/**
+ * Formats an ICU message for `locale`. Parsed messages are cached, so
+ * formatting the same catalog entry again only walks the parts.
+ */
+export function formatMessage(
+  message: string,
+  values: MessageValues = {},
+  locale = "en"
+) {
+  let parts = parsed.get(message)
+  if (!parts) {
+    parts = parse(message)
+    parsed.set(message, parts)
+  }
+  return formatParts(parts, values, locale)
+}
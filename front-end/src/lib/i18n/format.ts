@@ -0,0 +1,76 @@
+import {
+  format as formatWithPattern,
+  type Locale as DateLocale,
+} from "date-fns"
+
+// Intl constructors are slow enough to matter in long lists, so each
+// locale/options combination is built once.
+const cache = new Map<string, unknown>()
+
+function cached<T>(key: string, create: () => T): T {
+  if (!cache.has(key)) cache.set(key, create())
+  return cache.get(key) as T
+}
+
+export function numberFormat(
+  locale: string,
+  options?: Intl.NumberFormatOptions
+) {
+  return cached(
+    `number:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.NumberFormat(locale, options)
+  )
+}
+
+export function dateTimeFormat(
+  locale: string,
+  options?: Intl.DateTimeFormatOptions
+) {
+  return cached(
+    `datetime:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.DateTimeFormat(locale, options)
+  )
+}
+
+export function pluralRules(locale: string, type: Intl.PluralRuleType) {
+  return cached(
+    `plural:${locale}:${type}`,
+    () => new Intl.PluralRules(locale, { type })
+  )
+}
+
+export interface Formatters {
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  /** `currency` is an ISO 4217 code, e.g. `"EUR"`. */
+  formatCurrency: (
+    value: number,
+    currency?: string,
+    options?: Intl.NumberFormatOptions
+  ) => string
+  /** `0.125` -> `"12.5%"` */
+  formatPercent: (value: number, options?: Intl.NumberFormatOptions) => string
+  /** Formats with a `date-fns` pattern; `"PP"` is the locale's medium date. */
+  formatDate: (date: Date | number, pattern?: string) => string
+}
+
+export function createFormatters(
+  locale: string,
+  dateLocale: DateLocale
+): Formatters {
+  return {
+    formatNumber: (value, options) =>
+      numberFormat(locale, options).format(value),
+    formatCurrency: (value, currency = "USD", options) =>
+      numberFormat(locale, { style: "currency", currency, ...options }).format(
+        value
+      ),
+    formatPercent: (value, options) =>
+      numberFormat(locale, {
+        style: "percent",
+        maximumFractionDigits: 1,
+        ...options,
+      }).format(value),
+    formatDate: (date, pattern = "PP") =>
+      formatWithPattern(date, pattern, { locale: dateLocale }),
+  }
+}
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { DateRangePicker } from "../../components/date-range-picker"
+import { DateTimeInput } from "../../components/date-time-input"
+import { Calendar } from "../../components/ui/calendar"
+import { Dialog, DialogContent, DialogTitle } from "../../components/ui/dialog"
+import { render, screen, setup } from "../../test/render"
+import { I18nProvider, LOCALE_STORAGE_KEY, useI18n } from "./i18n-provider"
+import { loadLocale, localeNames, locales } from "./locales"
+import { en } from "./messages/en"
+
+vi.mock("./locales", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./locales")>()
+  return { ...actual, loadLocale: vi.fn(actual.loadLocale) }
+})
+
+function LocalePicker() {
+  const { locale, setLocale, formatCurrency, pending, loadError } = useI18n()
+
+  return (
+    <div aria-busy={pending}>
+      {loadError && <p role="alert">Failed: {loadError.locale}</p>}
+      <p>
+        {locale}: {formatCurrency(1234.5, "EUR")}
+      </p>
+      {locales.map((code) => (
+        <button key={code} onClick={() => setLocale(code)}>
+          {localeNames[code]}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+afterEach(() => {
+  window.localStorage.clear()
+})
+
+describe("I18nProvider", () => {
+  it("renders English without a provider", () => {
+    render(
+      <Dialog open>
+        <DialogContent aria-describedby={undefined}>
+          <DialogTitle>Title</DialogTitle>
+        </DialogContent>
+      </Dialog>
+    )
+
+    expect(screen.getByRole("button", { name: "Close" })).toBeInTheDocument()
+  })
+
+  it("loads a picked locale and translates components", async () => {
+    const { user } = setup(
+      <I18nProvider defaultLocale="en">
+        <LocalePicker />
+        <Calendar defaultMonth={new Date(2024, 4, 1)} />
+      </I18nProvider>
+    )
+    expect(screen.getByText("en: €1,234.50")).toBeInTheDocument()
+
+    await user.click(screen.getByRole("button", { name: "Español" }))
+
+    expect(await screen.findByText("es: 1234,50 €")).toBeInTheDocument()
+    expect(screen.getByRole("grid")).toHaveAccessibleName("mayo 2024")
+    expect(
+      screen.getByRole("button", { name: "Ir al mes anterior" })
+    ).toBeInTheDocument()
+    expect(window.localStorage.getItem(LOCALE_STORAGE_KEY)).toBe("es")
+    expect(document.documentElement.lang).toBe("es")
+  })
+
+  it("keeps the current locale when the picked one fails to load", async () => {
+    const { user } = setup(
+      <I18nProvider defaultLocale="en">
+        <LocalePicker />
+      </I18nProvider>
+    )
+    vi.mocked(loadLocale).mockRejectedValueOnce(new Error("Chunk failed"))
+
+    await user.click(screen.getByRole("button", { name: "Deutsch" }))
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Failed: de")
+    expect(screen.getByText("en: €1,234.50")).toBeInTheDocument()
+    expect(screen.getByText("en: €1,234.50").parentElement).toHaveAttribute(
+      "aria-busy",
+      "false"
+    )
+    expect(window.localStorage.getItem(LOCALE_STORAGE_KEY)).toBe("en")
+
+    await user.click(screen.getByRole("button", { name: "Deutsch" }))
+
+    expect(await screen.findByText("de: 1.234,50 €")).toBeInTheDocument()
+    expect(screen.queryByRole("alert")).toBeNull()
+  })
+
+  it("starts from the stored locale", async () => {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, "de")
+    render(
+      <I18nProvider>
+        <LocalePicker />
+      </I18nProvider>
+    )
+
+    expect(await screen.findByText("de: 1.234,50 €")).toBeInTheDocument()
+  })
+
+  it("localizes date inputs by default", async () => {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, "de")
+    const { user } = setup(
+      <I18nProvider>
+        <LocalePicker />
+        <DateTimeInput aria-label="Start" />
+        <DateRangePicker />
+      </I18nProvider>
+    )
+    await screen.findByText("de: 1.234,50 €")
+
+    const input = screen.getByRole("textbox", { name: "Start" })
+    expect(input).toHaveAttribute("placeholder", "dd.MM.yyyy HH:mm")
+    expect(
+      screen.getByRole("button", { name: "Zeitraum auswählen" })
+    ).toBeInTheDocument()
+
+    await user.type(input, "31.12.2024 14:30{Enter}")
+    expect(input).toHaveValue("31.12.2024 14:30")
+
+    await user.clear(input)
+    await user.type(input, "morgen{Enter}")
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      /^Gib ein Datum wie \d{2}\.\d{2}\.\d{4} \d{2}:\d{2} ein\.$/
+    )
+
+    await user.click(screen.getByRole("button", { name: "Zeitraum auswählen" }))
+    expect(
+      await screen.findByRole("button", { name: "Letzte 7 Tage" })
+    ).toBeInTheDocument()
+  })
+})
+
+describe("catalogs", () => {
+  it.each(locales.filter((locale) => locale !== "en"))(
+    "%s translates every English key",
+    async (locale) => {
+      const { [locale]: messages } = await import(`./messages/${locale}.ts`)
+
+      expect(Object.keys(messages).sort()).toEqual(Object.keys(en).sort())
+    }
+  )
+})
@@ -0,0 +1,136 @@
+import * as React from "react"
+
+import { createI18n, type I18n } from "./i18n"
+import {
+  DEFAULT_LOCALE,
+  defaultBundle,
+  isLocaleCode,
+  loadLocale,
+  matchLocale,
+  type LocaleCode,
+} from "./locales"
+
+export const LOCALE_STORAGE_KEY = "ui-locale"
+
+export interface LocaleLoadError {
+  locale: LocaleCode
+  cause: unknown
+}
+
+interface I18nState extends I18n {
+  setLocale: (locale: LocaleCode) => void
+  /** True while a newly picked locale's messages are loading. */
+  pending: boolean
+  /** Set when a picked locale fails to load; the previous one stays active. */
+  loadError: LocaleLoadError | null
+}
+
+const englishState: I18nState = {
+  ...createI18n(DEFAULT_LOCALE, defaultBundle),
+  setLocale: () => {},
+  pending: false,
+  loadError: null,
+}
+
+// Unlike the theme, components render fine without a provider (tests, the
+// gallery), so the context defaults to English instead of throwing.
+const I18nContext = React.createContext<I18nState>(englishState)
+
+function readInitialLocale(storageKey: string, fallback?: LocaleCode) {
+  try {
+    const stored = window.localStorage.getItem(storageKey)
+    if (isLocaleCode(stored)) return stored
+  } catch {
+    // Storage can be unavailable (private mode); fall through.
+  }
+  return fallback ?? matchLocale(navigator.languages ?? [navigator.language])
+}
+
+function storeLocale(storageKey: string, locale: LocaleCode) {
+  try {
+    window.localStorage.setItem(storageKey, locale)
+  } catch {
+    // Storage can be unavailable (private mode); keep the in-memory value.
+  }
+}
+
+interface I18nProviderProps {
+  children: React.ReactNode
+  /** Used when nothing is stored; defaults to the browser's languages. */
+  defaultLocale?: LocaleCode
+  storageKey?: string
+}
+
+export function I18nProvider({
+  children,
+  defaultLocale,
+  storageKey = LOCALE_STORAGE_KEY,
+}: I18nProviderProps) {
+  const [locale, setLocaleState] = React.useState<LocaleCode>(() =>
+    typeof window === "undefined"
+      ? (defaultLocale ?? DEFAULT_LOCALE)
+      : readInitialLocale(storageKey, defaultLocale)
+  )
+  // Keeps rendering the previous locale until the picked one has loaded.
+  const [i18n, setI18n] = React.useState(() =>
+    createI18n(DEFAULT_LOCALE, defaultBundle)
+  )
+  const [loadError, setLoadError] = React.useState<LocaleLoadError | null>(null)
+  const loadedLocale = React.useRef(i18n.locale)
+  loadedLocale.current = i18n.locale
+
+  React.useEffect(() => {
+    let cancelled = false
+    loadLocale(locale).then(
+      (bundle) => {
+        if (!cancelled) setI18n(createI18n(locale, bundle))
+      },
+      (cause: unknown) => {
+        if (cancelled) return
+        // Go back to the locale that is still rendering, so `pending`
+        // settles and a reload doesn't retry the broken chunk.
+        const fallback = loadedLocale.current
+        storeLocale(storageKey, fallback)
+        setLocaleState(fallback)
+        setLoadError({ locale, cause })
+      }
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [locale, storageKey])
+
+  React.useLayoutEffect(() => {
+    document.documentElement.lang = i18n.locale
+  }, [i18n.locale])
+
+  const setLocale = React.useCallback(
+    (next: LocaleCode) => {
+      storeLocale(storageKey, next)
+      setLoadError(null)
+      setLocaleState(next)
+    },
+    [storageKey]
+  )
+
+  const value = React.useMemo(
+    () => ({
+      ...i18n,
+      setLocale,
+      pending: i18n.locale !== locale,
+      loadError,
+    }),
+    [i18n, setLocale, locale, loadError]
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  return React.useContext(I18nContext)
+}
+
+/** Shorthand for components that only need messages. */
+export function useTranslate() {
+  return React.useContext(I18nContext).t
+}
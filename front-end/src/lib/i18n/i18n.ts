@@ -0,0 +1,28 @@
+import { createFormatters, type Formatters } from "./format"
+import { formatMessage, type MessageValues } from "./format-message"
+import { defaultBundle, type LocaleBundle, type LocaleCode } from "./locales"
+import type { MessageKey } from "./messages/en"
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string
+
+export interface I18n extends Formatters {
+  locale: LocaleCode
+  dateLocale: LocaleBundle["dateLocale"]
+  t: Translate
+}
+
+/** Everything needed to render in `locale`, once its bundle has loaded. */
+export function createI18n(locale: LocaleCode, bundle: LocaleBundle): I18n {
+  return {
+    locale,
+    dateLocale: bundle.dateLocale,
+    // A key missing from a catalog falls back to English, never to the key.
+    t: (key, values) =>
+      formatMessage(
+        bundle.messages[key] ?? defaultBundle.messages[key],
+        values,
+        locale
+      ),
+    ...createFormatters(locale, bundle.dateLocale),
+  }
+}
@@ -0,0 +1,17 @@
+export * from "./locales"
+export { createI18n, type I18n, type Translate } from "./i18n"
+export { createFormatters, type Formatters } from "./format"
+export {
+  MessageSyntaxError,
+  formatMessage,
+  type MessageValue,
+  type MessageValues,
+} from "./format-message"
+export type { MessageKey, Messages } from "./messages/en"
+export {
+  I18nProvider,
+  LOCALE_STORAGE_KEY,
+  useI18n,
+  useTranslate,
+  type LocaleLoadError,
+} from "./i18n-provider"
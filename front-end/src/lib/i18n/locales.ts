@@ -0,0 +1,74 @@
+import type { Locale as DateLocale } from "date-fns"
+import { enUS } from "date-fns/locale/en-US"
+
+import { en, type Messages } from "./messages/en"
+
+export const locales = ["en", "es", "de"] as const
+
+export type LocaleCode = (typeof locales)[number]
+
+export const DEFAULT_LOCALE: LocaleCode = "en"
+
+/** Each language in itself, for the language picker. */
+export const localeNames: Record<LocaleCode, string> = {
+  en: "English",
+  es: "Español",
+  de: "Deutsch",
+}
+
+/** What a locale needs before anything can render in it. */
+export interface LocaleBundle {
+  messages: Messages
+  /** Passed to `date-fns` and `Calendar` for month names and week starts. */
+  dateLocale: DateLocale
+}
+
+/** English ships in the main bundle as the fallback for everything else. */
+export const defaultBundle: LocaleBundle = { messages: en, dateLocale: enUS }
+
+const loaders: Record<LocaleCode, () => Promise<LocaleBundle>> = {
+  en: async () => defaultBundle,
+  es: async () => {
+    const [{ es }, { es: dateLocale }] = await Promise.all([
+      import("./messages/es"),
+      import("date-fns/locale/es"),
+    ])
+    return { messages: es, dateLocale }
+  },
+  de: async () => {
+    const [{ de }, { de: dateLocale }] = await Promise.all([
+      import("./messages/de"),
+      import("date-fns/locale/de"),
+    ])
+    return { messages: de, dateLocale }
+  },
+}
+
+const loading = new Map<LocaleCode, Promise<LocaleBundle>>()
+
+/** Loads a locale's chunks once; a failed load is retried on the next call. */
+export function loadLocale(locale: LocaleCode) {
+  let bundle = loading.get(locale)
+  if (!bundle) {
+    bundle = loaders[locale]()
+    bundle.catch(() => loading.delete(locale))
+    loading.set(locale, bundle)
+  }
+  return bundle
+}
+
+export function isLocaleCode(value: unknown): value is LocaleCode {
+  return locales.includes(value as LocaleCode)
+}
+
+/**
+ * The first supported locale among `requested` (e.g. `navigator.languages`),
+ * matching `"es-MX"` to `"es"`.
+ */
+export function matchLocale(requested: readonly string[]): LocaleCode {
+  for (const tag of requested) {
+    const language = tag.toLowerCase().split("-")[0]
+    if (isLocaleCode(language)) return language
+  }
+  return DEFAULT_LOCALE
+}
@@ -0,0 +1,28 @@
+import type { Messages } from "./en"
+
+export const de: Messages = {
+  "ui.close": "Schließen",
+  "ui.breadcrumb.label": "Brotkrumennavigation",
+  "ui.breadcrumb.more": "Mehr",
+  "ui.calendar.nextMonth": "Zum nächsten Monat",
+  "ui.calendar.previousMonth": "Zum vorherigen Monat",
+  "ui.command.title": "Befehlsmenü",
+  "ui.dateRangePicker.placeholder": "Zeitraum auswählen",
+  "ui.dateRangePicker.last7Days": "Letzte 7 Tage",
+  "ui.dateRangePicker.last30Days": "Letzte 30 Tage",
+  "ui.dateRangePicker.monthToDate": "Monat bis heute",
+  "ui.dateRangePicker.yearToDate": "Jahr bis heute",
+  "ui.dateRangePicker.lastQuarter": "Letztes Quartal",
+  "ui.dateTimeInput.invalid": "Gib ein Datum wie {example} ein.",
+  "ui.dateTimeInput.min": "Muss am oder nach dem {date} liegen.",
+  "ui.dateTimeInput.max": "Muss am oder vor dem {date} liegen.",
+  "ui.dateTimeInput.timeZone": "Zeitzone",
+  "ui.sheet.dragToDismiss": "Zum Schließen ziehen",
+  "ui.sheet.resize": "Größe des Panels ändern",
+
+  "locale.label": "Sprache",
+  "locale.loadFailed": "Wechsel zu {language} fehlgeschlagen.",
+
+  "home.greeting": "Hallo {name}!",
+  "home.tagline": "Du bist ein Wal",
+}
@@ -0,0 +1,33 @@
+// The source catalog. Every other locale must translate each key; messages
+// use ICU syntax (`{name}`, `{count, plural, one {# item} other {# items}}`).
+
+export const en = {
+  "ui.close": "Close",
+  "ui.breadcrumb.label": "Breadcrumb",
+  "ui.breadcrumb.more": "More",
+  "ui.calendar.nextMonth": "Go to the next month",
+  "ui.calendar.previousMonth": "Go to the previous month",
+  "ui.command.title": "Command menu",
+  "ui.dateRangePicker.placeholder": "Pick a date range",
+  "ui.dateRangePicker.last7Days": "Last 7 days",
+  "ui.dateRangePicker.last30Days": "Last 30 days",
+  "ui.dateRangePicker.monthToDate": "Month to date",
+  "ui.dateRangePicker.yearToDate": "Year to date",
+  "ui.dateRangePicker.lastQuarter": "Last quarter",
+  "ui.dateTimeInput.invalid": "Enter a date like {example}.",
+  "ui.dateTimeInput.min": "Must be on or after {date}.",
+  "ui.dateTimeInput.max": "Must be on or before {date}.",
+  "ui.dateTimeInput.timeZone": "Time zone",
+  "ui.sheet.dragToDismiss": "Drag to dismiss",
+  "ui.sheet.resize": "Resize sheet",
+
+  "locale.label": "Language",
+  "locale.loadFailed": "Couldn't switch to {language}.",
+
+  "home.greeting": "Hey {name}!",
+  "home.tagline": "You Are A Whale",
+}
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, string>
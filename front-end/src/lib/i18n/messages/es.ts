@@ -0,0 +1,28 @@
+import type { Messages } from "./en"
+
+export const es: Messages = {
+  "ui.close": "Cerrar",
+  "ui.breadcrumb.label": "Ruta de navegación",
+  "ui.breadcrumb.more": "Más",
+  "ui.calendar.nextMonth": "Ir al mes siguiente",
+  "ui.calendar.previousMonth": "Ir al mes anterior",
+  "ui.command.title": "Menú de comandos",
+  "ui.dateRangePicker.placeholder": "Elige un intervalo de fechas",
+  "ui.dateRangePicker.last7Days": "Últimos 7 días",
+  "ui.dateRangePicker.last30Days": "Últimos 30 días",
+  "ui.dateRangePicker.monthToDate": "Mes hasta la fecha",
+  "ui.dateRangePicker.yearToDate": "Año hasta la fecha",
+  "ui.dateRangePicker.lastQuarter": "Último trimestre",
+  "ui.dateTimeInput.invalid": "Introduce una fecha como {example}.",
+  "ui.dateTimeInput.min": "Debe ser igual o posterior a {date}.",
+  "ui.dateTimeInput.max": "Debe ser igual o anterior a {date}.",
+  "ui.dateTimeInput.timeZone": "Zona horaria",
+  "ui.sheet.dragToDismiss": "Arrastra para cerrar",
+  "ui.sheet.resize": "Cambiar tamaño del panel",
+
+  "locale.label": "Idioma",
+  "locale.loadFailed": "No se pudo cambiar a {language}.",
+
+  "home.greeting": "¡Hola, {name}!",
+  "home.tagline": "Eres una ballena",
+}
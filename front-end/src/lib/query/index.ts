@@ -0,0 +1,27 @@
+export {
+  createQueryClient,
+  hashQueryKey,
+  matchesQueryKey,
+  type FetchStatus,
+  type QueryClient,
+  type QueryClientOptions,
+  type QueryFn,
+  type QueryFnContext,
+  type QueryKey,
+  type QueryOptions,
+  type QueryState,
+  type QueryStatus,
+} from "./query-client"
+export { QueryClientProvider, useQueryClient } from "./query-provider"
+export { QueryResult } from "./query-result"
+export {
+  useMutation,
+  type MutationStatus,
+  type OptimisticUpdate,
+  type UseMutationOptions,
+} from "./use-mutation"
+export {
+  useQuery,
+  type UseQueryOptions,
+  type UseQueryResult,
+} from "./use-query"
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { createQueryClient } from "./query-client"
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("createQueryClient", () => {
+  it("shares one request between concurrent fetches of a key", async () => {
+    const client = createQueryClient()
+    const response = deferred<string>()
+    const queryFn = vi.fn(() => response.promise)
+
+    const first = client.fetchQuery({ queryKey: ["user", 1], queryFn })
+    const second = client.fetchQuery({ queryKey: ["user", 1], queryFn })
+    expect(client.getQueryState(["user", 1]).fetchStatus).toBe("fetching")
+
+    response.resolve("Ana")
+
+    await expect(Promise.all([first, second])).resolves.toEqual(["Ana", "Ana"])
+    expect(queryFn).toHaveBeenCalledTimes(1)
+    expect(client.getQueryData(["user", 1])).toBe("Ana")
+  })
+
+  it("hashes object keys regardless of property order", async () => {
+    const client = createQueryClient()
+    client.setQueryData(["list", { page: 1, size: 10 }], ["a"])
+
+    expect(client.getQueryData(["list", { size: 10, page: 1 }])).toEqual(["a"])
+  })
+
+  it("only refetches with ensureQuery once data is stale", async () => {
+    vi.useFakeTimers()
+    const client = createQueryClient()
+    const queryFn = vi.fn(async () => Date.now())
+    const options = { queryKey: ["now"], queryFn, staleTime: 1000 }
+
+    const first = await client.ensureQuery(options)
+    expect(await client.ensureQuery(options)).toBe(first)
+    expect(client.isStale(["now"])).toBe(false)
+
+    vi.advanceTimersByTime(1000)
+
+    expect(client.isStale(["now"])).toBe(true)
+    await client.ensureQuery(options)
+    expect(queryFn).toHaveBeenCalledTimes(2)
+  })
+
+  it("refetches observed entries when they are invalidated", async () => {
+    const client = createQueryClient()
+    const observed = vi.fn(async () => "fresh")
+    const unobserved = vi.fn(async () => "fresh")
+    await client.fetchQuery({ queryKey: ["todos", 1], queryFn: observed })
+    await client.fetchQuery({ queryKey: ["todos", 2], queryFn: unobserved })
+    client.subscribe(["todos", 1], () => {})
+
+    await client.invalidateQueries(["todos"])
+
+    expect(observed).toHaveBeenCalledTimes(2)
+    expect(unobserved).toHaveBeenCalledTimes(1)
+    expect(client.isStale(["todos", 2])).toBe(true)
+  })
+
+  it("reads unknown keys without caching them", () => {
+    const client = createQueryClient()
+
+    const state = client.getQueryState(["missing"])
+
+    expect(state).toMatchObject({ status: "pending", fetchStatus: "idle" })
+    expect(client.getQueryState(["other"])).toBe(state)
+    expect(client.isStale(["missing"])).toBe(true)
+    client.setQueryData(["missing"], 1)
+    expect(client.getQueryState(["other"])).toBe(state)
+  })
+
+  it("collects entries once nothing observes them for gcTime", async () => {
+    vi.useFakeTimers()
+    const client = createQueryClient({ gcTime: 1000 })
+    await client.fetchQuery({ queryKey: ["kept"], queryFn: async () => 1 })
+    const unsubscribe = client.subscribe(["kept"], () => {})
+    await client.fetchQuery({ queryKey: ["dropped"], queryFn: async () => 2 })
+
+    vi.advanceTimersByTime(1000)
+
+    expect(client.getQueryData(["kept"])).toBe(1)
+    expect(client.getQueryData(["dropped"])).toBeUndefined()
+
+    unsubscribe()
+    vi.advanceTimersByTime(1000)
+
+    expect(client.getQueryData(["kept"])).toBeUndefined()
+  })
+
+  it("aborts in-flight requests on cancel", async () => {
+    const client = createQueryClient()
+    let signal: AbortSignal | undefined
+    const request = client.fetchQuery({
+      queryKey: ["slow"],
+      queryFn: (context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      },
+    })
+    request.catch(() => undefined)
+
+    client.cancelQueries(["slow"])
+
+    expect(signal?.aborted).toBe(true)
+    expect(client.getQueryState(["slow"]).fetchStatus).toBe("idle")
+  })
+})
@@ -0,0 +1,305 @@
+export type QueryKey = readonly unknown[]
+
+export type QueryStatus = "pending" | "success" | "error"
+export type FetchStatus = "idle" | "fetching"
+
+export interface QueryState<T = unknown> {
+  data: T | undefined
+  error: Error | undefined
+  status: QueryStatus
+  fetchStatus: FetchStatus
+  /** When data was last written; 0 means stale regardless of staleTime. */
+  updatedAt: number
+}
+
+export interface QueryFnContext {
+  queryKey: QueryKey
+  signal: AbortSignal
+}
+
+export type QueryFn<T> = (context: QueryFnContext) => Promise<T>
+
+export interface QueryOptions<T> {
+  queryKey: QueryKey
+  queryFn: QueryFn<T>
+  /** How long data counts as fresh, in ms. Defaults to the client's. */
+  staleTime?: number
+}
+
+interface QueryEntry<T = unknown> {
+  key: QueryKey
+  state: QueryState<T>
+  listeners: Set<() => void>
+  queryFn?: QueryFn<T>
+  staleTime?: number
+  promise?: Promise<T>
+  controller?: AbortController
+  gcTimer?: ReturnType<typeof setTimeout>
+}
+
+export interface QueryClientOptions {
+  staleTime?: number
+  /** How long an unobserved entry stays cached, in ms. */
+  gcTime?: number
+  refetchOnWindowFocus?: boolean
+}
+
+/** Shared by every key that has no cache entry yet. */
+const initialState: QueryState = {
+  data: undefined,
+  error: undefined,
+  status: "pending",
+  fetchStatus: "idle",
+  updatedAt: 0,
+}
+
+/** Stable hash for query keys; object keys are sorted. */
+export function hashQueryKey(key: QueryKey) {
+  return JSON.stringify(key, (_, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((k) => [k, value[k]])
+        )
+      : value
+  )
+}
+
+/** True when `key` starts with every element of `prefix`. */
+export function matchesQueryKey(key: QueryKey, prefix: QueryKey) {
+  return prefix.every(
+    (part, index) => hashQueryKey([part]) === hashQueryKey([key[index]])
+  )
+}
+
+export function createQueryClient({
+  staleTime: defaultStaleTime = 0,
+  gcTime = 5 * 60 * 1000,
+  refetchOnWindowFocus = true,
+}: QueryClientOptions = {}) {
+  const cache = new Map<string, QueryEntry>()
+
+  function getEntry<T>(key: QueryKey) {
+    const hash = hashQueryKey(key)
+    let entry = cache.get(hash) as QueryEntry<T> | undefined
+    if (!entry) {
+      entry = {
+        key,
+        state: initialState as QueryState<T>,
+        listeners: new Set(),
+      }
+      cache.set(hash, entry as QueryEntry)
+    }
+    return entry
+  }
+
+  function setState<T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) {
+    entry.state = { ...entry.state, ...patch }
+    entry.listeners.forEach((listener) => listener())
+  }
+
+  function scheduleGc(entry: QueryEntry) {
+    clearTimeout(entry.gcTimer)
+    if (entry.listeners.size > 0) return
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && entry.state.fetchStatus === "idle") {
+        cache.delete(hashQueryKey(entry.key))
+      }
+    }, gcTime)
+  }
+
+  function isStale(entry: QueryEntry) {
+    const staleTime = entry.staleTime ?? defaultStaleTime
+    return (
+      entry.state.updatedAt === 0 ||
+      Date.now() - entry.state.updatedAt >= staleTime
+    )
+  }
+
+  /**
+   * Runs the query function, sharing one in-flight request between all
+   * callers of the same key.
+   */
+  function fetchQuery<T>({ queryKey, queryFn, staleTime }: QueryOptions<T>) {
+    const entry = getEntry<T>(queryKey)
+    entry.queryFn = queryFn
+    if (staleTime !== undefined) entry.staleTime = staleTime
+    if (entry.promise) return entry.promise
+
+    const controller = new AbortController()
+    entry.controller = controller
+    setState(entry, { fetchStatus: "fetching" })
+
+    const promise = queryFn({ queryKey, signal: controller.signal }).then(
+      (data) => {
+        if (entry.promise === promise) {
+          entry.promise = undefined
+          setState(entry, {
+            data,
+            error: undefined,
+            status: "success",
+            fetchStatus: "idle",
+            updatedAt: Date.now(),
+          })
+          scheduleGc(entry as QueryEntry)
+        }
+        return data
+      },
+      (error: Error) => {
+        if (entry.promise === promise) {
+          entry.promise = undefined
+          setState(entry, {
+            error: controller.signal.aborted ? entry.state.error : error,
+            status: controller.signal.aborted ? entry.state.status : "error",
+            fetchStatus: "idle",
+          })
+          scheduleGc(entry as QueryEntry)
+        }
+        throw error
+      }
+    )
+    entry.promise = promise
+    return promise
+  }
+
+  /** Fetches only when there is no fresh data. */
+  function ensureQuery<T>(options: QueryOptions<T>) {
+    const entry = getEntry<T>(options.queryKey)
+    if (options.staleTime !== undefined) entry.staleTime = options.staleTime
+    entry.queryFn = options.queryFn
+    if (entry.state.status === "success" && !isStale(entry)) {
+      return Promise.resolve(entry.state.data as T)
+    }
+    return fetchQuery(options)
+  }
+
+  /**
+   * Read-only: `useSyncExternalStore` calls this during render, so keys
+   * without an entry share the idle snapshot instead of creating one.
+   */
+  function getQueryState<T>(key: QueryKey) {
+    const entry = cache.get(hashQueryKey(key)) as QueryEntry<T> | undefined
+    return entry?.state ?? (initialState as QueryState<T>)
+  }
+
+  function getQueryData<T>(key: QueryKey) {
+    return cache.get(hashQueryKey(key))?.state.data as T | undefined
+  }
+
+  function setQueryData<T>(
+    key: QueryKey,
+    updater: T | undefined | ((previous: T | undefined) => T | undefined)
+  ) {
+    const entry = getEntry<T>(key)
+    const data =
+      typeof updater === "function"
+        ? (updater as (previous: T | undefined) => T | undefined)(
+            entry.state.data
+          )
+        : updater
+    setState(entry, {
+      data,
+      error: undefined,
+      status: data === undefined ? entry.state.status : "success",
+      updatedAt: Date.now(),
+    })
+    scheduleGc(entry as QueryEntry)
+    return data
+  }
+
+  function subscribe(key: QueryKey, listener: () => void) {
+    const entry = getEntry(key)
+    clearTimeout(entry.gcTimer)
+    entry.listeners.add(listener)
+    return () => {
+      entry.listeners.delete(listener)
+      scheduleGc(entry)
+    }
+  }
+
+  function cancelQueries(prefix: QueryKey = []) {
+    for (const entry of cache.values()) {
+      if (entry.promise && matchesQueryKey(entry.key, prefix)) {
+        entry.controller?.abort()
+        entry.promise = undefined
+        setState(entry, { fetchStatus: "idle" })
+        scheduleGc(entry)
+      }
+    }
+  }
+
+  /**
+   * Marks every entry under `prefix` stale and refetches the ones that are
+   * currently observed.
+   */
+  function invalidateQueries(prefix: QueryKey = []) {
+    const refetches: Promise<unknown>[] = []
+    for (const entry of cache.values()) {
+      if (!matchesQueryKey(entry.key, prefix)) continue
+      setState(entry, { updatedAt: 0 })
+      if (entry.listeners.size > 0 && entry.queryFn) {
+        // Restart in-flight requests so they can't resolve with old data.
+        entry.controller?.abort()
+        entry.promise = undefined
+        refetches.push(
+          fetchQuery({ queryKey: entry.key, queryFn: entry.queryFn }).catch(
+            () => undefined
+          )
+        )
+      }
+    }
+    return Promise.all(refetches)
+  }
+
+  function refetchStaleObserved() {
+    for (const entry of cache.values()) {
+      if (entry.listeners.size > 0 && entry.queryFn && isStale(entry)) {
+        fetchQuery({ queryKey: entry.key, queryFn: entry.queryFn }).catch(
+          () => undefined
+        )
+      }
+    }
+  }
+
+  /** Starts window-focus refetching; returns a cleanup function. */
+  function mount() {
+    if (!refetchOnWindowFocus || typeof window === "undefined") {
+      return () => {}
+    }
+    const onFocus = () => {
+      if (document.visibilityState !== "hidden") refetchStaleObserved()
+    }
+    window.addEventListener("focus", onFocus)
+    document.addEventListener("visibilitychange", onFocus)
+    return () => {
+      window.removeEventListener("focus", onFocus)
+      document.removeEventListener("visibilitychange", onFocus)
+    }
+  }
+
+  function clear() {
+    cancelQueries()
+    for (const entry of cache.values()) clearTimeout(entry.gcTimer)
+    cache.clear()
+  }
+
+  return {
+    fetchQuery,
+    ensureQuery,
+    getQueryState,
+    getQueryData,
+    setQueryData,
+    subscribe,
+    isStale: (key: QueryKey) => {
+      const entry = cache.get(hashQueryKey(key))
+      return entry ? isStale(entry) : true
+    },
+    cancelQueries,
+    invalidateQueries,
+    mount,
+    clear,
+  }
+}
+
+export type QueryClient = ReturnType<typeof createQueryClient>
@@ -0,0 +1,29 @@
+import * as React from "react"
+
+import type { QueryClient } from "./query-client"
+
+const QueryClientContext = React.createContext<QueryClient | null>(null)
+
+export function QueryClientProvider({
+  client,
+  children,
+}: {
+  client: QueryClient
+  children: React.ReactNode
+}) {
+  React.useEffect(() => client.mount(), [client])
+
+  return (
+    <QueryClientContext.Provider value={client}>
+      {children}
+    </QueryClientContext.Provider>
+  )
+}
+
+export function useQueryClient() {
+  const client = React.useContext(QueryClientContext)
+  if (!client) {
+    throw new Error("useQueryClient must be used within a QueryClientProvider")
+  }
+  return client
+}
@@ -0,0 +1,53 @@
+import * as React from "react"
+
+import { Skeleton } from "../../components/ui/skeleton"
+import type { UseQueryResult } from "./use-query"
+
+interface QueryResultProps<T> {
+  query: UseQueryResult<T>
+  children: (data: T) => React.ReactNode
+  /** Rendered while there is no data yet. Defaults to a `Skeleton`. */
+  loading?: React.ReactNode
+  /** Classes for the default loading `Skeleton`. */
+  skeletonClassName?: string
+  error?: (error: Error, retry: () => void) => React.ReactNode
+  /** Rendered for a disabled query that has no data. Defaults to nothing. */
+  idle?: React.ReactNode
+}
+
+/** Renders a query's loading, error and success states. */
+export function QueryResult<T>({
+  query,
+  children,
+  loading,
+  skeletonClassName = "h-24 w-full",
+  error,
+  idle = null,
+}: QueryResultProps<T>) {
+  if (query.data !== undefined) return <>{children(query.data)}</>
+
+  if (query.isError && query.error) {
+    const retry = () => {
+      query.refetch()
+    }
+    return (
+      <>
+        {error ? (
+          error(query.error, retry)
+        ) : (
+          <p role="alert" className="text-sm text-destructive">
+            {query.error.message}
+          </p>
+        )}
+      </>
+    )
+  }
+
+  if (!query.isLoading) return <>{idle}</>
+
+  return (
+    <>
+      {loading ?? <Skeleton aria-busy="true" className={skeletonClassName} />}
+    </>
+  )
+}
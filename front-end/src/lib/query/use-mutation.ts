@@ -0,0 +1,134 @@
+import * as React from "react"
+
+import type { QueryKey } from "./query-client"
+import { useQueryClient } from "./query-provider"
+
+export interface OptimisticUpdate<TVariables, TCache = unknown> {
+  queryKey: QueryKey
+  /** Produces the cache value to show while the mutation is in flight. */
+  update: (previous: TCache | undefined, variables: TVariables) => TCache
+}
+
+export interface UseMutationOptions<TData, TVariables, TContext = unknown> {
+  mutationFn: (variables: TVariables) => Promise<TData>
+  /**
+   * Applied before `mutationFn` runs and rolled back automatically when it
+   * fails.
+   */
+  optimistic?: OptimisticUpdate<TVariables>
+  /** Query key prefixes invalidated once the mutation settles. */
+  invalidates?: QueryKey[]
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>
+  onSuccess?: (
+    data: TData,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void
+  onError?: (
+    error: Error,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void
+  onSettled?: (
+    data: TData | undefined,
+    error: Error | undefined,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void
+}
+
+export type MutationStatus = "idle" | "pending" | "success" | "error"
+
+interface MutationState<TData> {
+  status: MutationStatus
+  data: TData | undefined
+  error: Error | undefined
+}
+
+export function useMutation<TData, TVariables = void, TContext = unknown>(
+  options: UseMutationOptions<TData, TVariables, TContext>
+) {
+  const client = useQueryClient()
+  const [state, setState] = React.useState<MutationState<TData>>({
+    status: "idle",
+    data: undefined,
+    error: undefined,
+  })
+
+  const latest = React.useRef(options)
+  latest.current = options
+  const mounted = React.useRef(true)
+  React.useEffect(() => {
+    mounted.current = true
+    return () => {
+      mounted.current = false
+    }
+  }, [])
+
+  const mutateAsync = React.useCallback(
+    async (variables: TVariables) => {
+      const { mutationFn, optimistic, invalidates, ...callbacks } =
+        latest.current
+      const update = (next: MutationState<TData>) => {
+        if (mounted.current) setState(next)
+      }
+
+      update({ status: "pending", data: undefined, error: undefined })
+
+      let snapshot: unknown
+      if (optimistic) {
+        client.cancelQueries(optimistic.queryKey)
+        snapshot = client.getQueryData(optimistic.queryKey)
+        client.setQueryData(optimistic.queryKey, (previous: unknown) =>
+          optimistic.update(previous, variables)
+        )
+      }
+
+      let context: TContext | undefined
+      try {
+        context = await callbacks.onMutate?.(variables)
+        const data = await mutationFn(variables)
+        update({ status: "success", data, error: undefined })
+        callbacks.onSuccess?.(data, variables, context)
+        callbacks.onSettled?.(data, undefined, variables, context)
+        return data
+      } catch (cause) {
+        const error = cause instanceof Error ? cause : new Error(String(cause))
+        if (optimistic) client.setQueryData(optimistic.queryKey, snapshot)
+        update({ status: "error", data: undefined, error })
+        callbacks.onError?.(error, variables, context)
+        callbacks.onSettled?.(undefined, error, variables, context)
+        throw error
+      } finally {
+        const keys = [
+          ...(invalidates ?? []),
+          ...(optimistic ? [optimistic.queryKey] : []),
+        ]
+        keys.forEach((key) => client.invalidateQueries(key))
+      }
+    },
+    [client]
+  )
+
+  const mutate = React.useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => undefined)
+    },
+    [mutateAsync]
+  )
+
+  const reset = React.useCallback(
+    () => setState({ status: "idle", data: undefined, error: undefined }),
+    []
+  )
+
+  return {
+    ...state,
+    isPending: state.status === "pending",
+    isSuccess: state.status === "success",
+    isError: state.status === "error",
+    mutate,
+    mutateAsync,
+    reset,
+  }
+}
@@ -0,0 +1,71 @@
+import * as React from "react"
+import { describe, expect, it, vi } from "vitest"
+
+import { render, screen } from "../../test/render"
+import { createQueryClient } from "./query-client"
+import { QueryClientProvider } from "./query-provider"
+import { QueryResult } from "./query-result"
+import { useQuery } from "./use-query"
+
+function User({ id, enabled }: { id?: number; enabled?: boolean }) {
+  const query = useQuery({
+    queryKey: ["user", id],
+    queryFn: async () => `User ${id}`,
+    enabled,
+  })
+
+  return (
+    <QueryResult query={query} idle={<p>Pick a user</p>}>
+      {(name) => <p>{name}</p>}
+    </QueryResult>
+  )
+}
+
+function renderWithClient(ui: React.ReactNode) {
+  const client = createQueryClient({ refetchOnWindowFocus: false })
+  const result = render(
+    <QueryClientProvider client={client}>{ui}</QueryClientProvider>
+  )
+  return { client, ...result }
+}
+
+describe("useQuery", () => {
+  it("loads data and follows key changes", async () => {
+    const { rerender, client, container } = renderWithClient(<User id={1} />)
+    expect(container.querySelector("[aria-busy]")).toBeInTheDocument()
+    expect(await screen.findByText("User 1")).toBeInTheDocument()
+
+    rerender(
+      <QueryClientProvider client={client}>
+        <User id={2} />
+      </QueryClientProvider>
+    )
+
+    expect(await screen.findByText("User 2")).toBeInTheDocument()
+  })
+
+  it("renders the idle state for a disabled query", () => {
+    const { client, container } = renderWithClient(<User enabled={false} />)
+
+    expect(screen.getByText("Pick a user")).toBeInTheDocument()
+    expect(container.querySelector("[aria-busy]")).not.toBeInTheDocument()
+    expect(client.getQueryState(["user", undefined]).fetchStatus).toBe("idle")
+  })
+
+  it("shows errors with a retry", async () => {
+    const queryFn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("Offline"))
+      .mockResolvedValue("Back")
+    function Flaky() {
+      const query = useQuery({ queryKey: ["flaky"], queryFn })
+      return <QueryResult query={query}>{(text) => <p>{text}</p>}</QueryResult>
+    }
+    const { client } = renderWithClient(<Flaky />)
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Offline")
+    await client.invalidateQueries(["flaky"])
+
+    expect(await screen.findByText("Back")).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,74 @@
+import * as React from "react"
+
+import {
+  hashQueryKey,
+  type QueryOptions,
+  type QueryState,
+} from "./query-client"
+import { useQueryClient } from "./query-provider"
+
+export interface UseQueryOptions<T> extends QueryOptions<T> {
+  /** Set to false to skip fetching, e.g. while a dependency is missing. */
+  enabled?: boolean
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  /** No data yet and a request is running or about to start. */
+  isLoading: boolean
+  /** Any request is running, including background revalidation. */
+  isFetching: boolean
+  isError: boolean
+  isSuccess: boolean
+  refetch: () => Promise<T | undefined>
+}
+
+/**
+ * Subscribes to a cached query. Cached data is returned immediately and
+ * revalidated in the background once it is stale.
+ */
+export function useQuery<T>({
+  queryKey,
+  queryFn,
+  staleTime,
+  enabled = true,
+}: UseQueryOptions<T>): UseQueryResult<T> {
+  const client = useQueryClient()
+  const hash = hashQueryKey(queryKey)
+
+  // The key array and function are usually recreated every render; the hash
+  // is the identity that matters, so the key is only swapped when it changes.
+  const [key, setKey] = React.useState(() => queryKey)
+  if (hashQueryKey(key) !== hash) setKey(queryKey)
+
+  const latest = React.useRef({ queryKey, queryFn, staleTime })
+  latest.current = { queryKey, queryFn, staleTime }
+
+  const subscribe = React.useCallback(
+    (onChange: () => void) => client.subscribe(key, onChange),
+    [client, key]
+  )
+  const state = React.useSyncExternalStore(subscribe, () =>
+    client.getQueryState<T>(key)
+  )
+
+  React.useEffect(() => {
+    if (!enabled) return
+    client
+      .ensureQuery({ ...latest.current, queryKey: key })
+      .catch(() => undefined)
+  }, [client, key, enabled])
+
+  const refetch = React.useCallback(
+    () => client.fetchQuery(latest.current).catch(() => undefined),
+    [client]
+  )
+
+  return {
+    ...state,
+    isLoading: state.status === "pending" && enabled,
+    isFetching: state.fetchStatus === "fetching",
+    isError: state.status === "error",
+    isSuccess: state.status === "success",
+    refetch,
+  }
+}
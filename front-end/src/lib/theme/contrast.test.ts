@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+
+import { checkThemeContrast, contrastRatio, hslToRgb } from "./contrast"
+import { defaultTheme } from "./tokens"
+
+describe("contrastRatio", () => {
+  it("spans 1:1 to 21:1", () => {
+    expect(contrastRatio("0 0% 0%", "0 0% 100%")).toBeCloseTo(21)
+    expect(contrastRatio("0 0% 100%", "0 0% 0%")).toBeCloseTo(21)
+    expect(contrastRatio("210 40% 50%", "210 40% 50%")).toBe(1)
+  })
+
+  it("converts HSL triplets to RGB channels", () => {
+    expect(hslToRgb("0 100% 50%")).toEqual([1, 0, 0])
+    expect(hslToRgb("120 100% 25%")).toEqual([0, 0.5, 0])
+  })
+})
+
+describe("checkThemeContrast", () => {
+  it("checks every pair in both schemes", () => {
+    const results = checkThemeContrast(defaultTheme, [
+      { foreground: "foreground", background: "background" },
+      { foreground: "primary-foreground", background: "primary", large: true },
+    ])
+
+    expect(results.map((result) => [result.scheme, result.passes])).toEqual([
+      ["light", true],
+      ["light", true],
+      ["dark", true],
+      ["dark", true],
+    ])
+    expect(results[1].minimum).toBe(3)
+  })
+})
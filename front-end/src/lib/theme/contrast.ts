@@ -0,0 +1,90 @@
+import type { ColorScheme, HslTriplet, Theme, ThemeTokenName } from "./tokens"
+
+/** WCAG 2.1 AA minimums for body text and for large (18pt / 14pt bold) text. */
+export const MIN_CONTRAST = 4.5
+export const MIN_CONTRAST_LARGE = 3
+
+export function hslToRgb(triplet: HslTriplet): [number, number, number] {
+  const [h, s, l] = triplet.replace(/%/g, "").split(" ").map(Number)
+  const saturation = s / 100
+  const lightness = l / 100
+  const a = saturation * Math.min(lightness, 1 - lightness)
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12
+    return lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+  return [channel(0), channel(8), channel(4)]
+}
+
+export function relativeLuminance(triplet: HslTriplet) {
+  const [r, g, b] = hslToRgb(triplet).map((c) =>
+    c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  )
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/** Contrast ratio between two colors, from 1 (identical) to 21. */
+export function contrastRatio(foreground: HslTriplet, background: HslTriplet) {
+  const a = relativeLuminance(foreground)
+  const b = relativeLuminance(background)
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05)
+}
+
+export interface TokenPair {
+  foreground: ThemeTokenName
+  background: ThemeTokenName
+  /** Pairs only ever used for large or bold text get the 3:1 minimum. */
+  large?: boolean
+}
+
+/**
+ * The text-on-surface combinations the components in `components/ui`
+ * actually render. Keep this in step with the variants when adding one.
+ */
+export const tokenPairs: TokenPair[] = [
+  { foreground: "foreground", background: "background" },
+  { foreground: "card-foreground", background: "card" },
+  { foreground: "popover-foreground", background: "popover" },
+  { foreground: "primary-foreground", background: "primary" },
+  { foreground: "secondary-foreground", background: "secondary" },
+  { foreground: "muted-foreground", background: "muted" },
+  { foreground: "muted-foreground", background: "background" },
+  { foreground: "accent-foreground", background: "accent" },
+  { foreground: "destructive-foreground", background: "destructive" },
+  { foreground: "success-foreground", background: "success" },
+  { foreground: "warning-foreground", background: "warning" },
+  { foreground: "info-foreground", background: "info" },
+  { foreground: "primary", background: "background" },
+  { foreground: "destructive", background: "background" },
+]
+
+export interface ContrastResult extends TokenPair {
+  scheme: ColorScheme
+  ratio: number
+  minimum: number
+  passes: boolean
+}
+
+/** Checks every token pair in both palettes of a theme. */
+export function checkThemeContrast(
+  theme: Theme,
+  pairs: TokenPair[] = tokenPairs
+): ContrastResult[] {
+  return (["light", "dark"] as const).flatMap((scheme) =>
+    pairs.map((pair) => {
+      const palette = theme[scheme]
+      const ratio = contrastRatio(
+        palette[pair.foreground],
+        palette[pair.background]
+      )
+      const minimum = pair.large ? MIN_CONTRAST_LARGE : MIN_CONTRAST
+      return {
+        ...pair,
+        scheme,
+        ratio: Math.round(ratio * 100) / 100,
+        minimum,
+        passes: ratio >= minimum,
+      }
+    })
+  )
+}
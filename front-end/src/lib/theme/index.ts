@@ -0,0 +1,15 @@
+export * from "./tokens"
+export * from "./contrast"
+export {
+  THEME_STYLE_ID,
+  injectTheme,
+  paletteVariables,
+  themeToCss,
+} from "./inject"
+export {
+  THEME_STORAGE_KEY,
+  ThemeProvider,
+  applyColorScheme,
+  useTheme,
+  type ThemePreference,
+} from "./theme-provider"
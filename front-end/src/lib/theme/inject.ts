@@ -0,0 +1,72 @@
+import {
+  defaultTheme,
+  financialColorAliases,
+  themeTokenNames,
+  type FinancialColorName,
+  type Theme,
+  type ThemePalette,
+  type ThemeTokenName,
+} from "./tokens"
+
+export const THEME_STYLE_ID = "theme-tokens"
+
+function paletteDeclarations(palette: ThemePalette) {
+  return themeTokenNames.map((name) => `  --${name}: ${palette[name]};`)
+}
+
+function legacyDeclarations() {
+  return (Object.keys(financialColorAliases) as FinancialColorName[]).map(
+    (name) => `  --${name}: hsl(var(--${financialColorAliases[name]}));`
+  )
+}
+
+/**
+ * A palette as inline custom properties, for scoping a color scheme to one
+ * subtree (e.g. a preview) instead of the whole document.
+ */
+export function paletteVariables(palette: ThemePalette) {
+  return Object.fromEntries(
+    themeTokenNames.map((name) => [`--${name}`, palette[name]])
+  ) as Record<`--${ThemeTokenName}`, string>
+}
+
+/**
+ * Serializes a theme into the `:root` / `.dark` blocks expected by
+ * tailwind.config.js. The legacy financial variables are re-declared as
+ * aliases so they follow the active palette.
+ */
+export function themeToCss(theme: Theme = defaultTheme) {
+  return [
+    ":root {",
+    `  --radius: ${theme.radius};`,
+    ...paletteDeclarations(theme.light),
+    ...legacyDeclarations(),
+    "}",
+    "",
+    ".dark {",
+    ...paletteDeclarations(theme.dark),
+    "}",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Writes the theme into a single `<style>` element in the document head,
+ * replacing any earlier injection. Returns a function that removes it.
+ */
+export function injectTheme(
+  theme: Theme = defaultTheme,
+  doc: Document = document
+) {
+  let style = doc.getElementById(THEME_STYLE_ID) as HTMLStyleElement | null
+  if (!style) {
+    style = doc.createElement("style")
+    style.id = THEME_STYLE_ID
+    doc.head.appendChild(style)
+  }
+  style.textContent = themeToCss(theme)
+
+  return () => {
+    style?.remove()
+  }
+}
@@ -0,0 +1,130 @@
+import * as React from "react"
+
+import type { ColorScheme } from "./tokens"
+
+export type ThemePreference = ColorScheme | "system"
+
+/** Must match the key read by the inline script in index.html. */
+export const THEME_STORAGE_KEY = "ui-theme"
+
+const DARK_QUERY = "(prefers-color-scheme: dark)"
+
+interface ThemeProviderState {
+  /** What the user picked. */
+  theme: ThemePreference
+  /** What is actually applied to the document. */
+  resolvedTheme: ColorScheme
+  setTheme: (theme: ThemePreference) => void
+}
+
+const ThemeProviderContext = React.createContext<ThemeProviderState | null>(
+  null
+)
+
+function isThemePreference(value: unknown): value is ThemePreference {
+  return value === "light" || value === "dark" || value === "system"
+}
+
+function readStoredTheme(storageKey: string, fallback: ThemePreference) {
+  try {
+    const stored = window.localStorage.getItem(storageKey)
+    return isThemePreference(stored) ? stored : fallback
+  } catch {
+    return fallback
+  }
+}
+
+function getSystemScheme(): ColorScheme {
+  if (typeof window === "undefined" || !window.matchMedia) return "light"
+  return window.matchMedia(DARK_QUERY).matches ? "dark" : "light"
+}
+
+function useSystemScheme() {
+  return React.useSyncExternalStore(
+    (onChange) => {
+      if (!window.matchMedia) return () => {}
+      const query = window.matchMedia(DARK_QUERY)
+      query.addEventListener("change", onChange)
+      return () => query.removeEventListener("change", onChange)
+    },
+    getSystemScheme,
+    () => "light" as const
+  )
+}
+
+export function applyColorScheme(
+  scheme: ColorScheme,
+  root: HTMLElement = document.documentElement
+) {
+  root.classList.remove("light", "dark")
+  root.classList.add(scheme)
+  root.style.colorScheme = scheme
+}
+
+interface ThemeProviderProps {
+  children: React.ReactNode
+  defaultTheme?: ThemePreference
+  storageKey?: string
+}
+
+export function ThemeProvider({
+  children,
+  defaultTheme = "system",
+  storageKey = THEME_STORAGE_KEY,
+}: ThemeProviderProps) {
+  const [theme, setThemeState] = React.useState<ThemePreference>(() =>
+    typeof window === "undefined"
+      ? defaultTheme
+      : readStoredTheme(storageKey, defaultTheme)
+  )
+  const systemScheme = useSystemScheme()
+  const resolvedTheme = theme === "system" ? systemScheme : theme
+
+  // Layout effect so the class lands before paint when the preference changes.
+  React.useLayoutEffect(() => {
+    applyColorScheme(resolvedTheme)
+  }, [resolvedTheme])
+
+  // Keep other tabs in sync.
+  React.useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey) return
+      setThemeState(
+        isThemePreference(event.newValue) ? event.newValue : defaultTheme
+      )
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [storageKey, defaultTheme])
+
+  const setTheme = React.useCallback(
+    (next: ThemePreference) => {
+      try {
+        window.localStorage.setItem(storageKey, next)
+      } catch {
+        // Storage can be unavailable (private mode); keep the in-memory value.
+      }
+      setThemeState(next)
+    },
+    [storageKey]
+  )
+
+  const value = React.useMemo(
+    () => ({ theme, resolvedTheme, setTheme }),
+    [theme, resolvedTheme, setTheme]
+  )
+
+  return (
+    <ThemeProviderContext.Provider value={value}>
+      {children}
+    </ThemeProviderContext.Provider>
+  )
+}
+
+export function useTheme() {
+  const context = React.useContext(ThemeProviderContext)
+  if (!context) {
+    throw new Error("useTheme must be used within a ThemeProvider")
+  }
+  return context
+}
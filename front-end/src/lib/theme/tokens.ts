@@ -0,0 +1,197 @@
+// Design tokens consumed by tailwind.config.js through `hsl(var(--token))`.
+// Values are bare HSL triplets so Tailwind can apply opacity modifiers
+// (`bg-primary/90`).
+
+export type HslTriplet = `${number} ${number}% ${number}%`
+
+export const themeTokenNames = [
+  "background",
+  "foreground",
+  "card",
+  "card-foreground",
+  "popover",
+  "popover-foreground",
+  "primary",
+  "primary-foreground",
+  "secondary",
+  "secondary-foreground",
+  "muted",
+  "muted-foreground",
+  "accent",
+  "accent-foreground",
+  "destructive",
+  "destructive-foreground",
+  "success",
+  "success-foreground",
+  "warning",
+  "warning-foreground",
+  "info",
+  "info-foreground",
+  "border",
+  "input",
+  "ring",
+  "chart-1",
+  "chart-2",
+  "chart-3",
+  "chart-4",
+  "chart-5",
+] as const
+
+export type ThemeTokenName = (typeof themeTokenNames)[number]
+
+export type ThemePalette = Record<ThemeTokenName, HslTriplet>
+
+export type ColorScheme = "light" | "dark"
+
+export interface Theme {
+  radius: string
+  light: ThemePalette
+  dark: ThemePalette
+}
+
+/**
+ * The original financial dashboard colors from index.css. They seed the
+ * palettes below and stay available as `var(--primary-blue)` etc.
+ */
+export const financialColors = {
+  "primary-blue": "#3b82f6",
+  "success-green": "#22c55e",
+  "error-red": "#ef4444",
+  "text-dark": "#1f2937",
+  "background-light": "#f3f4f6",
+} as const
+
+export type FinancialColorName = keyof typeof financialColors
+
+/** Which token each legacy financial variable now resolves to. */
+export const financialColorAliases: Record<FinancialColorName, ThemeTokenName> =
+  {
+    "primary-blue": "primary",
+    "success-green": "success",
+    "error-red": "destructive",
+    "text-dark": "foreground",
+    "background-light": "muted",
+  }
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+export function hexToHsl(hex: string): HslTriplet {
+  const normalized = hex.replace("#", "")
+  const full =
+    normalized.length === 3
+      ? normalized
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : normalized
+  if (!/^[0-9a-f]{6}$/i.test(full)) {
+    throw new Error(`Invalid hex color: ${hex}`)
+  }
+
+  const r = parseInt(full.slice(0, 2), 16) / 255
+  const g = parseInt(full.slice(2, 4), 16) / 255
+  const b = parseInt(full.slice(4, 6), 16) / 255
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  let h = 0
+  let s = 0
+
+  if (max !== min) {
+    const d = max - min
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+    switch (max) {
+      case r:
+        h = (g - b) / d + (g < b ? 6 : 0)
+        break
+      case g:
+        h = (b - r) / d + 2
+        break
+      default:
+        h = (r - g) / d + 4
+    }
+    h *= 60
+  }
+
+  return `${round(h)} ${round(s * 100)}% ${round(l * 100)}%`
+}
+
+const primary = hexToHsl(financialColors["primary-blue"])
+const successGreen = hexToHsl(financialColors["success-green"])
+// Brand green darkened so white text on it passes AA (4.85:1, was 2.28:1).
+const success: HslTriplet = "142.1 70.6% 30%"
+const destructive = hexToHsl(financialColors["error-red"])
+const textDark = hexToHsl(financialColors["text-dark"])
+const backgroundLight = hexToHsl(financialColors["background-light"])
+
+export const lightPalette: ThemePalette = {
+  background: "0 0% 100%",
+  foreground: textDark,
+  card: "0 0% 100%",
+  "card-foreground": textDark,
+  popover: "0 0% 100%",
+  "popover-foreground": textDark,
+  primary,
+  "primary-foreground": "0 0% 100%",
+  secondary: backgroundLight,
+  "secondary-foreground": textDark,
+  muted: backgroundLight,
+  "muted-foreground": "220 8.9% 43%",
+  accent: backgroundLight,
+  "accent-foreground": textDark,
+  destructive,
+  "destructive-foreground": "0 0% 100%",
+  success,
+  "success-foreground": "0 0% 100%",
+  warning: "37.7 92.1% 50.2%",
+  "warning-foreground": textDark,
+  info: "198.6 88.7% 36%",
+  "info-foreground": "0 0% 100%",
+  border: "220 13% 91%",
+  input: "220 13% 91%",
+  ring: primary,
+  "chart-1": primary,
+  "chart-2": successGreen,
+  "chart-3": "37.7 92.1% 50.2%",
+  "chart-4": "262.1 83.3% 57.8%",
+  "chart-5": destructive,
+}
+
+export const darkPalette: ThemePalette = {
+  background: "222.2 47.4% 8%",
+  foreground: "210 40% 98%",
+  card: "222.2 47.4% 10%",
+  "card-foreground": "210 40% 98%",
+  popover: "222.2 47.4% 10%",
+  "popover-foreground": "210 40% 98%",
+  primary: "217.2 91.2% 65%",
+  "primary-foreground": "222.2 47.4% 11.2%",
+  secondary: "217.2 32.6% 17.5%",
+  "secondary-foreground": "210 40% 98%",
+  muted: "217.2 32.6% 17.5%",
+  "muted-foreground": "215 20.2% 65.1%",
+  accent: "217.2 32.6% 17.5%",
+  "accent-foreground": "210 40% 98%",
+  destructive: "0 72.2% 62%",
+  "destructive-foreground": "222.2 47.4% 11.2%",
+  success: "142.1 70.6% 45.3%",
+  "success-foreground": "144.9 80.4% 10%",
+  warning: "43.3 96.4% 56.3%",
+  "warning-foreground": "26 83.3% 14.1%",
+  info: "198.4 93.2% 59.6%",
+  "info-foreground": "204 80.2% 15.9%",
+  border: "217.2 32.6% 17.5%",
+  input: "217.2 32.6% 17.5%",
+  ring: "224.3 76.3% 48%",
+  "chart-1": "217.2 91.2% 65%",
+  "chart-2": "142.1 70.6% 45.3%",
+  "chart-3": "43.3 96.4% 56.3%",
+  "chart-4": "263.4 70% 65%",
+  "chart-5": "0 72.2% 60%",
+}
+
+export const defaultTheme: Theme = {
+  radius: "0.5rem",
+  light: lightPalette,
+  dark: darkPalette,
+}
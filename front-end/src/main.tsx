@@ -2,9 +2,25 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { ShortcutProvider } from './components/shortcuts'
+import { I18nProvider } from './lib/i18n'
+import { QueryClientProvider, createQueryClient } from './lib/query'
+import { ThemeProvider, injectTheme } from './lib/theme'
+
+injectTheme()
+
+const queryClient = createQueryClient({ staleTime: 30_000 })
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <QueryClientProvider client={queryClient}>
+      <ThemeProvider>
+        <I18nProvider>
+          <ShortcutProvider>
+            <App />
+          </ShortcutProvider>
+        </I18nProvider>
+      </ThemeProvider>
+    </QueryClientProvider>
   </StrictMode>,
 )
@@ -0,0 +1,18 @@
+import * as React from "react"
+
+import {
+  DashboardDataSourceProvider,
+  DashboardPage,
+  getDefaultDashboardDataSource,
+} from "../features/dashboard"
+
+export function Component() {
+  const [source] = React.useState(getDefaultDashboardDataSource)
+
+  return (
+    <DashboardDataSourceProvider source={source}>
+      <DashboardPage />
+    </DashboardDataSourceProvider>
+  )
+}
+Component.displayName = "DashboardRoute"
@@ -0,0 +1,19 @@
+import { useOutletContext } from "react-router-dom"
+
+import { useRouteParams, type paths } from "../app/paths"
+import {
+  ComponentView,
+  findGalleryEntry,
+  type PreviewSettings,
+} from "../features/gallery"
+import { NotFound } from "./not-found"
+
+export function Component() {
+  const { component } = useRouteParams<typeof paths.galleryComponent>()
+  const preview = useOutletContext<PreviewSettings>()
+  const entry = findGalleryEntry(component)
+
+  if (!entry) return <NotFound />
+  return <ComponentView entry={entry} preview={preview} />
+}
+Component.displayName = "GalleryComponentRoute"
@@ -0,0 +1,52 @@
+import { Link } from "react-router-dom"
+
+import { href, paths } from "../app/paths"
+import { Badge } from "../components/ui/badge"
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card"
+import { galleryEntries } from "../features/gallery"
+
+export function Component() {
+  const withStories = galleryEntries.filter((entry) => entry.story).length
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Gallery</h1>
+        <p className="text-muted-foreground">
+          {galleryEntries.length} components in src/components/ui, {withStories}{" "}
+          with a playground.
+        </p>
+      </div>
+      <ul className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {galleryEntries.map((entry) => (
+          <li key={entry.slug}>
+            <Link
+              to={href(paths.galleryComponent, { component: entry.slug })}
+              className="block rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <Card className="h-full transition-colors hover:bg-accent/50">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">{entry.name}</CardTitle>
+                    {entry.story?.matrix && (
+                      <Badge variant="secondary">Variants</Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    {entry.story?.description ?? "No story yet."}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+Component.displayName = "GalleryIndexRoute"
@@ -0,0 +1,92 @@
+import * as React from "react"
+import { NavLink, Outlet } from "react-router-dom"
+
+import { href, paths } from "../app/paths"
+import { cn } from "../components/lib/utils"
+import { Input } from "../components/ui/input"
+import { ScrollArea } from "../components/ui/scroll-area"
+import {
+  galleryEntries,
+  PreviewToolbar,
+  type PreviewSettings,
+} from "../features/gallery"
+import { useTheme } from "../lib/theme"
+
+/**
+ * Layout for /gallery: the component list on the side, and the preview
+ * settings shared by every page below it through the outlet context.
+ */
+export function Component() {
+  const { resolvedTheme } = useTheme()
+  const [preview, setPreview] = React.useState<PreviewSettings>({
+    scheme: resolvedTheme,
+    dir: "ltr",
+  })
+  const [filter, setFilter] = React.useState("")
+  const query = filter.trim().toLowerCase()
+  const entries = galleryEntries.filter((entry) =>
+    entry.name.toLowerCase().includes(query)
+  )
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[13rem_1fr]">
+      <aside className="space-y-3">
+        <Input
+          type="search"
+          placeholder="Filter components…"
+          aria-label="Filter components"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+        <ScrollArea className="h-48 md:h-[calc(100vh-14rem)]">
+          <nav aria-label="Components">
+            <ul className="space-y-0.5 pe-3">
+              {entries.map((entry) => (
+                <li key={entry.slug}>
+                  <NavLink
+                    to={href(paths.galleryComponent, { component: entry.slug })}
+                    className={({ isActive }) =>
+                      cn(
+                        "flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground",
+                        isActive &&
+                          "bg-accent font-medium text-accent-foreground"
+                      )
+                    }
+                  >
+                    {entry.name}
+                    {entry.story && (
+                      <span
+                        className="h-1.5 w-1.5 rounded-full bg-primary"
+                        title="Has a playground"
+                      />
+                    )}
+                  </NavLink>
+                </li>
+              ))}
+            </ul>
+            {entries.length === 0 && (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">
+                No components match.
+              </p>
+            )}
+          </nav>
+        </ScrollArea>
+      </aside>
+      <div className="min-w-0 space-y-4">
+        <div className="flex justify-end">
+          <PreviewToolbar
+            {...preview}
+            onSchemeChange={(scheme) =>
+              setPreview((current) => ({ ...current, scheme }))
+            }
+            onDirChange={(dir) =>
+              setPreview((current) => ({ ...current, dir }))
+            }
+          />
+        </div>
+        <Outlet context={preview} />
+      </div>
+    </div>
+  )
+}
+Component.displayName = "GalleryLayout"
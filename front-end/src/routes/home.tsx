@@ -0,0 +1,10 @@
+import MessageCard from "../Jefferey"
+
+export function Component() {
+  return (
+    <div className="flex justify-center">
+      <MessageCard />
+    </div>
+  )
+}
+Component.displayName = "HomeRoute"
@@ -0,0 +1,19 @@
+import { Link } from "react-router-dom"
+
+import { paths } from "../app/paths"
+import { Button } from "../components/ui/button"
+
+export function NotFound() {
+  return (
+    <div className="flex flex-col items-center gap-4 py-24 text-center">
+      <p className="text-sm font-medium text-muted-foreground">404</p>
+      <h1 className="text-2xl font-semibold tracking-tight">Page not found</h1>
+      <p className="text-muted-foreground">
+        The page you are looking for does not exist or has moved.
+      </p>
+      <Button asChild>
+        <Link to={paths.home}>Back home</Link>
+      </Button>
+    </div>
+  )
+}
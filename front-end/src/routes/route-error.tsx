@@ -0,0 +1,36 @@
+import { isRouteErrorResponse, Link, useRouteError } from "react-router-dom"
+
+import { paths } from "../app/paths"
+import { Alert, AlertDescription, AlertTitle } from "../components/ui/alert"
+import { Button } from "../components/ui/button"
+import { NotFound } from "./not-found"
+
+/** Error boundary for the route tree, including failed lazy imports. */
+export function RouteError() {
+  const error = useRouteError()
+
+  if (isRouteErrorResponse(error) && error.status === 404) {
+    return <NotFound />
+  }
+
+  const message = isRouteErrorResponse(error)
+    ? `${error.status} ${error.statusText}`
+    : error instanceof Error
+      ? error.message
+      : "Unknown error"
+
+  return (
+    <div className="container max-w-xl space-y-4 py-24">
+      <Alert variant="destructive">
+        <AlertTitle>Something went wrong</AlertTitle>
+        <AlertDescription>{message}</AlertDescription>
+      </Alert>
+      <div className="flex gap-2">
+        <Button onClick={() => window.location.reload()}>Reload</Button>
+        <Button variant="outline" asChild>
+          <Link to={paths.home}>Back home</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
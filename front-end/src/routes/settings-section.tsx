@@ -0,0 +1,26 @@
+import { isSettingsSection, useRouteParams, type paths } from "../app/paths"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card"
+import { ProfileForm } from "../features/settings/profile-form"
+import { NotFound } from "./not-found"
+
+export function Component() {
+  const { section = "profile" } = useRouteParams<typeof paths.settingsSection>()
+
+  if (!isSettingsSection(section)) return <NotFound />
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="capitalize">{section}</CardTitle>
+        <CardDescription>Manage your {section} settings.</CardDescription>
+      </CardHeader>
+      <CardContent>{section === "profile" && <ProfileForm />}</CardContent>
+    </Card>
+  )
+}
+Component.displayName = "SettingsSectionRoute"
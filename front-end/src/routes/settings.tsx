@@ -0,0 +1,30 @@
+import { Outlet } from "react-router-dom"
+
+import { href, paths, settingsSections } from "../app/paths"
+import { RouteTabs } from "../app/route-tabs"
+import { TabsList, TabsTrigger } from "../components/ui/tabs"
+
+/** Layout for /settings; the active tab comes from the `:section` param. */
+export function Component() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold tracking-tight">Settings</h1>
+      <RouteTabs
+        param="section"
+        fallback="profile"
+        tabs={settingsSections}
+        to={(section) => href(paths.settingsSection, { section })}
+      >
+        <TabsList>
+          {settingsSections.map((section) => (
+            <TabsTrigger key={section} value={section} className="capitalize">
+              {section}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </RouteTabs>
+      <Outlet />
+    </div>
+  )
+}
+Component.displayName = "SettingsLayout"
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+
+import { defaultTheme } from "../../lib/theme"
+import { setup } from "../render"
+import {
+  checkContrast,
+  checkFocusOrder,
+  checkRules,
+  findKnownIssue,
+  triageResult,
+  type A11yAuditResult,
+  type KnownIssue,
+} from "./audit"
+import { auditFixtures } from "./fixtures"
+import { knownIssues } from "./known-issues"
+
+function regressions(result: ReturnType<typeof triageResult>) {
+  return result.violations.filter((violation) => !violation.known)
+}
+
+const usedIssues = new Set<KnownIssue>()
+
+function triage(result: A11yAuditResult) {
+  for (const violation of result.violations) {
+    const issue = findKnownIssue(result, violation, knownIssues)
+    if (issue) usedIssues.add(issue)
+  }
+  return triageResult(result, knownIssues)
+}
+
+describe("accessibility audit", () => {
+  it.for(auditFixtures)(
+    "$component ($variant)",
+    async ({ component, variant, render, open }, { task }) => {
+      const { user } = setup(render())
+      await open?.(user)
+      const violations = [
+        ...(await checkRules()),
+        ...(await checkFocusOrder(user)),
+      ]
+
+      const result = triage({ component, variant, violations })
+      task.meta.a11y = result
+
+      expect(regressions(result)).toEqual([])
+    }
+  )
+
+  it.for(checkContrast(defaultTheme))(
+    "theme contrast ($variant)",
+    (contrast, { task }) => {
+      const result = triage(contrast)
+      task.meta.a11y = result
+
+      expect(regressions(result)).toEqual([])
+    }
+  )
+
+  // Runs last, after every audit above has marked the issues it hit.
+  it("has no stale known issues", () => {
+    const unused = knownIssues.filter((issue) => !usedIssues.has(issue))
+
+    expect(unused).toEqual([])
+  })
+})
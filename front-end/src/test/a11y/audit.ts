@@ -0,0 +1,230 @@
+import axe from "axe-core"
+import type { UserEvent } from "@testing-library/user-event"
+
+import {
+  checkThemeContrast,
+  type ColorScheme,
+  type Theme,
+} from "../../lib/theme"
+
+export type A11yImpact = "minor" | "moderate" | "serious" | "critical"
+
+export interface A11yViolation {
+  rule: string
+  impact: A11yImpact | null
+  target: string
+  message: string
+}
+
+export interface A11yAuditResult {
+  component: string
+  variant: string
+  violations: A11yViolation[]
+}
+
+/**
+ * jsdom has no layout or computed colors, so axe's own contrast rule can't
+ * see anything; contrast is checked against the theme tokens instead.
+ */
+const axeOptions: axe.RunOptions = {
+  runOnly: {
+    type: "tag",
+    values: ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa", "wcag22aa"],
+  },
+  rules: { "color-contrast": { enabled: false } },
+  resultTypes: ["violations"],
+}
+
+/** Runs the WCAG A/AA axe rules over everything mounted in the document. */
+export async function checkRules(
+  root: Element = document.body
+): Promise<A11yViolation[]> {
+  const { violations } = await axe.run(root, axeOptions)
+  return violations.flatMap((violation) =>
+    violation.nodes.map((node) => ({
+      rule: violation.id,
+      impact: (node.impact ?? violation.impact ?? null) as A11yImpact | null,
+      target: node.target.join(" "),
+      message: node.failureSummary ?? violation.help,
+    }))
+  )
+}
+
+const MAX_TAB_STOPS = 50
+
+const TABBABLE =
+  "a[href], button, input, select, textarea, summary, [tabindex], [contenteditable='true']"
+
+function describeElement(element: Element) {
+  const name =
+    element.getAttribute("aria-label") ??
+    element.textContent?.trim().slice(0, 40) ??
+    ""
+  const role = element.getAttribute("role")
+  return `${element.tagName.toLowerCase()}${role ? `[role=${role}]` : ""}${
+    name ? ` "${name}"` : ""
+  }`
+}
+
+function isTabbable(element: HTMLElement) {
+  return (
+    element.tabIndex >= 0 &&
+    !element.matches(
+      ":disabled, input[type=hidden], [data-radix-focus-guard]"
+    ) &&
+    !element.closest("[hidden], [aria-hidden='true'], [inert]")
+  )
+}
+
+/** Roving-focus containers are tabbable but hand focus to an item. */
+function delegatesFocus(element: HTMLElement) {
+  element.focus()
+  return document.activeElement !== element
+}
+
+/**
+ * Walks the page with Tab, starting from whatever has focus after mount
+ * (overlays move it in themselves) and wrapping around the document until a
+ * stop repeats. Flags stops that jump backwards in document order, usually a
+ * positive tabindex or a portal rendered in the wrong place, and tabbable
+ * elements Tab never reaches.
+ */
+export async function checkFocusOrder(
+  user: UserEvent,
+  root: Element = document.body
+): Promise<A11yViolation[]> {
+  const violations: A11yViolation[] = []
+  const stops: Element[] = []
+  let previous: Element | null = null
+  if (document.activeElement && document.activeElement !== document.body) {
+    previous = document.activeElement
+    stops.push(previous)
+  }
+
+  for (let i = 0; i < MAX_TAB_STOPS; i++) {
+    await user.tab()
+    const active = document.activeElement
+    if (!active || active === document.body) {
+      if (previous === null) break
+      previous = null
+      continue
+    }
+    if (stops.includes(active)) break
+
+    if (
+      previous &&
+      active.compareDocumentPosition(previous) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+    ) {
+      violations.push({
+        rule: "focus-order",
+        impact: "serious",
+        target: describeElement(active),
+        message: `Tab moves backwards from ${describeElement(previous)} to ${describeElement(active)}`,
+      })
+    }
+    stops.push(active)
+    previous = active
+  }
+
+  // While an overlay keeps Tab cycling inside itself, the page behind it
+  // is out of reach on purpose.
+  const overlay = stops[0]?.closest("[role=dialog], [role=alertdialog]")
+  const scope =
+    overlay && stops.every((stop) => overlay.contains(stop)) ? overlay : root
+
+  scope.querySelectorAll<HTMLElement>(TABBABLE).forEach((element) => {
+    if (
+      isTabbable(element) &&
+      !stops.includes(element) &&
+      !delegatesFocus(element)
+    ) {
+      violations.push({
+        rule: "focus-reachable",
+        impact: "serious",
+        target: describeElement(element),
+        message: "Element is tabbable but Tab never reaches it",
+      })
+    }
+  })
+
+  return violations
+}
+
+/** Turns failing token pairs into violations, one audit result per scheme. */
+export function checkContrast(theme: Theme): A11yAuditResult[] {
+  const results = checkThemeContrast(theme)
+  return (["light", "dark"] as const).map((scheme) => ({
+    component: "theme",
+    variant: scheme,
+    violations: results
+      .filter((result) => result.scheme === scheme && !result.passes)
+      .map((result) => ({
+        rule: "color-contrast",
+        impact: "serious" as const,
+        target: `${result.foreground} on ${result.background}`,
+        message: `Contrast ${result.ratio}:1 is below ${result.minimum}:1`,
+      })),
+  }))
+}
+
+export interface KnownIssue {
+  component: string
+  /** Omit to accept the issue in every variant of the component. */
+  variant?: string
+  rule: string
+  /** Omit to accept the rule anywhere in the matching variants. */
+  target?: string
+  reason: string
+}
+
+/** Theme contrast failures differ per scheme, so each names its own. */
+export interface KnownContrastIssue extends KnownIssue {
+  component: "theme"
+  variant: ColorScheme
+  rule: "color-contrast"
+  target: string
+}
+
+export interface ReportedViolation extends A11yViolation {
+  known: boolean
+}
+
+export interface ReportedAuditResult extends A11yAuditResult {
+  violations: ReportedViolation[]
+}
+
+/** The baseline entry that accepts `violation`, if any. */
+export function findKnownIssue(
+  result: A11yAuditResult,
+  violation: A11yViolation,
+  knownIssues: KnownIssue[]
+) {
+  return knownIssues.find(
+    (issue) =>
+      issue.component === result.component &&
+      (issue.variant === undefined || issue.variant === result.variant) &&
+      issue.rule === violation.rule &&
+      (issue.target === undefined || issue.target === violation.target)
+  )
+}
+
+/** Marks each violation as known or new against the accepted baseline. */
+export function triageResult(
+  result: A11yAuditResult,
+  knownIssues: KnownIssue[]
+): ReportedAuditResult {
+  return {
+    ...result,
+    violations: result.violations.map((violation) => ({
+      ...violation,
+      known: findKnownIssue(result, violation, knownIssues) !== undefined,
+    })),
+  }
+}
+
+declare module "vitest" {
+  interface TaskMeta {
+    a11y?: ReportedAuditResult
+  }
+}
@@ -0,0 +1,703 @@
+import * as React from "react"
+import type { UserEvent } from "@testing-library/user-event"
+import type { VariantProps } from "class-variance-authority"
+import { Bell } from "lucide-react"
+
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "../../components/ui/accordion"
+import { Alert, AlertDescription, AlertTitle } from "../../components/ui/alert"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../../components/ui/alert-dialog"
+import { Avatar, AvatarFallback } from "../../components/ui/avatar"
+import { Badge, type BadgeProps } from "../../components/ui/badge"
+import {
+  Breadcrumb,
+  BreadcrumbEllipsis,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "../../components/ui/breadcrumb"
+import { Button, type ButtonProps } from "../../components/ui/button"
+import { Calendar } from "../../components/ui/calendar"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../components/ui/card"
+import { Checkbox } from "../../components/ui/checkbox"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "../../components/ui/collapsible"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "../../components/ui/command"
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "../../components/ui/context-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../../components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../../components/ui/dropdown-menu"
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "../../components/ui/hover-card"
+import { Input } from "../../components/ui/input"
+import { Label } from "../../components/ui/label"
+import {
+  Menubar,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarSeparator,
+  MenubarTrigger,
+} from "../../components/ui/menubar"
+import {
+  NavigationMenu,
+  NavigationMenuContent,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  NavigationMenuTrigger,
+} from "../../components/ui/navigation-menu"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "../../components/ui/popover"
+import { Progress } from "../../components/ui/progress"
+import { RadioGroup, RadioGroupItem } from "../../components/ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../components/ui/select"
+import { Separator } from "../../components/ui/separator"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "../../components/ui/sheet"
+import { Skeleton } from "../../components/ui/skeleton"
+import { Slider } from "../../components/ui/slider"
+import { Switch } from "../../components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table"
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "../../components/ui/tabs"
+import { Textarea } from "../../components/ui/textarea"
+import {
+  Toast,
+  ToastAction,
+  ToastClose,
+  ToastDescription,
+  ToastProvider,
+  ToastTitle,
+  ToastViewport,
+  type ToastProps,
+} from "../../components/ui/toast"
+import { Toggle, type toggleVariants } from "../../components/ui/toggle"
+import { ToggleGroup, ToggleGroupItem } from "../../components/ui/toggle-group"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "../../components/ui/tooltip"
+import { screen } from "../render"
+
+export interface AuditFixture {
+  component: string
+  variant: string
+  render: () => React.ReactElement
+  /** Reaches the audited state when props can't, e.g. a right-click. */
+  open?: (user: UserEvent) => Promise<void>
+}
+
+type VariantName<T extends { variant?: unknown }> = NonNullable<T["variant"]>
+
+const buttonVariants: VariantName<ButtonProps>[] = [
+  "default",
+  "destructive",
+  "outline",
+  "secondary",
+  "ghost",
+  "link",
+]
+const badgeVariants: VariantName<BadgeProps>[] = [
+  "default",
+  "secondary",
+  "destructive",
+  "outline",
+]
+const alertVariants = ["default", "destructive"] as const
+const toastVariants: VariantName<ToastProps>[] = [
+  "default",
+  "destructive",
+  "success",
+  "warning",
+  "info",
+]
+const toggleVariantNames: VariantName<VariantProps<typeof toggleVariants>>[] = [
+  "default",
+  "outline",
+]
+
+const day = new Date(2024, 4, 15)
+
+/**
+ * One entry per component variant, rendered in the state where its a11y
+ * wiring matters: overlays open, fields labelled the way callers label them.
+ */
+export const auditFixtures: AuditFixture[] = [
+  ...buttonVariants.map((variant) => ({
+    component: "Button",
+    variant,
+    render: () => <Button variant={variant}>Save</Button>,
+  })),
+  {
+    component: "Button",
+    variant: "icon",
+    render: () => (
+      <Button variant="ghost" aria-label="Notifications">
+        <Bell className="h-4 w-4" />
+      </Button>
+    ),
+  },
+  ...badgeVariants.map((variant) => ({
+    component: "Badge",
+    variant,
+    render: () => <Badge variant={variant}>Active</Badge>,
+  })),
+  ...alertVariants.map((variant) => ({
+    component: "Alert",
+    variant,
+    render: () => (
+      <Alert variant={variant}>
+        <Bell className="h-4 w-4" />
+        <AlertTitle>Heads up</AlertTitle>
+        <AlertDescription>Your session expires soon.</AlertDescription>
+      </Alert>
+    ),
+  })),
+  ...toastVariants.map((variant) => ({
+    component: "Toast",
+    variant,
+    render: () => (
+      <ToastProvider>
+        <Toast variant={variant} open>
+          <div className="grid gap-1">
+            <ToastTitle>Payment sent</ToastTitle>
+            <ToastDescription>We emailed you a receipt.</ToastDescription>
+          </div>
+          <ToastAction altText="Undo the payment">Undo</ToastAction>
+          <ToastClose />
+        </Toast>
+        <ToastViewport />
+      </ToastProvider>
+    ),
+  })),
+  ...toggleVariantNames.map((variant) => ({
+    component: "Toggle",
+    variant,
+    render: () => (
+      <Toggle variant={variant} aria-label="Bold">
+        B
+      </Toggle>
+    ),
+  })),
+  {
+    component: "ToggleGroup",
+    variant: "single",
+    render: () => (
+      <ToggleGroup type="single" defaultValue="left" aria-label="Alignment">
+        <ToggleGroupItem value="left">Left</ToggleGroupItem>
+        <ToggleGroupItem value="center">Center</ToggleGroupItem>
+        <ToggleGroupItem value="right">Right</ToggleGroupItem>
+      </ToggleGroup>
+    ),
+  },
+  {
+    component: "Input",
+    variant: "label",
+    render: () => <Input label="Email" type="email" />,
+  },
+  {
+    component: "Input",
+    variant: "description",
+    render: () => (
+      <Input label="Username" description="Shown on your public profile." />
+    ),
+  },
+  {
+    component: "Input",
+    variant: "disabled",
+    render: () => <Input label="Account ID" disabled defaultValue="A-1024" />,
+  },
+  {
+    component: "Textarea",
+    variant: "default",
+    render: () => (
+      <div className="grid gap-1.5">
+        <Label htmlFor="bio">Bio</Label>
+        <Textarea id="bio" />
+      </div>
+    ),
+  },
+  {
+    component: "Checkbox",
+    variant: "default",
+    render: () => (
+      <div className="flex items-center gap-2">
+        <Checkbox id="terms" />
+        <Label htmlFor="terms">Accept terms</Label>
+      </div>
+    ),
+  },
+  {
+    component: "Switch",
+    variant: "default",
+    render: () => (
+      <div className="flex items-center gap-2">
+        <Switch id="airplane" />
+        <Label htmlFor="airplane">Airplane mode</Label>
+      </div>
+    ),
+  },
+  {
+    component: "RadioGroup",
+    variant: "default",
+    render: () => (
+      <RadioGroup defaultValue="card" aria-label="Payment method">
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="card" id="card" />
+          <Label htmlFor="card">Card</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="bank" id="bank" />
+          <Label htmlFor="bank">Bank transfer</Label>
+        </div>
+      </RadioGroup>
+    ),
+  },
+  {
+    component: "Select",
+    variant: "closed",
+    render: () => (
+      <Select>
+        <SelectTrigger aria-label="Currency">
+          <SelectValue placeholder="Pick a currency" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="usd">USD</SelectItem>
+          <SelectItem value="eur">EUR</SelectItem>
+        </SelectContent>
+      </Select>
+    ),
+  },
+  {
+    component: "Select",
+    variant: "open",
+    render: () => (
+      <Select defaultOpen>
+        <SelectTrigger aria-label="Currency">
+          <SelectValue placeholder="Pick a currency" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="usd">USD</SelectItem>
+          <SelectItem value="eur">EUR</SelectItem>
+        </SelectContent>
+      </Select>
+    ),
+  },
+  {
+    component: "Slider",
+    variant: "single",
+    render: () => <Slider defaultValue={[40]} thumbLabels={["Volume"]} />,
+  },
+  {
+    component: "Slider",
+    variant: "range",
+    render: () => (
+      <Slider defaultValue={[20, 80]} ticks formatValue={(v) => `$${v}`} />
+    ),
+  },
+  {
+    component: "Progress",
+    variant: "default",
+    render: () => <Progress value={60} aria-label="Upload progress" />,
+  },
+  {
+    component: "Tabs",
+    variant: "default",
+    render: () => (
+      <Tabs defaultValue="account">
+        <TabsList aria-label="Settings">
+          <TabsTrigger value="account">Account</TabsTrigger>
+          <TabsTrigger value="password">Password</TabsTrigger>
+        </TabsList>
+        <TabsContent value="account">Account details</TabsContent>
+        <TabsContent value="password">Change password</TabsContent>
+      </Tabs>
+    ),
+  },
+  {
+    component: "Accordion",
+    variant: "default",
+    render: () => (
+      <Accordion type="single" collapsible defaultValue="shipping">
+        <AccordionItem value="shipping">
+          <AccordionTrigger>Shipping</AccordionTrigger>
+          <AccordionContent>Ships in 2 days.</AccordionContent>
+        </AccordionItem>
+        <AccordionItem value="returns">
+          <AccordionTrigger>Returns</AccordionTrigger>
+          <AccordionContent>Free within 30 days.</AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    ),
+  },
+  {
+    component: "Calendar",
+    variant: "single",
+    render: () => <Calendar mode="single" defaultMonth={day} selected={day} />,
+  },
+  {
+    component: "Calendar",
+    variant: "range",
+    render: () => (
+      <Calendar
+        mode="range"
+        defaultMonth={day}
+        selected={{ from: day, to: new Date(2024, 4, 20) }}
+        numberOfMonths={2}
+      />
+    ),
+  },
+  {
+    component: "Dialog",
+    variant: "open",
+    render: () => (
+      <Dialog defaultOpen>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit profile</DialogTitle>
+            <DialogDescription>Changes save when you close.</DialogDescription>
+          </DialogHeader>
+          <Input label="Name" />
+        </DialogContent>
+      </Dialog>
+    ),
+  },
+  {
+    component: "AlertDialog",
+    variant: "open",
+    render: () => (
+      <AlertDialog defaultOpen>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    ),
+  },
+  ...(["right", "bottom"] as const).map((position) => ({
+    component: "Sheet",
+    variant: position,
+    render: () => (
+      <Sheet defaultOpen>
+        <SheetContent position={position}>
+          <SheetHeader>
+            <SheetTitle>Filters</SheetTitle>
+            <SheetDescription>Narrow down the results.</SheetDescription>
+          </SheetHeader>
+        </SheetContent>
+      </Sheet>
+    ),
+  })),
+  {
+    component: "DropdownMenu",
+    variant: "open",
+    render: () => (
+      <DropdownMenu defaultOpen>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">Account</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuLabel>My account</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem>Profile</DropdownMenuItem>
+          <DropdownMenuItem>Sign out</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    ),
+  },
+  {
+    component: "Popover",
+    variant: "open",
+    render: () => (
+      <Popover defaultOpen>
+        <PopoverTrigger asChild>
+          <Button variant="outline">Dimensions</Button>
+        </PopoverTrigger>
+        <PopoverContent aria-label="Dimensions">
+          <Input label="Width" defaultValue="100%" />
+        </PopoverContent>
+      </Popover>
+    ),
+  },
+  {
+    component: "Tooltip",
+    variant: "open",
+    render: () => (
+      <TooltipProvider>
+        <Tooltip defaultOpen>
+          <TooltipTrigger asChild>
+            <Button variant="outline">Hover</Button>
+          </TooltipTrigger>
+          <TooltipContent>Add to library</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    ),
+  },
+  {
+    component: "HoverCard",
+    variant: "open",
+    render: () => (
+      <HoverCard defaultOpen>
+        <HoverCardTrigger href="/users/ana">@ana</HoverCardTrigger>
+        <HoverCardContent>Ana joined in March 2021.</HoverCardContent>
+      </HoverCard>
+    ),
+  },
+  {
+    component: "ContextMenu",
+    variant: "open",
+    render: () => (
+      <ContextMenu>
+        <ContextMenuTrigger className="block h-24 w-48 border">
+          Right-click here
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem>Back</ContextMenuItem>
+          <ContextMenuItem disabled>Forward</ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem>Reload</ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    ),
+    open: (user) =>
+      user.pointer({
+        keys: "[MouseRight]",
+        target: screen.getByText("Right-click here"),
+      }),
+  },
+  {
+    component: "Menubar",
+    variant: "open",
+    render: () => (
+      <Menubar defaultValue="file" aria-label="Editor">
+        <MenubarMenu value="file">
+          <MenubarTrigger>File</MenubarTrigger>
+          <MenubarContent>
+            <MenubarItem>New tab</MenubarItem>
+            <MenubarSeparator />
+            <MenubarItem>Print</MenubarItem>
+          </MenubarContent>
+        </MenubarMenu>
+        <MenubarMenu value="edit">
+          <MenubarTrigger>Edit</MenubarTrigger>
+          <MenubarContent>
+            <MenubarItem>Undo</MenubarItem>
+          </MenubarContent>
+        </MenubarMenu>
+      </Menubar>
+    ),
+  },
+  {
+    component: "NavigationMenu",
+    variant: "open",
+    render: () => (
+      <NavigationMenu defaultValue="products" aria-label="Main">
+        <NavigationMenuList>
+          <NavigationMenuItem value="products">
+            <NavigationMenuTrigger>Products</NavigationMenuTrigger>
+            <NavigationMenuContent>
+              <NavigationMenuLink href="/analytics">
+                Analytics
+              </NavigationMenuLink>
+              <NavigationMenuLink href="/billing">Billing</NavigationMenuLink>
+            </NavigationMenuContent>
+          </NavigationMenuItem>
+          <NavigationMenuItem>
+            <NavigationMenuLink href="/docs">Docs</NavigationMenuLink>
+          </NavigationMenuItem>
+        </NavigationMenuList>
+      </NavigationMenu>
+    ),
+  },
+  ...[false, true].map((expanded) => ({
+    component: "Collapsible",
+    variant: expanded ? "open" : "closed",
+    render: () => (
+      <Collapsible defaultOpen={expanded}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost">Show details</Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>Order #1042 ships tomorrow.</CollapsibleContent>
+      </Collapsible>
+    ),
+  })),
+  {
+    component: "Command",
+    variant: "default",
+    render: () => (
+      <Command label="Commands">
+        <CommandInput placeholder="Search…" />
+        <CommandList>
+          <CommandEmpty>No results.</CommandEmpty>
+          <CommandGroup heading="Suggestions">
+            <CommandItem>Calendar</CommandItem>
+            <CommandItem>Search emoji</CommandItem>
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    ),
+  },
+  {
+    component: "Breadcrumb",
+    variant: "default",
+    render: () => (
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/">Home</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbEllipsis />
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Settings</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+    ),
+  },
+  {
+    component: "Avatar",
+    variant: "fallback",
+    render: () => (
+      <Avatar>
+        <AvatarFallback>JD</AvatarFallback>
+      </Avatar>
+    ),
+  },
+  {
+    component: "Card",
+    variant: "default",
+    render: () => (
+      <Card>
+        <CardHeader>
+          <CardTitle>Revenue</CardTitle>
+          <CardDescription>Last 30 days</CardDescription>
+        </CardHeader>
+        <CardContent>$45,231.89</CardContent>
+      </Card>
+    ),
+  },
+  {
+    component: "Table",
+    variant: "default",
+    render: () => (
+      <Table>
+        <TableCaption>Recent invoices</TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <TableRow>
+            <TableCell>INV001</TableCell>
+            <TableCell>$250.00</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    ),
+  },
+  {
+    component: "Separator",
+    variant: "decorative",
+    render: () => <Separator />,
+  },
+  {
+    component: "Skeleton",
+    variant: "default",
+    render: () => <Skeleton className="h-4 w-32" />,
+  },
+]
@@ -0,0 +1,58 @@
+import type { KnownContrastIssue, KnownIssue } from "./audit"
+
+const componentIssues: KnownIssue[] = [
+  {
+    component: "Toast",
+    rule: "list",
+    reason:
+      "Radix renders each toast as li[role=status] inside the viewport's ol.",
+  },
+  {
+    component: "NavigationMenu",
+    variant: "open",
+    rule: "focus-order",
+    target: 'a "Docs"',
+    reason:
+      "Open content lives in the shared viewport after the list; Radix sends Tab from its last link on to the next item.",
+  },
+]
+
+// The brand colors kept from the original index.css. Changing them is a
+// rebrand, so the audit accepts them until design picks replacements.
+const contrastIssues: KnownContrastIssue[] = [
+  {
+    component: "theme",
+    variant: "light",
+    rule: "color-contrast",
+    target: "primary-foreground on primary",
+    reason: "White on --primary-blue (#3b82f6) is 3.68:1.",
+  },
+  {
+    component: "theme",
+    variant: "light",
+    rule: "color-contrast",
+    target: "primary on background",
+    reason: "Link buttons set --primary-blue (#3b82f6) on white, 3.68:1.",
+  },
+  {
+    component: "theme",
+    variant: "light",
+    rule: "color-contrast",
+    target: "destructive-foreground on destructive",
+    reason: "White on --error-red (#ef4444) is 3.76:1.",
+  },
+  {
+    component: "theme",
+    variant: "light",
+    rule: "color-contrast",
+    target: "destructive on background",
+    reason: "Destructive alerts set --error-red (#ef4444) on white, 3.76:1.",
+  },
+]
+
+/**
+ * Violations the audit accepts for now. Anything not listed here fails the
+ * run, and so does an entry nothing matches any more: remove it once the
+ * underlying issue is fixed so it can't creep back in.
+ */
+export const knownIssues: KnownIssue[] = [...componentIssues, ...contrastIssues]
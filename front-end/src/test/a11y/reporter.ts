@@ -0,0 +1,51 @@
+import { mkdirSync, writeFileSync } from "node:fs"
+import { dirname, resolve } from "node:path"
+import type { Reporter, TestModule } from "vitest/node"
+
+import type { ReportedAuditResult } from "./audit"
+
+export const A11Y_REPORT_PATH = "reports/a11y-report.json"
+
+export interface A11yReport {
+  summary: {
+    audited: number
+    violations: number
+    known: number
+    regressions: number
+  }
+  results: ReportedAuditResult[]
+}
+
+/**
+ * Collects the audit results the a11y tests attach to `task.meta` and writes
+ * them to reports/a11y-report.json. Runs that don't include the audit leave
+ * the previous report alone.
+ */
+export default class A11yReporter implements Reporter {
+  onTestRunEnd(testModules: ReadonlyArray<TestModule>) {
+    const results: ReportedAuditResult[] = []
+    for (const testModule of testModules) {
+      for (const testCase of testModule.children.allTests()) {
+        const result = testCase.meta().a11y
+        if (result) results.push(result)
+      }
+    }
+    if (results.length === 0) return
+
+    const violations = results.flatMap((result) => result.violations)
+    const known = violations.filter((violation) => violation.known).length
+    const report: A11yReport = {
+      summary: {
+        audited: results.length,
+        violations: violations.length,
+        known,
+        regressions: violations.length - known,
+      },
+      results,
+    }
+
+    const path = resolve(A11Y_REPORT_PATH)
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, `${JSON.stringify(report, null, 2)}\n`)
+  }
+}
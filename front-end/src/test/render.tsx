@@ -0,0 +1,16 @@
+import * as React from "react"
+import { render, type RenderOptions } from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+
+/**
+ * `render` plus a `user-event` instance bound to the same document, so
+ * tests can type, click and press keys the way a person would.
+ */
+export function setup(ui: React.ReactElement, options?: RenderOptions) {
+  return {
+    user: userEvent.setup(),
+    ...render(ui, options),
+  }
+}
+
+export * from "@testing-library/react"
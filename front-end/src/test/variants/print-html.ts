@@ -0,0 +1,56 @@
+const INDENT = "  "
+
+/** React's `useId` output, e.g. `:r4:` or `radix-:r4:`. */
+const GENERATED_ID = /:r[0-9a-z]+:/g
+
+/**
+ * Prints an element as indented HTML for snapshots. Attributes are sorted,
+ * each class sits on its own line so a diff names the exact class that
+ * changed, and generated ids are renumbered in order of appearance so
+ * snapshots don't depend on how many components rendered before.
+ */
+export function printHtml(element: Element) {
+  const ids = new Map<string, string>()
+  const stableIds = (value: string) =>
+    value.replace(GENERATED_ID, (id) => {
+      if (!ids.has(id)) ids.set(id, `:id${ids.size + 1}:`)
+      return ids.get(id)!
+    })
+
+  const printAttribute = (attribute: Attr, depth: number) => {
+    const pad = INDENT.repeat(depth)
+    if (attribute.name !== "class") {
+      return `${pad}${attribute.name}="${stableIds(attribute.value)}"`
+    }
+    const classes = attribute.value.split(/\s+/).filter(Boolean)
+    return [
+      `${pad}class="`,
+      ...classes.map((name) => `${pad}${INDENT}${name}`),
+      `${pad}"`,
+    ].join("\n")
+  }
+
+  const printNode = (node: Node, depth: number): string[] => {
+    const pad = INDENT.repeat(depth)
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent?.trim()
+      return text ? [`${pad}${text}`] : []
+    }
+    if (!(node instanceof Element)) return []
+
+    const tag = node.tagName.toLowerCase()
+    const attributes = [...node.attributes]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((attribute) => printAttribute(attribute, depth + 1))
+    const children = [...node.childNodes].flatMap((child) =>
+      printNode(child, depth + 1)
+    )
+
+    const open = attributes.length
+      ? [`${pad}<${tag}`, ...attributes, `${pad}>`]
+      : [`${pad}<${tag}>`]
+    return [...open, ...children, `${pad}</${tag}>`]
+  }
+
+  return printNode(element, 0).join("\n")
+}
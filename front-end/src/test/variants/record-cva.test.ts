@@ -0,0 +1,71 @@
+import { cva } from "class-variance-authority"
+import { describe, expect, it } from "vitest"
+
+import { printHtml } from "./print-html"
+import {
+  combinationKey,
+  recordingCva,
+  variantCombinations,
+  variantConfig,
+} from "./record-cva"
+
+describe("recordingCva", () => {
+  const recorded = recordingCva(cva)("base", {
+    variants: {
+      variant: { default: "a", outline: "b" },
+      size: { sm: "c", lg: "d" },
+    },
+    defaultVariants: { variant: "default", size: "sm" },
+  })
+
+  it("keeps the variant function working", () => {
+    expect(recorded()).toBe("base a c")
+    expect(recorded({ variant: "outline", size: "lg" })).toBe("base b d")
+  })
+
+  it("enumerates every combination in declaration order", () => {
+    const combinations = variantCombinations(variantConfig(recorded)!)
+
+    expect(combinations.map(combinationKey)).toEqual([
+      "variant=default, size=sm",
+      "variant=default, size=lg",
+      "variant=outline, size=sm",
+      "variant=outline, size=lg",
+    ])
+  })
+
+  it("gives a config without variants a single base combination", () => {
+    const config = variantConfig(recordingCva(cva)("base"))!
+
+    expect(variantCombinations(config).map(combinationKey)).toEqual(["base"])
+    expect(variantConfig(cva("base"))).toBeUndefined()
+  })
+})
+
+describe("printHtml", () => {
+  it("prints one class per line and renumbers generated ids", () => {
+    const element = document.createElement("div")
+    element.innerHTML =
+      '<p id="radix-:r7:" class="a  b">Hi</p><span aria-labelledby="radix-:r7:"></span>'
+
+    expect(printHtml(element)).toBe(
+      [
+        "<div>",
+        "  <p",
+        '    class="',
+        "      a",
+        "      b",
+        '    "',
+        '    id="radix-:id1:"',
+        "  >",
+        "    Hi",
+        "  </p>",
+        "  <span",
+        '    aria-labelledby="radix-:id1:"',
+        "  >",
+        "  </span>",
+        "</div>",
+      ].join("\n")
+    )
+  })
+})
@@ -0,0 +1,61 @@
+import type { cva as cvaFunction } from "class-variance-authority"
+
+type Cva = typeof cvaFunction
+
+/** What `cva(base, config)` was called with; cva keeps it in a closure. */
+export interface VariantConfig {
+  base: unknown
+  variants: Record<string, Record<string, unknown>>
+  defaultVariants: Record<string, unknown>
+}
+
+/** One value per variant prop, e.g. `{ variant: "outline", size: "sm" }`. */
+export type VariantCombination = Record<string, string>
+
+const configs = new WeakMap<object, VariantConfig>()
+
+/**
+ * Wraps `cva` so every variant function it returns remembers its config.
+ * Install it with `vi.mock("class-variance-authority")` before the
+ * components load; the functions behave exactly as before.
+ */
+export function recordingCva(cva: Cva): Cva {
+  return ((base, config) => {
+    const variantFunction = cva(base, config)
+    configs.set(variantFunction, {
+      base,
+      variants: (config?.variants ?? {}) as VariantConfig["variants"],
+      defaultVariants: (config?.defaultVariants ?? {}) as Record<
+        string,
+        unknown
+      >,
+    })
+    return variantFunction
+  }) as Cva
+}
+
+/** The config behind a function made by `recordingCva`, if it is one. */
+export function variantConfig(value: unknown) {
+  return typeof value === "function" ? configs.get(value) : undefined
+}
+
+/**
+ * Every combination of the config's variant values, in declaration order.
+ * A config without variants has a single, empty combination.
+ */
+export function variantCombinations(config: VariantConfig) {
+  return Object.entries(config.variants).reduce<VariantCombination[]>(
+    (combinations, [name, values]) =>
+      combinations.flatMap((combination) =>
+        Object.keys(values).map((value) => ({ ...combination, [name]: value }))
+      ),
+    [{}]
+  )
+}
+
+/** `{ variant: "outline", size: "sm" }` -> `"variant=outline, size=sm"` */
+export function combinationKey(combination: VariantCombination) {
+  const entries = Object.entries(combination)
+  if (entries.length === 0) return "base"
+  return entries.map(([name, value]) => `${name}=${value}`).join(", ")
+}
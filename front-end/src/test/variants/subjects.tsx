@@ -0,0 +1,86 @@
+import * as React from "react"
+
+import { Alert, AlertDescription, AlertTitle } from "../../components/ui/alert"
+import { Badge } from "../../components/ui/badge"
+import { Button } from "../../components/ui/button"
+import { Sheet, SheetContent, SheetTitle } from "../../components/ui/sheet"
+import {
+  Toast,
+  ToastClose,
+  ToastProvider,
+  ToastTitle,
+  ToastViewport,
+} from "../../components/ui/toast"
+import { Toggle } from "../../components/ui/toggle"
+import { ToggleGroup, ToggleGroupItem } from "../../components/ui/toggle-group"
+import type { VariantCombination } from "./record-cva"
+
+export interface VariantSubject {
+  render: (combination: VariantCombination) => React.ReactElement
+  /**
+   * The element to snapshot once rendered. Defaults to the first element in
+   * the container; portaled components point at their portal instead.
+   */
+  select?: (container: HTMLElement) => Element | null
+}
+
+/**
+ * How to render the component behind each variant function, keyed by the
+ * function's export name. Functions without a subject are snapshotted on a
+ * plain `div` carrying their classes.
+ */
+export const variantSubjects: Record<string, VariantSubject> = {
+  alertVariants: {
+    render: (combination) => (
+      <Alert {...combination}>
+        <AlertTitle>Heads up</AlertTitle>
+        <AlertDescription>Something happened.</AlertDescription>
+      </Alert>
+    ),
+  },
+  badgeVariants: {
+    render: (combination) => <Badge {...combination}>Badge</Badge>,
+  },
+  buttonVariants: {
+    render: (combination) => <Button {...combination}>Button</Button>,
+  },
+  sheetVariants: {
+    render: (combination) => (
+      <Sheet open>
+        <SheetContent {...combination} aria-describedby={undefined}>
+          <SheetTitle>Sheet</SheetTitle>
+        </SheetContent>
+      </Sheet>
+    ),
+    select: () =>
+      document.querySelector("[role=dialog]")?.parentElement ?? null,
+  },
+  toastVariants: {
+    render: (combination) => (
+      <ToastProvider>
+        <Toast open {...combination}>
+          <ToastTitle>Saved</ToastTitle>
+          <ToastClose />
+        </Toast>
+        <ToastViewport />
+      </ToastProvider>
+    ),
+    select: () => document.querySelector("li[role=status]"),
+  },
+  toggleGroupItemVariants: {
+    render: (combination) => (
+      <ToggleGroup type="single" {...combination}>
+        <ToggleGroupItem value="bold" aria-label="Bold">
+          B
+        </ToggleGroupItem>
+      </ToggleGroup>
+    ),
+  },
+  toggleVariants: {
+    render: (combination) => (
+      <Toggle {...combination} aria-label="Bold">
+        B
+      </Toggle>
+    ),
+  },
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { render } from "../render"
+import { printHtml } from "./print-html"
+import {
+  combinationKey,
+  variantCombinations,
+  variantConfig,
+} from "./record-cva"
+import { variantSubjects } from "./subjects"
+
+vi.mock("class-variance-authority", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("class-variance-authority")>()
+  const { recordingCva } = await import("./record-cva")
+  return { ...actual, cva: recordingCva(actual.cva) }
+})
+
+const componentModules = import.meta.glob<Record<string, unknown>>(
+  ["../../components/ui/*.tsx", "!../../components/ui/*.test.tsx"],
+  { eager: true }
+)
+
+/** Every exported cva function in components/ui, by export name. */
+const variantFunctions = Object.values(componentModules)
+  .flatMap((module) =>
+    Object.entries(module).flatMap(([name, value]) => {
+      const config = variantConfig(value)
+      return config
+        ? [{ name, variants: value as (props: object) => string, config }]
+        : []
+    })
+  )
+  .sort((a, b) => a.name.localeCompare(b.name))
+
+describe("variant snapshots", () => {
+  it("finds the variant functions", () => {
+    expect(variantFunctions.map(({ name }) => name)).toEqual(
+      expect.arrayContaining(Object.keys(variantSubjects))
+    )
+  })
+
+  for (const { name, variants, config } of variantFunctions) {
+    const subject = variantSubjects[name]
+
+    describe(name, () => {
+      it.for(
+        variantCombinations(config).map((c) => [combinationKey(c), c] as const)
+      )("%s", ([, combination]) => {
+        const { container } = subject
+          ? render(subject.render(combination))
+          : render(<div className={variants(combination)} />)
+        const element = subject?.select
+          ? subject.select(container)
+          : container.firstElementChild
+
+        expect(element, "nothing rendered to snapshot").not.toBeNull()
+        expect(printHtml(element!)).toMatchSnapshot()
+      })
+    })
+  }
+})